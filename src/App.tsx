@@ -1,20 +1,119 @@
-import React, { useState } from 'react';
-import { Shield, AlertTriangle, FileText } from 'lucide-react';
+import React, { useEffect, useState } from 'react';
+import { Shield, AlertTriangle, FileText, Video } from 'lucide-react';
 import EmotionDetector from './components/EmotionDetector';
 import DataLogger from './components/DataLogger';
 import Dashboard from './components/Dashboard';
+import SessionRecordings from './components/SessionRecordings';
+import { SessionTranscript } from './analysis/transcript';
+import { RiskAssessment } from './analysis/riskRules';
+import { clearTranscripts, listTranscripts, saveTranscript } from './storage/recordingStore';
+
+interface ActionUnitReading {
+  present: boolean;
+  intensity: number;
+  unilateral?: boolean;
+}
+
+interface AffectDimensions {
+  valence: number;
+  arousal: number;
+  dominance: number;
+}
+
+interface FrameQuality {
+  score: number;
+  usable: boolean;
+  brightness: number;
+  contrast: number;
+  sharpness: number;
+  pose: number;
+  faceSize: number;
+  issues: string[];
+}
 
 interface EmotionResult {
   id: string;
   timestamp: string;
-  emotion: string;
+  status: 'classified' | 'no_face' | 'low_quality';
+  emotion: string | null;
   confidence: number;
+  probabilities: { [emotion: string]: number } | null;
+  affect: AffectDimensions | null;
+  quality: FrameQuality | null;
+  sessionId: string;
+  modelName: string;
+  modelVersion: string;
+  faceDetected: boolean;
+  subjectId: string | null;
+  mediaTime: number | null;
+  actionUnits: { [code: string]: ActionUnitReading } | null;
+}
+
+interface MicroExpressionEvent {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  subjectId: string;
+  clock: 'epoch' | 'media';
+  onsetTime: number;
+  apexTime: number;
+  offsetTime: number;
+  durationMs: number;
+  peakIntensity: number;
+  region: 'brows' | 'eyes' | 'nose' | 'mouth';
+}
+
+interface BehavioralSignals {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  subjectId: string;
+  mediaTime: number | null;
+  headPose: { yaw: number; pitch: number; roll: number };
+  gaze: { yaw: number; pitch: number; direction: 'center' | 'left' | 'right' | 'up' | 'down' } | null;
+  downwardGazeRatio: number;
+  eyeAspectRatio: number;
+  blinkCount: number;
+  blinkRate: number | null;
+}
+
+interface PhysiologicalSignals {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  subjectId: string;
+  mediaTime: number | null;
+  heartRate: number | null;
+  hrv: { rmssd: number; sdnn: number } | null;
+  signalQuality: number;
+  frameRate: number;
+}
+
+interface AcousticFeatureRecord {
+  id: string;
+  voiceAnalysisId: string;
+  timestamp: string;
+  windowStart: string;
+  windowEnd: string;
   sessionId: string;
+  speaker: 'subject' | 'interviewer' | 'unknown';
+  mediaTime: number | null;
+  frames: number;
+  fundamentalFrequency: number | null;
+  jitter: number | null;
+  shimmer: number | null;
+  hnr: number | null;
+  formants: (number | null)[];
+  loudness: number;
+  spectralFlux: number;
+  mfcc: number[];
 }
 
 interface VoiceAnalysis {
   id: string;
   timestamp: string;
+  windowStart: string;
+  windowEnd: string;
   stressLevel: number;
   confidenceLevel: number;
   pitchVariation: number;
@@ -22,12 +121,41 @@ interface VoiceAnalysis {
   volumeConsistency: number;
   emotionalState: 'calm' | 'stressed' | 'confident' | 'uncertain' | 'deceptive' | 'anxious';
   sessionId: string;
+  speaker: 'subject' | 'interviewer' | 'unknown';
+  fundamentalFrequency: number | null;
+  jitter: number | null;
+  shimmer: number | null;
+  mediaTime: number | null;
+  baselineId: string | null;
+  deviations: Record<string, number | null> | null;
 }
 
 function App() {
   const [emotionData, setEmotionData] = useState<EmotionResult[]>([]);
   const [voiceData, setVoiceData] = useState<VoiceAnalysis[]>([]);
-  const [activeTab, setActiveTab] = useState<'detector' | 'dashboard' | 'logs'>('detector');
+  const [microExpressionData, setMicroExpressionData] = useState<MicroExpressionEvent[]>([]);
+  const [behaviorData, setBehaviorData] = useState<BehavioralSignals[]>([]);
+  const [physiologicalData, setPhysiologicalData] = useState<PhysiologicalSignals[]>([]);
+  const [acousticData, setAcousticData] = useState<AcousticFeatureRecord[]>([]);
+  const [transcripts, setTranscripts] = useState<SessionTranscript[]>([]);
+  const [riskAssessments, setRiskAssessments] = useState<RiskAssessment[]>([]);
+  const [activeTab, setActiveTab] = useState<'detector' | 'dashboard' | 'logs' | 'recordings'>('detector');
+  const [recordingsVersion, setRecordingsVersion] = useState(0);
+
+  // Transcripts outlive a reload, so recorded sessions can be reviewed against them later;
+  // one imported before loading finished wins over the stored copy
+  const loadTranscripts = async () => {
+    try {
+      const stored = await listTranscripts<SessionTranscript>();
+      setTranscripts(prev => [...stored.filter(item => !prev.some(other => other.sessionId === item.sessionId)), ...prev]);
+    } catch (error) {
+      console.warn('Could not load transcripts:', error);
+    }
+  };
+
+  useEffect(() => {
+    loadTranscripts();
+  }, []);
 
   const handleEmotionDetected = (result: EmotionResult) => {
     setEmotionData(prev => [...prev, result]);
@@ -37,9 +165,54 @@ function App() {
     setVoiceData(prev => [...prev, result]);
   };
 
-  const clearData = () => {
+  const handleMicroExpressionDetected = (event: MicroExpressionEvent) => {
+    setMicroExpressionData(prev => [...prev, event]);
+  };
+
+  const handleBehavioralSignals = (signals: BehavioralSignals) => {
+    setBehaviorData(prev => [...prev, signals]);
+  };
+
+  const handlePhysiologicalSignals = (signals: PhysiologicalSignals) => {
+    setPhysiologicalData(prev => [...prev, signals]);
+  };
+
+  const handleAcousticFeatures = (record: AcousticFeatureRecord) => {
+    setAcousticData(prev => [...prev, record]);
+  };
+
+  // A new import replaces any earlier transcript for the same session
+  const handleTranscriptImported = async (transcript: SessionTranscript) => {
+    setTranscripts(prev => [...prev.filter(item => item.sessionId !== transcript.sessionId), transcript]);
+    try {
+      await saveTranscript(transcript);
+    } catch (error) {
+      console.warn('Could not save transcript:', error);
+    }
+  };
+
+  const handleRecordAssessment = (assessment: RiskAssessment) => {
+    setRiskAssessments(prev => [...prev, assessment]);
+  };
+
+  const handleRecordingSaved = () => {
+    setRecordingsVersion(prev => prev + 1);
+  };
+
+  const clearData = async () => {
     setEmotionData([]);
     setVoiceData([]);
+    setMicroExpressionData([]);
+    setBehaviorData([]);
+    setPhysiologicalData([]);
+    setAcousticData([]);
+    setTranscripts([]);
+    setRiskAssessments([]);
+    try {
+      await clearTranscripts();
+    } catch (error) {
+      console.warn('Could not clear stored transcripts:', error);
+    }
   };
 
   return (
@@ -75,7 +248,7 @@ function App() {
             <p className="text-sm text-red-700">
               <strong>Legal Notice:</strong> All predicted outputs in this system are intended as decision-support tools 
               and not to be used as conclusive evidence in legal proceedings. Data is processed locally, 
-              secured via encryption, and anonymized for privacy.
+              secured via encryption, and faces can be anonymized on screen and in recordings with privacy mode.
             </p>
           </div>
         </div>
@@ -88,7 +261,8 @@ function App() {
             {[
               { id: 'detector', label: 'Live Detection', icon: Shield },
               { id: 'dashboard', label: 'Analytics Dashboard', icon: FileText },
-              { id: 'logs', label: 'Data Logs', icon: FileText }
+              { id: 'logs', label: 'Data Logs', icon: FileText },
+              { id: 'recordings', label: 'Recordings', icon: Video }
             ].map(({ id, label, icon: Icon }) => (
               <button
                 key={id}
@@ -115,6 +289,11 @@ function App() {
               <EmotionDetector 
                 onEmotionDetected={handleEmotionDetected}
                 onVoiceAnalyzed={handleVoiceAnalyzed}
+                onMicroExpressionDetected={handleMicroExpressionDetected}
+                onBehavioralSignals={handleBehavioralSignals}
+                onPhysiologicalSignals={handlePhysiologicalSignals}
+                onAcousticFeatures={handleAcousticFeatures}
+                onRecordingSaved={handleRecordingSaved}
               />
             </div>
             <div>
@@ -129,6 +308,10 @@ function App() {
                     <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 mr-3"></div>
                     <p>Subject should face camera directly</p>
                   </div>
+                  <div className="flex items-start">
+                    <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 mr-3"></div>
+                    <p>Frames failing the quality gate are excluded from analysis</p>
+                  </div>
                   <div className="flex items-start">
                     <div className="w-2 h-2 bg-blue-500 rounded-full mt-2 mr-3"></div>
                     <p>Results are suggestions only, not definitive</p>
@@ -160,11 +343,38 @@ function App() {
         )}
 
         {activeTab === 'dashboard' && (
-          <Dashboard data={emotionData} voiceData={voiceData} />
+          <Dashboard
+            data={emotionData}
+            voiceData={voiceData}
+            behaviorData={behaviorData}
+            physiologicalData={physiologicalData}
+            assessments={riskAssessments}
+            onRecordAssessment={handleRecordAssessment}
+          />
         )}
 
         {activeTab === 'logs' && (
-          <DataLogger data={emotionData} voiceData={voiceData} onClearData={clearData} />
+          <DataLogger
+            data={emotionData}
+            voiceData={voiceData}
+            microExpressionData={microExpressionData}
+            physiologicalData={physiologicalData}
+            acousticData={acousticData}
+            transcripts={transcripts}
+            onImportTranscript={handleTranscriptImported}
+            onClearData={clearData}
+          />
+        )}
+
+        {activeTab === 'recordings' && (
+          <SessionRecordings
+            refreshKey={recordingsVersion}
+            emotionData={emotionData}
+            voiceData={voiceData}
+            microExpressionData={microExpressionData}
+            behaviorData={behaviorData}
+            physiologicalData={physiologicalData}
+          />
         )}
       </main>
 
@@ -0,0 +1,186 @@
+import { FacePoint } from '../models';
+import { distance, normalizeLandmarks } from './landmarks';
+
+// Geometric approximation of FACS Action Units from 68 landmarks. Each AU is scored
+// from the change of a landmark measure against the subject's own neutral baseline,
+// so it captures appearance changes that move landmarks (not texture such as wrinkles).
+export const ACTION_UNITS = {
+  AU1: 'Inner brow raiser',
+  AU2: 'Outer brow raiser',
+  AU4: 'Brow lowerer',
+  AU5: 'Upper lid raiser',
+  AU6: 'Cheek raiser',
+  AU7: 'Lid tightener',
+  AU9: 'Nose wrinkler',
+  AU10: 'Upper lip raiser',
+  AU12: 'Lip corner puller',
+  AU14: 'Dimpler',
+  AU15: 'Lip corner depressor',
+  AU17: 'Chin raiser',
+  AU20: 'Lip stretcher',
+  AU23: 'Lip tightener',
+  AU24: 'Lip pressor',
+  AU25: 'Lips part',
+  AU26: 'Jaw drop',
+  AU43: 'Eyes closed'
+} as const;
+
+export type ActionUnitCode = keyof typeof ACTION_UNITS;
+
+export interface ActionUnitReading {
+  present: boolean;
+  // 0-5, following the FACS A-E intensity scale (1 = trace, 5 = maximum)
+  intensity: number;
+  // Only reported for AUs with a left/right pair of landmarks
+  unilateral?: boolean;
+}
+
+export type ActionUnitFrame = Record<ActionUnitCode, ActionUnitReading>;
+
+interface Measures {
+  innerBrowHeight: number;
+  outerBrowHeight: number;
+  browGap: number;
+  eyeAperture: number;
+  browToNose: number;
+  noseToUpperLip: number;
+  cornerLiftRight: number;
+  cornerLiftLeft: number;
+  mouthWidth: number;
+  lipThickness: number;
+  lipGap: number;
+  chinToLip: number;
+  faceHeight: number;
+}
+
+const PRESENCE_INTENSITY = 1;
+const UNILATERAL_RATIO = 0.35;
+// Inner-lip gap, in inter-ocular units, above which the lips count as parted
+const LIPS_APART_GAP = 0.05;
+const BASELINE_FRAMES = 15;
+const BASELINE_RATE = 0.005;
+
+const measure = (landmarks: FacePoint[]): Measures => {
+  const p = normalizeLandmarks(landmarks);
+  const mouthCenterY = (p[51].y + p[57].y) / 2;
+
+  return {
+    innerBrowHeight: ((p[39].y - p[21].y) + (p[42].y - p[22].y)) / 2,
+    outerBrowHeight: ((p[36].y - p[17].y) + (p[45].y - p[26].y)) / 2,
+    browGap: distance(p[21], p[22]),
+    eyeAperture: (distance(p[37], p[41]) + distance(p[38], p[40]) + distance(p[43], p[47]) + distance(p[44], p[46])) / 4,
+    browToNose: (distance(p[21], p[33]) + distance(p[22], p[33])) / 2,
+    noseToUpperLip: distance(p[33], p[51]),
+    // Positive when the corner sits above the mouth centre line
+    cornerLiftRight: mouthCenterY - p[48].y,
+    cornerLiftLeft: mouthCenterY - p[54].y,
+    mouthWidth: distance(p[48], p[54]),
+    lipThickness: distance(p[51], p[62]) + distance(p[57], p[66]),
+    lipGap: distance(p[62], p[66]),
+    chinToLip: distance(p[57], p[8]),
+    faceHeight: distance(p[27], p[8])
+  };
+};
+
+// Scale intensity so that `fullScale` of change maps to 5
+const score = (change: number, fullScale: number) => Math.min(Math.max((change / fullScale) * 5, 0), 5);
+
+const reading = (intensity: number, unilateral?: boolean): ActionUnitReading => ({
+  present: intensity >= PRESENCE_INTENSITY,
+  intensity: Math.round(intensity * 100) / 100,
+  ...(unilateral !== undefined ? { unilateral } : {})
+});
+
+const pairReading = (right: number, left: number): ActionUnitReading => {
+  const intensity = Math.max(right, left);
+  const weaker = Math.min(right, left);
+  return reading(intensity, intensity >= PRESENCE_INTENSITY && weaker < intensity * UNILATERAL_RATIO);
+};
+
+const scoreFrame = (m: Measures, b: Measures): ActionUnitFrame => {
+  const relative = (key: keyof Measures) => (m[key] - b[key]) / Math.max(Math.abs(b[key]), 1e-3);
+
+  const lidNarrowing = score(-relative('eyeAperture'), 0.5);
+  const liftRight = score(m.cornerLiftRight - b.cornerLiftRight, 0.12);
+  const liftLeft = score(m.cornerLiftLeft - b.cornerLiftLeft, 0.12);
+  const dropRight = score(b.cornerLiftRight - m.cornerLiftRight, 0.1);
+  const dropLeft = score(b.cornerLiftLeft - m.cornerLiftLeft, 0.1);
+  const smile = Math.max(liftRight, liftLeft);
+  const widening = score(relative('mouthWidth'), 0.25);
+  const narrowing = score(-relative('mouthWidth'), 0.15);
+  const lipThinning = score(-relative('lipThickness'), 0.4);
+  const lipsApart = m.lipGap > LIPS_APART_GAP;
+
+  return {
+    AU1: reading(score(relative('innerBrowHeight'), 0.35)),
+    AU2: reading(score(relative('outerBrowHeight'), 0.35)),
+    AU4: reading(Math.max(score(-relative('innerBrowHeight'), 0.3), score(-relative('browGap'), 0.2))),
+    AU5: reading(score(relative('eyeAperture'), 0.4)),
+    // Narrowed eyes read as AU6 with a smile (cheeks push the lower lid) and as AU7 without
+    AU6: reading(smile >= PRESENCE_INTENSITY ? lidNarrowing : 0),
+    AU7: reading(smile >= PRESENCE_INTENSITY ? 0 : lidNarrowing),
+    AU9: reading(score(-relative('browToNose'), 0.12)),
+    AU10: reading(score(-relative('noseToUpperLip'), 0.3)),
+    AU12: pairReading(liftRight, liftLeft),
+    // Corners pulled sideways without lifting
+    AU14: pairReading(
+      liftRight < PRESENCE_INTENSITY ? widening : 0,
+      liftLeft < PRESENCE_INTENSITY ? widening : 0
+    ),
+    AU15: pairReading(dropRight, dropLeft),
+    AU17: reading(score(-relative('chinToLip'), 0.2)),
+    AU20: reading(!lipsApart && dropRight + dropLeft > 0 ? widening : 0),
+    // Tightening narrows the mouth; pressing flattens the lips without narrowing
+    AU23: reading(lipsApart || narrowing < PRESENCE_INTENSITY ? 0 : lipThinning),
+    AU24: reading(lipsApart || narrowing >= PRESENCE_INTENSITY ? 0 : lipThinning),
+    AU25: reading(lipsApart ? Math.min(PRESENCE_INTENSITY + score(m.lipGap - LIPS_APART_GAP, 0.3), 5) : 0),
+    AU26: reading(lipsApart ? score(relative('faceHeight'), 0.15) : 0),
+    AU43: reading(score(-relative('eyeAperture'), 0.8))
+  };
+};
+
+interface SubjectBaseline {
+  measures: Measures;
+  frames: number;
+}
+
+export const createActionUnitEstimator = () => {
+  const baselines = new Map<string, SubjectBaseline>();
+
+  // Returns null while the subject's neutral baseline is still being collected
+  const estimate = (subjectId: string, landmarks: FacePoint[]): ActionUnitFrame | null => {
+    const current = measure(landmarks);
+    const baseline = baselines.get(subjectId);
+
+    if (!baseline) {
+      baselines.set(subjectId, { measures: { ...current }, frames: 1 });
+      return null;
+    }
+
+    // Average the first frames, then drift slowly to follow lighting/pose changes
+    const rate = baseline.frames < BASELINE_FRAMES ? 1 / (baseline.frames + 1) : BASELINE_RATE;
+    const frame = baseline.frames < BASELINE_FRAMES ? null : scoreFrame(current, baseline.measures);
+
+    (Object.keys(current) as (keyof Measures)[]).forEach(key => {
+      baseline.measures[key] += (current[key] - baseline.measures[key]) * rate;
+    });
+    baseline.frames++;
+
+    return frame;
+  };
+
+  // Drops the baselines of subjects the tracker no longer follows
+  const retain = (subjectIds: string[]) => {
+    Array.from(baselines.keys()).forEach(subjectId => {
+      if (!subjectIds.includes(subjectId)) baselines.delete(subjectId);
+    });
+  };
+
+  const reset = () => {
+    baselines.clear();
+  };
+
+  return { estimate, retain, reset };
+};
+
+export type ActionUnitEstimator = ReturnType<typeof createActionUnitEstimator>;
@@ -0,0 +1,41 @@
+import { EmotionLabel } from '../models';
+
+// Continuous affect in the pleasure-arousal-dominance space, each axis in [-1, 1]
+export interface AffectDimensions {
+  valence: number;
+  arousal: number;
+  dominance: number;
+}
+
+// Category anchors from Russell & Mehrabian (1977) PAD ratings; neutral sits at the origin
+export const EMOTION_ANCHORS: Record<EmotionLabel, AffectDimensions> = {
+  neutral: { valence: 0, arousal: 0, dominance: 0 },
+  happy: { valence: 0.76, arousal: 0.48, dominance: 0.35 },
+  sad: { valence: -0.63, arousal: -0.27, dominance: -0.33 },
+  angry: { valence: -0.51, arousal: 0.59, dominance: 0.25 },
+  fearful: { valence: -0.64, arousal: 0.6, dominance: -0.43 },
+  disgusted: { valence: -0.6, arousal: 0.35, dominance: 0.11 },
+  surprised: { valence: 0.4, arousal: 0.67, dominance: -0.13 }
+};
+
+// Probability-weighted mean of the category anchors, so a split between e.g. happy and
+// surprised lands between them instead of snapping to the top label
+export const estimateAffectDimensions = (probabilities: Record<EmotionLabel, number>): AffectDimensions => {
+  let total = 0;
+  const sum = { valence: 0, arousal: 0, dominance: 0 };
+
+  for (const [label, anchor] of Object.entries(EMOTION_ANCHORS) as [EmotionLabel, AffectDimensions][]) {
+    const p = probabilities[label] ?? 0;
+    total += p;
+    sum.valence += p * anchor.valence;
+    sum.arousal += p * anchor.arousal;
+    sum.dominance += p * anchor.dominance;
+  }
+
+  if (total === 0) return { valence: 0, arousal: 0, dominance: 0 };
+  return {
+    valence: sum.valence / total,
+    arousal: sum.arousal / total,
+    dominance: sum.dominance / total
+  };
+};
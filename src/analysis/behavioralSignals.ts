@@ -0,0 +1,173 @@
+import { FacePoint } from '../models';
+import { distance } from './landmarks';
+import { EyeGaze } from './eyeGaze';
+import { estimateHeadPose, HeadPose } from './headPose';
+
+export type GazeDirection = 'center' | 'left' | 'right' | 'up' | 'down';
+
+// Head pose plus eye-in-head offset, in degrees with the same sign conventions as HeadPose
+export interface GazeEstimate {
+  yaw: number;
+  pitch: number;
+  direction: GazeDirection;
+}
+
+// One summary per subject per window; pose and gaze are window means
+export interface BehaviorSummary {
+  subjectId: string;
+  startTime: number;
+  endTime: number;
+  headPose: HeadPose;
+  gaze: GazeEstimate | null;
+  // Share of frames in the window with the gaze directed downward
+  downwardGazeRatio: number;
+  eyeAspectRatio: number;
+  blinkCount: number;
+  // Blinks per minute over the trailing rate window; null until enough history exists
+  blinkRate: number | null;
+}
+
+export interface BehaviorTrackerOptions {
+  windowMs: number;
+  rateWindowMs: number;
+  minRateHistoryMs: number;
+  // Eye closed when the aspect ratio falls below this fraction of the subject's open-eye level
+  closedRatio: number;
+  // Closures longer than this are deliberate eye closing rather than blinks
+  maxBlinkMs: number;
+  // Approximate eye rotation range covered by iris offsets of +-1
+  eyeYawRange: number;
+  eyePitchRange: number;
+  centerYaw: number;
+  centerPitch: number;
+}
+
+const DEFAULT_OPTIONS: BehaviorTrackerOptions = {
+  windowMs: 1000,
+  rateWindowMs: 60000,
+  minRateHistoryMs: 10000,
+  closedRatio: 0.7,
+  maxBlinkMs: 500,
+  eyeYawRange: 30,
+  eyePitchRange: 20,
+  centerYaw: 15,
+  centerPitch: 12
+};
+
+interface FrameSignals {
+  headPose: HeadPose;
+  gaze: GazeEstimate | null;
+  eyeAspectRatio: number;
+}
+
+interface SubjectState {
+  firstSeen: number;
+  windowStart: number;
+  frames: FrameSignals[];
+  blinkTimes: number[];
+  // Slowly tracks the open-eye aspect ratio so thresholds adapt to each face
+  openLevel: number | null;
+  closedSince: number | null;
+}
+
+// Eye Aspect Ratio (Soukupova & Cech 2016): lid distances over eye width; ~0.3 open, near 0 closed
+const eyeAspectRatio = (landmarks: FacePoint[], from: number) => {
+  const p = landmarks.slice(from, from + 6);
+  return (distance(p[1], p[5]) + distance(p[2], p[4])) / (2 * distance(p[0], p[3]) || 1);
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+
+export const createBehaviorTracker = (overrides: Partial<BehaviorTrackerOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const subjects = new Map<string, SubjectState>();
+
+  const classifyGaze = (yaw: number, pitch: number): GazeDirection => {
+    const yawExcess = Math.abs(yaw) / options.centerYaw;
+    const pitchExcess = Math.abs(pitch) / options.centerPitch;
+    if (yawExcess < 1 && pitchExcess < 1) return 'center';
+    if (pitchExcess >= yawExcess) return pitch < 0 ? 'down' : 'up';
+    return yaw < 0 ? 'left' : 'right';
+  };
+
+  const estimateGaze = (headPose: HeadPose, eyes: EyeGaze | null): GazeEstimate | null => {
+    if (!eyes) return null;
+    const yaw = headPose.yaw + eyes.x * options.eyeYawRange;
+    // Iris offset grows downward in the image, pitch grows upward
+    const pitch = headPose.pitch - eyes.y * options.eyePitchRange;
+    return { yaw, pitch, direction: classifyGaze(yaw, pitch) };
+  };
+
+  const summarize = (subjectId: string, state: SubjectState, time: number): BehaviorSummary => {
+    const { frames } = state;
+    const gazes = frames.map(frame => frame.gaze).filter((gaze): gaze is GazeEstimate => gaze !== null);
+    const gazeYaw = mean(gazes.map(gaze => gaze.yaw));
+    const gazePitch = mean(gazes.map(gaze => gaze.pitch));
+
+    state.blinkTimes = state.blinkTimes.filter(blink => time - blink <= options.rateWindowMs);
+    const history = Math.min(time - state.firstSeen, options.rateWindowMs);
+
+    return {
+      subjectId,
+      startTime: state.windowStart,
+      endTime: time,
+      headPose: {
+        yaw: mean(frames.map(frame => frame.headPose.yaw)),
+        pitch: mean(frames.map(frame => frame.headPose.pitch)),
+        roll: mean(frames.map(frame => frame.headPose.roll))
+      },
+      gaze: gazes.length > 0 ? { yaw: gazeYaw, pitch: gazePitch, direction: classifyGaze(gazeYaw, gazePitch) } : null,
+      downwardGazeRatio: gazes.length > 0 ? gazes.filter(gaze => gaze.direction === 'down').length / gazes.length : 0,
+      eyeAspectRatio: mean(frames.map(frame => frame.eyeAspectRatio)),
+      blinkCount: state.blinkTimes.filter(blink => blink >= state.windowStart).length,
+      blinkRate: history >= options.minRateHistoryMs ? state.blinkTimes.length * 60000 / history : null
+    };
+  };
+
+  // Feed one frame for a subject; returns a summary whenever a window has been completed
+  const push = (subjectId: string, landmarks: FacePoint[], eyes: EyeGaze | null, time: number): BehaviorSummary | null => {
+    let state = subjects.get(subjectId);
+    if (!state) {
+      state = { firstSeen: time, windowStart: time, frames: [], blinkTimes: [], openLevel: null, closedSince: null };
+      subjects.set(subjectId, state);
+    }
+
+    const headPose = estimateHeadPose(landmarks);
+    const ear = (eyeAspectRatio(landmarks, 36) + eyeAspectRatio(landmarks, 42)) / 2;
+    const closed = state.openLevel !== null && ear < state.openLevel * options.closedRatio;
+
+    if (closed) {
+      state.closedSince ??= time;
+    } else {
+      if (state.closedSince !== null && time - state.closedSince <= options.maxBlinkMs) {
+        state.blinkTimes.push(state.closedSince);
+      }
+      state.closedSince = null;
+      state.openLevel = state.openLevel === null ? ear : state.openLevel * 0.95 + ear * 0.05;
+    }
+
+    // Iris positions are meaningless mid-blink
+    state.frames.push({ headPose, gaze: closed ? null : estimateGaze(headPose, eyes), eyeAspectRatio: ear });
+    if (time - state.windowStart < options.windowMs) return null;
+
+    const summary = summarize(subjectId, state, time);
+    state.windowStart = time;
+    state.frames = [];
+    return summary;
+  };
+
+  // Drops the blink and pose history of subjects the tracker no longer follows
+  const retain = (subjectIds: string[]) => {
+    Array.from(subjects.keys()).forEach(subjectId => {
+      if (!subjectIds.includes(subjectId)) subjects.delete(subjectId);
+    });
+  };
+
+  const reset = () => {
+    subjects.clear();
+  };
+
+  return { push, retain, reset };
+};
+
+export type BehaviorTracker = ReturnType<typeof createBehaviorTracker>;
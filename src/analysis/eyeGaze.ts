@@ -0,0 +1,95 @@
+import { AnalysisFrame, DetectedFace, FacePoint } from '../models';
+
+// Iris position inside the eye opening, averaged over both eyes: -1..1 from the image-left
+// to the image-right corner (x) and from the upper to the lower lid (y)
+export interface EyeGaze {
+  x: number;
+  y: number;
+}
+
+export interface EyeGazeOptions {
+  // Eyes narrower than this in the frame are too coarse to locate the iris
+  minEyeWidthPx: number;
+  // Height/width ratio under which the eye counts as closed
+  minOpenness: number;
+  // Share of the darkest pixels taken as the iris
+  irisFraction: number;
+}
+
+const DEFAULT_OPTIONS: EyeGazeOptions = {
+  minEyeWidthPx: 12,
+  minOpenness: 0.18,
+  irisFraction: 0.2
+};
+
+const SAMPLE_WIDTH = 32;
+
+const EYES: [number, number][] = [[36, 41], [42, 47]];
+
+export const createEyeGazeEstimator = (overrides: Partial<EyeGazeOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  // OffscreenCanvas so the estimate runs inside the inference worker
+  let sampleCanvas: OffscreenCanvas | null = null;
+
+  const locateIris = (frame: AnalysisFrame, points: FacePoint[]): EyeGaze | null => {
+    const xs = points.map(p => p.x);
+    const ys = points.map(p => p.y);
+    const left = Math.min(...xs);
+    const right = Math.max(...xs);
+    const top = Math.min(...ys);
+    const bottom = Math.max(...ys);
+    const width = right - left;
+    const height = bottom - top;
+    if (width < options.minEyeWidthPx || height / width < options.minOpenness) return null;
+
+    if (!sampleCanvas) {
+      sampleCanvas = new OffscreenCanvas(SAMPLE_WIDTH, 2);
+    }
+    const sampleHeight = Math.max(2, Math.round(SAMPLE_WIDTH * height / width));
+    sampleCanvas.width = SAMPLE_WIDTH;
+    sampleCanvas.height = sampleHeight;
+    const ctx = sampleCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    ctx.drawImage(frame, left, top, width, height, 0, 0, SAMPLE_WIDTH, sampleHeight);
+    const pixels = ctx.getImageData(0, 0, SAMPLE_WIDTH, sampleHeight).data;
+    const gray: number[] = [];
+    for (let i = 0; i < pixels.length; i += 4) {
+      gray.push(0.299 * pixels[i] + 0.587 * pixels[i + 1] + 0.114 * pixels[i + 2]);
+    }
+
+    // Centroid of the darkest pixels; the iris and pupil are darker than sclera and skin
+    const cutoff = [...gray].sort((a, b) => a - b)[Math.floor(gray.length * options.irisFraction)];
+    let sumX = 0;
+    let sumY = 0;
+    let count = 0;
+    gray.forEach((value, i) => {
+      if (value > cutoff) return;
+      sumX += i % SAMPLE_WIDTH;
+      sumY += Math.floor(i / SAMPLE_WIDTH);
+      count++;
+    });
+    if (count === 0) return null;
+
+    return {
+      x: (sumX / count) / (SAMPLE_WIDTH - 1) * 2 - 1,
+      y: (sumY / count) / (sampleHeight - 1) * 2 - 1
+    };
+  };
+
+  const estimate = (frame: AnalysisFrame, face: DetectedFace): EyeGaze | null => {
+    const eyes = EYES
+      .map(([from, to]) => locateIris(frame, face.landmarks.slice(from, to + 1)))
+      .filter((gaze): gaze is EyeGaze => gaze !== null);
+    if (eyes.length === 0) return null;
+
+    return {
+      x: eyes.reduce((sum, gaze) => sum + gaze.x, 0) / eyes.length,
+      y: eyes.reduce((sum, gaze) => sum + gaze.y, 0) / eyes.length
+    };
+  };
+
+  return { estimate };
+};
+
+export type EyeGazeEstimator = ReturnType<typeof createEyeGazeEstimator>;
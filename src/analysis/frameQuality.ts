@@ -0,0 +1,140 @@
+import { AnalysisFrame, DetectedFace } from '../models';
+import { estimateHeadPose } from './headPose';
+
+// Per-face image quality. Each check is scored 0-1 and the overall score is the weakest
+// check, since one failure (a dark or blurred face) is enough to make the reading unreliable.
+export interface FrameQuality {
+  score: number;
+  usable: boolean;
+  brightness: number;
+  contrast: number;
+  sharpness: number;
+  pose: number;
+  faceSize: number;
+  issues: string[];
+}
+
+export interface FrameQualityOptions {
+  // Minimum overall score for a face to be classified
+  threshold: number;
+  // Face height in pixels below which detail is lost, and at which it is fully adequate
+  minFacePx: number;
+  goodFacePx: number;
+}
+
+const DEFAULT_OPTIONS: FrameQualityOptions = {
+  threshold: 0.5,
+  minFacePx: 48,
+  goodFacePx: 112
+};
+
+export const DEFAULT_QUALITY_THRESHOLD = DEFAULT_OPTIONS.threshold;
+
+// Faces are resampled to this width so the cost and the blur measure do not depend on face size
+const SAMPLE_WIDTH = 96;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// 1 inside [low, high], falling linearly to 0 at [floor, ceiling]
+const band = (value: number, floor: number, low: number, high: number, ceiling: number) => {
+  if (value < low) return clamp01((value - floor) / (low - floor));
+  if (value > high) return clamp01((ceiling - value) / (ceiling - high));
+  return 1;
+};
+
+const luminance = (data: Uint8ClampedArray, width: number, height: number): Float32Array => {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return gray;
+};
+
+// Variance of the 4-neighbour Laplacian; low values mean few edges, i.e. motion or focus blur
+const laplacianVariance = (gray: Float32Array, width: number, height: number) => {
+  let sum = 0;
+  let sumSq = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += value;
+      sumSq += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSq / count - mean * mean;
+};
+
+// Frontal-pose score: full within about 15 degrees of yaw, 18 of pitch and 20 of roll, nothing
+// beyond 37, 36 and 40
+const poseScore = (face: DetectedFace) => {
+  const { yaw, pitch, roll } = estimateHeadPose(face.landmarks);
+  return Math.min(
+    band(yaw, -37, -15, 15, 37),
+    band(pitch, -36, -18, 18, 36),
+    band(roll, -40, -20, 20, 40)
+  );
+};
+
+export const createFrameQualityAssessor = (overrides: Partial<FrameQualityOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  // OffscreenCanvas so the check also runs inside the inference worker
+  let sampleCanvas: OffscreenCanvas | null = null;
+
+  const assess = (frame: AnalysisFrame, face: DetectedFace, threshold = options.threshold): FrameQuality | null => {
+    const x = Math.max(0, Math.floor(face.box.x));
+    const y = Math.max(0, Math.floor(face.box.y));
+    const width = Math.min(frame.width - x, Math.ceil(face.box.width));
+    const height = Math.min(frame.height - y, Math.ceil(face.box.height));
+    if (width < 2 || height < 2) return null;
+
+    if (!sampleCanvas) {
+      sampleCanvas = new OffscreenCanvas(SAMPLE_WIDTH, 2);
+    }
+    const sampleHeight = Math.max(2, Math.round(SAMPLE_WIDTH * height / width));
+    sampleCanvas.width = SAMPLE_WIDTH;
+    sampleCanvas.height = sampleHeight;
+    const ctx = sampleCanvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    ctx.drawImage(frame, x, y, width, height, 0, 0, SAMPLE_WIDTH, sampleHeight);
+    const gray = luminance(ctx.getImageData(0, 0, SAMPLE_WIDTH, sampleHeight).data, SAMPLE_WIDTH, sampleHeight);
+
+    const mean = gray.reduce((sum, value) => sum + value, 0) / gray.length;
+    const std = Math.sqrt(gray.reduce((sum, value) => sum + (value - mean) ** 2, 0) / gray.length);
+
+    const brightness = band(mean, 25, 70, 190, 240);
+    const contrast = clamp01((std - 10) / 30);
+    const sharpness = clamp01((laplacianVariance(gray, SAMPLE_WIDTH, sampleHeight) - 20) / 130);
+    const pose = poseScore(face);
+    const faceSize = clamp01((face.box.height - options.minFacePx) / (options.goodFacePx - options.minFacePx));
+
+    const checks: [string, number][] = [
+      [mean < 70 ? 'too dark' : 'too bright', brightness],
+      ['low contrast', contrast],
+      ['blurred', sharpness],
+      ['not facing camera', pose],
+      ['face too small', faceSize]
+    ];
+    const score = Math.min(...checks.map(([, value]) => value));
+
+    return {
+      score,
+      usable: score >= threshold,
+      brightness,
+      contrast,
+      sharpness,
+      pose,
+      faceSize,
+      issues: checks.filter(([, value]) => value < threshold).map(([issue]) => issue)
+    };
+  };
+
+  return { assess };
+};
+
+export type FrameQualityAssessor = ReturnType<typeof createFrameQualityAssessor>;
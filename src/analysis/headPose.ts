@@ -0,0 +1,37 @@
+import { FacePoint } from '../models';
+import { normalizeLandmarks } from './landmarks';
+
+// Degrees, as seen in the displayed frame: positive yaw turns toward the right of the image,
+// positive pitch tilts up, positive roll rotates clockwise
+export interface HeadPose {
+  yaw: number;
+  pitch: number;
+  roll: number;
+}
+
+// Nose tip height between the eye line and chin for a frontal face
+const NEUTRAL_PITCH_RATIO = 0.4;
+// Change in that ratio corresponding to roughly 45 degrees of pitch
+const PITCH_RATIO_RANGE = 0.25;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const toDegrees = (radians: number) => radians * 180 / Math.PI;
+
+// Weak-perspective estimate from 2D landmarks; good to a few degrees near frontal and
+// increasingly compressed beyond ~45 degrees, which is enough to tell where the head points
+export const estimateHeadPose = (landmarks: FacePoint[]): HeadPose => {
+  const normalized = normalizeLandmarks(landmarks);
+  const nose = normalized[30];
+  const chin = normalized[8];
+
+  const toImageLeft = Math.abs(nose.x - normalized[0].x);
+  const toImageRight = Math.abs(normalized[16].x - nose.x);
+  const yawRatio = (toImageLeft - toImageRight) / (toImageLeft + toImageRight || 1);
+  const pitchRatio = chin.y > 0 ? nose.y / chin.y : NEUTRAL_PITCH_RATIO;
+
+  return {
+    yaw: toDegrees(Math.asin(clamp(yawRatio, -1, 1))),
+    pitch: -clamp((pitchRatio - NEUTRAL_PITCH_RATIO) / PITCH_RATIO_RANGE, -1, 1) * 45,
+    roll: toDegrees(Math.atan2(landmarks[45].y - landmarks[36].y, landmarks[45].x - landmarks[36].x))
+  };
+};
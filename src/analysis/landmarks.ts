@@ -0,0 +1,48 @@
+import { FacePoint } from '../models';
+
+// Index ranges of the 68-point iBUG layout
+export const LANDMARK_REGIONS = {
+  jaw: [0, 16],
+  rightBrow: [17, 21],
+  leftBrow: [22, 26],
+  nose: [27, 35],
+  rightEye: [36, 41],
+  leftEye: [42, 47],
+  mouth: [48, 67]
+} as const;
+
+export type LandmarkRegion = keyof typeof LANDMARK_REGIONS;
+
+export const regionIndices = (region: LandmarkRegion): number[] => {
+  const [from, to] = LANDMARK_REGIONS[region];
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+};
+
+export const centroid = (points: FacePoint[]): FacePoint => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+});
+
+export const distance = (a: FacePoint, b: FacePoint) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const eyeCenters = (landmarks: FacePoint[]) => ({
+  right: centroid(regionIndices('rightEye').map(i => landmarks[i])),
+  left: centroid(regionIndices('leftEye').map(i => landmarks[i]))
+});
+
+// Similarity-normalise landmarks: origin at the eye midpoint, eye line horizontal,
+// unit inter-ocular distance. Removes head translation, in-plane rotation and scale.
+export const normalizeLandmarks = (landmarks: FacePoint[]): FacePoint[] => {
+  const { right, left } = eyeCenters(landmarks);
+  const origin = { x: (right.x + left.x) / 2, y: (right.y + left.y) / 2 };
+  const scale = distance(right, left) || 1;
+  const angle = Math.atan2(left.y - right.y, left.x - right.x);
+  const cos = Math.cos(-angle);
+  const sin = Math.sin(-angle);
+
+  return landmarks.map(p => {
+    const dx = (p.x - origin.x) / scale;
+    const dy = (p.y - origin.y) / scale;
+    return { x: dx * cos - dy * sin, y: dx * sin + dy * cos };
+  });
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { FacePoint } from '../models';
+import { createMicroExpressionDetector, MicroExpressionSegment } from './microExpressionDetector';
+import { regionIndices } from './landmarks';
+
+const FRAME_MS = 40;
+const EYE_DISTANCE = 40;
+const MOUTH = new Set(regionIndices('mouth'));
+
+// A 68-point face with the eyes 40 px apart; the mouth drops by `mouthDrop` inter-ocular units
+const face = (mouthDrop = 0): FacePoint[] => Array.from({ length: 68 }, (_, i) => {
+  if (i >= 36 && i <= 41) return { x: 80 + (i - 36) % 3, y: 100 + Math.floor((i - 36) / 3) };
+  if (i >= 42 && i <= 47) return { x: 120 + (i - 42) % 3, y: 100 + Math.floor((i - 42) / 3) };
+  const point = { x: 60 + (i % 8) * 10, y: 60 + Math.floor(i / 8) * 10 };
+  return MOUTH.has(i) ? { ...point, y: point.y + mouthDrop * EYE_DISTANCE } : point;
+});
+
+// Two seconds at rest so the baseline window is filled, then the given mouth movement
+const run = (movement: number[], detector = createMicroExpressionDetector()) => {
+  const frames = [...Array(51).fill(0), ...movement, ...Array(10).fill(0)];
+  return frames
+    .map((drop, i) => detector.push('S1', face(drop), i * FRAME_MS))
+    .filter((segment): segment is MicroExpressionSegment => segment !== null);
+};
+
+describe('createMicroExpressionDetector', () => {
+  it('segments a brief movement into onset, apex and offset', () => {
+    const segments = run([0.15, 0.3, 0.15]);
+
+    expect(segments).toHaveLength(1);
+    expect(segments[0]).toMatchObject({
+      subjectId: 'S1',
+      // The last frame at rest, the strongest frame and the first frame back at rest
+      onsetTime: 2000,
+      apexTime: 2080,
+      offsetTime: 2160,
+      durationMs: 160,
+      region: 'mouth'
+    });
+    expect(segments[0].peakIntensity).toBeGreaterThan(0.1);
+  });
+
+  it('ignores movements below the onset threshold', () => {
+    expect(run([0.05, 0.05, 0.05])).toEqual([]);
+  });
+
+  it('drops movements held longer than a micro-expression', () => {
+    // 0.6 s: a macro expression rather than a leak
+    expect(run(Array(15).fill(0.3))).toEqual([]);
+  });
+
+  it('keeps subjects apart and forgets released ones', () => {
+    const detector = createMicroExpressionDetector();
+    for (let i = 0; i < 51; i++) {
+      detector.push('S1', face(), i * FRAME_MS);
+      detector.push('S2', face(), i * FRAME_MS);
+    }
+    detector.retain(['S2']);
+
+    // S1 starts over without a baseline; S2 still has one
+    expect(detector.push('S1', face(0.3), 51 * FRAME_MS)).toBeNull();
+    detector.push('S2', face(0.3), 51 * FRAME_MS);
+    expect(detector.push('S1', face(), 52 * FRAME_MS)).toBeNull();
+    expect(detector.push('S2', face(), 52 * FRAME_MS)).toMatchObject({ subjectId: 'S2', onsetTime: 2000, offsetTime: 2080 });
+  });
+});
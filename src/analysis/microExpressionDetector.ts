@@ -0,0 +1,196 @@
+import { FacePoint } from '../models';
+import { createRingBuffer, RingBuffer } from './ringBuffer';
+import { LandmarkRegion, normalizeLandmarks, regionIndices } from './landmarks';
+
+export interface FrameFeatures {
+  time: number;
+  // Normalised landmark positions (see normalizeLandmarks)
+  points: FacePoint[];
+  // Mean landmark displacement from the rolling neutral baseline, in inter-ocular units
+  intensity: number;
+  regionIntensity: Record<ExpressiveRegion, number>;
+}
+
+export type ExpressiveRegion = 'brows' | 'eyes' | 'nose' | 'mouth';
+
+export interface MicroExpressionSegment {
+  subjectId: string;
+  onsetTime: number;
+  apexTime: number;
+  offsetTime: number;
+  durationMs: number;
+  peakIntensity: number;
+  region: ExpressiveRegion;
+}
+
+export interface MicroExpressionDetectorOptions {
+  bufferSize: number;
+  // Baseline window, relative to the current frame, that excludes the event being measured
+  baselineFromMs: number;
+  baselineToMs: number;
+  // Minimum thresholds; raised per subject to sit above their landmark jitter
+  onsetThreshold: number;
+  offsetThreshold: number;
+  onsetNoiseFactor: number;
+  offsetNoiseFactor: number;
+  // Micro-expressions last 1/25 - 1/5 s; allow some slack for detector jitter
+  minDurationMs: number;
+  maxDurationMs: number;
+}
+
+const DEFAULT_OPTIONS: MicroExpressionDetectorOptions = {
+  bufferSize: 120,
+  baselineFromMs: 1500,
+  baselineToMs: 400,
+  onsetThreshold: 0.045,
+  offsetThreshold: 0.03,
+  onsetNoiseFactor: 3,
+  offsetNoiseFactor: 1.5,
+  minDurationMs: 40,
+  maxDurationMs: 500
+};
+
+const REGION_POINTS: Record<ExpressiveRegion, number[]> = {
+  brows: [...regionIndices('rightBrow'), ...regionIndices('leftBrow')],
+  eyes: [...regionIndices('rightEye'), ...regionIndices('leftEye')],
+  nose: regionIndices('nose'),
+  mouth: regionIndices('mouth')
+};
+
+// Jaw contour follows head pose more than expression
+const EXPRESSIVE_POINTS = (['rightBrow', 'leftBrow', 'rightEye', 'leftEye', 'nose', 'mouth'] as LandmarkRegion[])
+  .flatMap(regionIndices);
+
+interface ActiveSegment {
+  onsetTime: number;
+  apexTime: number;
+  peakIntensity: number;
+  peakRegions: Record<ExpressiveRegion, number>;
+}
+
+interface SubjectState {
+  buffer: RingBuffer<FrameFeatures>;
+  active: ActiveSegment | null;
+  // Set when a segment outgrows maxDurationMs; wait for the face to settle before re-arming
+  suppressed: boolean;
+}
+
+const meanDisplacement = (points: FacePoint[], baseline: FacePoint[], indices: number[]) =>
+  indices.reduce((sum, i) => sum + Math.hypot(points[i].x - baseline[i].x, points[i].y - baseline[i].y), 0) / indices.length;
+
+export const createMicroExpressionDetector = (overrides: Partial<MicroExpressionDetectorOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const subjects = new Map<string, SubjectState>();
+
+  const baselineFor = (state: SubjectState, time: number) => {
+    const frames = state.buffer.toArray().filter(frame =>
+      time - frame.time <= options.baselineFromMs && time - frame.time >= options.baselineToMs
+    );
+    if (frames.length === 0) return null;
+
+    const points = frames[0].points.map((_, i) => ({
+      x: frames.reduce((sum, frame) => sum + frame.points[i].x, 0) / frames.length,
+      y: frames.reduce((sum, frame) => sum + frame.points[i].y, 0) / frames.length
+    }));
+
+    const noiseMean = frames.reduce((sum, frame) => sum + frame.intensity, 0) / frames.length;
+    const noiseStd = Math.sqrt(frames.reduce((sum, frame) => sum + Math.pow(frame.intensity - noiseMean, 2), 0) / frames.length);
+
+    return {
+      points,
+      onsetThreshold: Math.max(options.onsetThreshold, noiseMean + options.onsetNoiseFactor * noiseStd),
+      offsetThreshold: Math.max(options.offsetThreshold, noiseMean + options.offsetNoiseFactor * noiseStd)
+    };
+  };
+
+  // Feed one frame of landmarks for a subject; returns a segment when one has just closed
+  const push = (subjectId: string, landmarks: FacePoint[], time: number): MicroExpressionSegment | null => {
+    let state = subjects.get(subjectId);
+    if (!state) {
+      state = { buffer: createRingBuffer<FrameFeatures>(options.bufferSize), active: null, suppressed: false };
+      subjects.set(subjectId, state);
+    }
+
+    const points = normalizeLandmarks(landmarks);
+    const baseline = baselineFor(state, time);
+    const regionIntensity: Record<ExpressiveRegion, number> = { brows: 0, eyes: 0, nose: 0, mouth: 0 };
+    let intensity = 0;
+
+    if (baseline) {
+      intensity = meanDisplacement(points, baseline.points, EXPRESSIVE_POINTS);
+      (Object.keys(REGION_POINTS) as ExpressiveRegion[]).forEach(region => {
+        regionIntensity[region] = meanDisplacement(points, baseline.points, REGION_POINTS[region]);
+      });
+    }
+
+    const previous = state.buffer.last();
+    state.buffer.push({ time, points, intensity, regionIntensity });
+    if (!baseline) return null;
+
+    if (state.suppressed) {
+      if (intensity < baseline.offsetThreshold) state.suppressed = false;
+      return null;
+    }
+
+    if (!state.active) {
+      if (intensity >= baseline.onsetThreshold) {
+        state.active = {
+          // Onset is the last frame that was still at rest
+          onsetTime: previous ? previous.time : time,
+          apexTime: time,
+          peakIntensity: intensity,
+          peakRegions: regionIntensity
+        };
+      }
+      return null;
+    }
+
+    const active = state.active;
+    if (intensity > active.peakIntensity) {
+      active.apexTime = time;
+      active.peakIntensity = intensity;
+      active.peakRegions = regionIntensity;
+    }
+
+    if (time - active.onsetTime > options.maxDurationMs) {
+      // Too long for a micro-expression: a macro expression or a pose change
+      state.active = null;
+      state.suppressed = true;
+      return null;
+    }
+
+    if (intensity >= baseline.offsetThreshold) return null;
+
+    state.active = null;
+    const durationMs = time - active.onsetTime;
+    if (durationMs < options.minDurationMs) return null;
+
+    const [region] = (Object.entries(active.peakRegions) as [ExpressiveRegion, number][])
+      .sort(([, a], [, b]) => b - a)[0];
+
+    return {
+      subjectId,
+      onsetTime: active.onsetTime,
+      apexTime: active.apexTime,
+      offsetTime: time,
+      durationMs,
+      peakIntensity: active.peakIntensity,
+      region
+    };
+  };
+
+  // Drops the buffers of subjects the tracker no longer follows
+  const retain = (subjectIds: string[]) => {
+    Array.from(subjects.keys()).forEach(subjectId => {
+      if (!subjectIds.includes(subjectId)) subjects.delete(subjectId);
+    });
+  };
+
+  const reset = () => {
+    subjects.clear();
+  };
+
+  return { push, retain, reset };
+};
+
+export type MicroExpressionDetector = ReturnType<typeof createMicroExpressionDetector>;
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { FaceInput, FusionInputs, VoiceInput, createSessionClock, fuseModalities } from './multimodalFusion';
+
+const START = Date.parse('2026-03-02T10:00:00.000Z');
+const at = (seconds: number) => new Date(START + seconds * 1000).toISOString();
+
+const face = (time: number, arousal: number, status: FaceInput['status'] = 'classified'): FaceInput => ({
+  timestamp: at(time),
+  mediaTime: time,
+  status,
+  confidence: 1,
+  affect: status === 'classified' ? { valence: 0.2, arousal } : null,
+  quality: null
+});
+
+// Stress maps onto arousal as 2 * stress - 1
+const voice = (from: number, to: number, stressLevel: number, speaker = 'subject'): VoiceInput => ({
+  timestamp: at(to),
+  mediaTime: from,
+  windowStart: at(from),
+  windowEnd: at(to),
+  speaker,
+  stressLevel
+});
+
+const fuse = (inputs: Partial<FusionInputs>) => {
+  const all: FusionInputs = { face: [], voice: [], behavior: [], physio: [], ...inputs };
+  return fuseModalities(all, createSessionClock([...all.face, ...all.voice, ...all.behavior, ...all.physio]));
+};
+
+describe('fuseModalities', () => {
+  it('flags a window where the modalities disagree on arousal', () => {
+    const [agreeing] = fuse({ face: [face(0, 0.5), face(1, 0.5)], voice: [voice(0, 2, 0.75)] });
+    const [conflicting] = fuse({ face: [face(0, 0.9), face(1, 0.9)], voice: [voice(0, 2, 0)] });
+
+    expect(agreeing.conflict).toBe(false);
+    expect(agreeing.agreement.face.status).toBe('agree');
+    expect(agreeing.arousal).toBeCloseTo(0.5);
+
+    expect(conflicting.conflict).toBe(true);
+    expect(conflicting.agreement.face).toMatchObject({ status: 'conflict' });
+    expect(conflicting.agreement.face.divergence).toBeCloseTo(1.9);
+    expect(conflicting.agreement.voice.divergence).toBeCloseTo(-1.9);
+    expect(conflicting.agreement.physio.status).toBe('missing');
+  });
+
+  it('marks a lone modality as single', () => {
+    const [window] = fuse({ face: [face(0, 0.4)] });
+
+    expect(window.agreement.face).toEqual({ status: 'single', divergence: null });
+    expect(window.conflict).toBe(false);
+    expect(window.valence).toBeCloseTo(0.2);
+  });
+
+  it('leaves gaps in every stream out rather than filling them', () => {
+    // Face records hold for 1.5 s, so the one at 1.5 s reaches into the second window
+    const windows = fuse({ face: [face(0, 0.3), face(0.5, 0.3), face(1, 0.3), face(1.5, 0.3), face(10, 0.3)] });
+
+    expect(windows.map(window => window.start)).toEqual([0, 2, 10]);
+    expect(windows[1].modalities.face?.coverage).toBeCloseTo(0.5);
+  });
+
+  it('skips face gaps and speech not attributed to the subject', () => {
+    const windows = fuse({
+      face: [face(0, 0.5, 'no_face'), face(1, 0.5, 'low_quality')],
+      voice: [voice(0, 2, 0.9, 'unknown'), voice(0, 2, 0.9, 'interviewer')]
+    });
+
+    expect(windows).toEqual([]);
+  });
+
+  it('places live voice windows from their start on the wall clock', () => {
+    const live = <T extends FaceInput | VoiceInput>(record: T): T => ({ ...record, mediaTime: null });
+    const windows = fuse({ face: [live(face(0, 0.5))], voice: [live(voice(0, 2, 0.75))] });
+
+    expect(windows[0].start).toBe(0);
+    expect(windows[0].modalities.voice?.coverage).toBeCloseTo(1);
+    expect(windows.some(window => window.start === 2)).toBe(false);
+  });
+});
@@ -0,0 +1,251 @@
+// Resamples the face, voice, behaviour and pulse streams onto common time windows and combines
+// them into one affect estimate per window, with a per-modality agreement indicator
+
+export type FusionModality = 'face' | 'voice' | 'behavior' | 'physio';
+
+export const FUSION_MODALITIES: FusionModality[] = ['face', 'voice', 'behavior', 'physio'];
+
+// Structural subsets of the logged records, so callers can pass those as they are
+export interface TimedInput {
+  timestamp: string;
+  mediaTime: number | null;
+}
+
+export interface FaceInput extends TimedInput {
+  status: 'classified' | 'no_face' | 'low_quality';
+  confidence: number;
+  affect: { valence: number; arousal: number } | null;
+  quality: { usable: boolean; score: number } | null;
+}
+
+export interface VoiceInput extends TimedInput {
+  windowStart: string;
+  windowEnd: string;
+  speaker: string;
+  stressLevel: number;
+}
+
+export interface BehaviorInput extends TimedInput {
+  blinkRate: number | null;
+}
+
+export interface PhysioInput extends TimedInput {
+  heartRate: number | null;
+  signalQuality: number;
+}
+
+export interface FusionInputs {
+  face: FaceInput[];
+  voice: VoiceInput[];
+  behavior: BehaviorInput[];
+  physio: PhysioInput[];
+}
+
+export interface FusionOptions {
+  windowMs: number;
+  // How long a point-in-time record keeps describing the subject when no newer one arrives
+  holdMs: Record<FusionModality, number>;
+  // How far a record's time trails the behaviour it measures; estimates over a trailing
+  // window lag by about half of it
+  latencyMs: Record<FusionModality, number>;
+  // Prior trust in each modality as an arousal signal, multiplied by per-record confidence
+  reliability: Record<FusionModality, number>;
+  // Arousal distance from the other modalities beyond which a modality is in conflict
+  conflictThreshold: number;
+  restingBlinkRate: number;
+  // Blink-rate and heart-rate rises that count as full arousal
+  blinkRateRange: number;
+  heartRateRange: number;
+}
+
+const DEFAULT_OPTIONS: FusionOptions = {
+  windowMs: 2000,
+  holdMs: { face: 1500, voice: 0, behavior: 1500, physio: 3000 },
+  latencyMs: { face: 0, voice: 0, behavior: 0, physio: 5000 },
+  reliability: { face: 1, voice: 1, behavior: 0.5, physio: 0.8 },
+  conflictThreshold: 0.6,
+  restingBlinkRate: 17,
+  blinkRateRange: 20,
+  heartRateRange: 15
+};
+
+export interface ModalityReading {
+  // [-1, 1], as in the face model's pleasure-arousal-dominance estimate
+  arousal: number;
+  // Only the face carries valence
+  valence: number | null;
+  // Mean record confidence over the window, 0..1
+  weight: number;
+  // Share of the window covered by this modality's records, 0..1
+  coverage: number;
+  samples: number;
+}
+
+export interface ModalityAgreement {
+  status: 'agree' | 'conflict' | 'single' | 'missing';
+  // Arousal minus the weighted arousal of the other modalities present
+  divergence: number | null;
+}
+
+export interface FusedWindow {
+  // Seconds on the session clock
+  start: number;
+  end: number;
+  arousal: number;
+  valence: number | null;
+  // Grows with the number, coverage and confidence of the modalities present, 0..1
+  confidence: number;
+  modalities: Record<FusionModality, ModalityReading | null>;
+  agreement: Record<FusionModality, ModalityAgreement>;
+  conflict: boolean;
+}
+
+export type SessionClock = (record: TimedInput) => number | null;
+
+interface Sample {
+  start: number;
+  end: number;
+  arousal: number;
+  valence: number | null;
+  weight: number;
+}
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Media time when the session was recorded, otherwise seconds since its first record; mixing
+// the two would misplace records by however long the session ran before recording started
+export const createSessionClock = (records: TimedInput[]): SessionClock => {
+  const hasMediaTime = records.some(record => record.mediaTime !== null);
+  const origin = Math.min(...records.map(record => new Date(record.timestamp).getTime()));
+  return record => (hasMediaTime ? record.mediaTime : (new Date(record.timestamp).getTime() - origin) / 1000);
+};
+
+export const fuseModalities = (inputs: FusionInputs, clock: SessionClock, overrides: Partial<FusionOptions> = {}): FusedWindow[] => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const windowSec = options.windowMs / 1000;
+
+  // Point records hold until the next one of their modality, up to holdMs
+  const held = (modality: FusionModality, points: (Omit<Sample, 'start' | 'end'> & { time: number })[]): Sample[] => {
+    const latency = options.latencyMs[modality] / 1000;
+    const hold = options.holdMs[modality] / 1000;
+    const sorted = [...points].sort((a, b) => a.time - b.time);
+    return sorted.map(({ time, ...point }, i) => ({
+      ...point,
+      start: time - latency,
+      end: Math.min(sorted[i + 1]?.time ?? Infinity, time + hold) - latency
+    }));
+  };
+
+  const heartRates = inputs.physio.map(record => record.heartRate).filter((rate): rate is number => rate !== null);
+  const restingHeartRate = heartRates.length > 0 ? median(heartRates) : 0;
+
+  const samples: Record<FusionModality, Sample[]> = {
+    face: held('face', inputs.face.flatMap(record => {
+      const time = clock(record);
+      if (time === null || record.status !== 'classified' || !record.affect) return [];
+      return [{
+        time,
+        arousal: record.affect.arousal,
+        valence: record.affect.valence,
+        weight: record.confidence * (record.quality?.score ?? 1)
+      }];
+    })),
+    // Voice windows already span an interval; only speech attributed to the subject describes them
+    // Media time is stamped at the window start, so the wall-clock fallback has to start there too
+    voice: inputs.voice.flatMap(record => {
+      const time = clock({ ...record, timestamp: record.windowStart });
+      if (time === null || record.speaker !== 'subject') return [];
+      const duration = (new Date(record.windowEnd).getTime() - new Date(record.windowStart).getTime()) / 1000;
+      const latency = options.latencyMs.voice / 1000;
+      return [{ start: time - latency, end: time + duration - latency, arousal: 2 * record.stressLevel - 1, valence: null, weight: 1 }];
+    }),
+    behavior: held('behavior', inputs.behavior.flatMap(record => {
+      const time = clock(record);
+      if (time === null || record.blinkRate === null) return [];
+      return [{ time, arousal: clamp((record.blinkRate - options.restingBlinkRate) / options.blinkRateRange), valence: null, weight: 1 }];
+    })),
+    // Heart rate is relative to the subject's own session median
+    physio: held('physio', inputs.physio.flatMap(record => {
+      const time = clock(record);
+      if (time === null || record.heartRate === null) return [];
+      return [{ time, arousal: clamp((record.heartRate - restingHeartRate) / options.heartRateRange), valence: null, weight: record.signalQuality }];
+    }))
+  };
+
+  const all = FUSION_MODALITIES.flatMap(modality => samples[modality]).filter(sample => sample.end > sample.start);
+  if (all.length === 0) return [];
+  const first = Math.floor(Math.min(...all.map(sample => sample.start)) / windowSec);
+  const last = Math.ceil(Math.max(...all.map(sample => sample.end)) / windowSec);
+
+  const readingFor = (modality: FusionModality, start: number, end: number): ModalityReading | null => {
+    let covered = 0;
+    let weighted = 0;
+    let arousal = 0;
+    let valence = 0;
+    let count = 0;
+    samples[modality].forEach(sample => {
+      const overlap = Math.min(end, sample.end) - Math.max(start, sample.start);
+      if (overlap <= 0) return;
+      covered += overlap;
+      weighted += sample.weight * overlap;
+      arousal += sample.weight * overlap * sample.arousal;
+      if (sample.valence !== null) valence += sample.weight * overlap * sample.valence;
+      count++;
+    });
+    if (count === 0 || weighted <= 0) return null;
+    return {
+      arousal: arousal / weighted,
+      valence: modality === 'face' ? valence / weighted : null,
+      weight: weighted / covered,
+      coverage: Math.min(1, covered / (end - start)),
+      samples: count
+    };
+  };
+
+  const windows: FusedWindow[] = [];
+  for (let index = first; index < last; index++) {
+    const start = index * windowSec;
+    const end = start + windowSec;
+    const modalities = Object.fromEntries(
+      FUSION_MODALITIES.map(modality => [modality, readingFor(modality, start, end)])
+    ) as Record<FusionModality, ModalityReading | null>;
+    const present = FUSION_MODALITIES.filter(modality => modalities[modality] !== null);
+    // Gaps in every stream leave no window rather than a neutral one
+    if (present.length === 0) continue;
+
+    const trust = (modality: FusionModality) => {
+      const reading = modalities[modality] as ModalityReading;
+      return options.reliability[modality] * reading.weight * reading.coverage;
+    };
+    const weightedArousal = (of: FusionModality[]) => {
+      const total = of.reduce((sum, modality) => sum + trust(modality), 0);
+      return total > 0 ? of.reduce((sum, modality) => sum + trust(modality) * (modalities[modality] as ModalityReading).arousal, 0) / total : null;
+    };
+
+    const agreement = Object.fromEntries(FUSION_MODALITIES.map(modality => {
+      const reading = modalities[modality];
+      if (!reading) return [modality, { status: 'missing', divergence: null }];
+      const others = weightedArousal(present.filter(other => other !== modality));
+      if (others === null) return [modality, { status: 'single', divergence: null }];
+      const divergence = reading.arousal - others;
+      return [modality, { status: Math.abs(divergence) > options.conflictThreshold ? 'conflict' : 'agree', divergence }];
+    })) as Record<FusionModality, ModalityAgreement>;
+
+    windows.push({
+      start,
+      end,
+      arousal: weightedArousal(present) ?? 0,
+      valence: modalities.face?.valence ?? null,
+      confidence: Math.min(1, present.reduce((sum, modality) => sum + trust(modality), 0) / FUSION_MODALITIES.length),
+      modalities,
+      agreement,
+      conflict: present.some(modality => agreement[modality].status === 'conflict')
+    });
+  }
+  return windows;
+};
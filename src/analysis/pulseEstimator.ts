@@ -0,0 +1,239 @@
+import { SkinColor } from './skinColor';
+
+export interface HeartRateVariability {
+  // Milliseconds, from beat-to-beat intervals in the pulse waveform
+  rmssd: number;
+  sdnn: number;
+}
+
+export interface PulseEstimate {
+  subjectId: string;
+  // Beats per minute; null when the signal is too weak to trust
+  heartRate: number | null;
+  hrv: HeartRateVariability | null;
+  // Share of pulse-band power at the heart-rate peak and its harmonic, 0..1
+  signalQuality: number;
+  // Frames per second actually received for this subject
+  frameRate: number;
+  // Too few frames arrived to estimate at all, however clean the signal
+  lowFrameRate: boolean;
+}
+
+export interface PulseEstimatorOptions {
+  reportIntervalMs: number;
+  bufferMs: number;
+  heartRateWindowMs: number;
+  minHistoryMs: number;
+  // Frames further apart than this break the waveform, so history starts over
+  maxGapMs: number;
+  // Uniform rate the irregular frame times are resampled to
+  sampleRate: number;
+  minFrameRate: number;
+  minBpm: number;
+  maxBpm: number;
+  posWindowSec: number;
+  minQuality: number;
+  minHrvQuality: number;
+  minBeats: number;
+}
+
+const DEFAULT_OPTIONS: PulseEstimatorOptions = {
+  reportIntervalMs: 1000,
+  bufferMs: 30000,
+  heartRateWindowMs: 10000,
+  minHistoryMs: 6000,
+  maxGapMs: 500,
+  sampleRate: 20,
+  minFrameRate: 8,
+  minBpm: 42,
+  maxBpm: 240,
+  posWindowSec: 1.6,
+  minQuality: 0.3,
+  minHrvQuality: 0.5,
+  minBeats: 10
+};
+
+interface ColorSample extends SkinColor {
+  time: number;
+}
+
+interface SubjectState {
+  samples: ColorSample[];
+  lastReport: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+const std = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - m) ** 2)));
+};
+
+// Linear interpolation onto a uniform grid
+const resample = (samples: ColorSample[], rate: number): SkinColor[] => {
+  const start = samples[0].time;
+  const count = Math.floor((samples[samples.length - 1].time - start) / 1000 * rate) + 1;
+  const colors: SkinColor[] = [];
+  let j = 0;
+  for (let k = 0; k < count; k++) {
+    const time = start + k * 1000 / rate;
+    while (j < samples.length - 2 && samples[j + 1].time < time) j++;
+    const a = samples[j];
+    const b = samples[Math.min(j + 1, samples.length - 1)];
+    const f = b.time > a.time ? Math.min(1, Math.max(0, (time - a.time) / (b.time - a.time))) : 0;
+    colors.push({ r: a.r + (b.r - a.r) * f, g: a.g + (b.g - a.g) * f, b: a.b + (b.b - a.b) * f });
+  }
+  return colors;
+};
+
+// Plane-Orthogonal-to-Skin projection (Wang et al. 2017) with overlap-add over short windows;
+// cancels most illumination and specular changes that affect all channels alike
+const projectPulse = (colors: SkinColor[], windowLength: number): number[] => {
+  const pulse = new Array<number>(colors.length).fill(0);
+  for (let start = 0; start + windowLength <= colors.length; start++) {
+    const window = colors.slice(start, start + windowLength);
+    const mr = mean(window.map(c => c.r)) || 1;
+    const mg = mean(window.map(c => c.g)) || 1;
+    const mb = mean(window.map(c => c.b)) || 1;
+    const s1 = window.map(c => c.g / mg - c.b / mb);
+    const s2 = window.map(c => c.g / mg + c.b / mb - 2 * c.r / mr);
+    const alpha = std(s1) / (std(s2) || 1);
+    const segment = s1.map((value, i) => value + alpha * s2[i]);
+    const segmentMean = mean(segment);
+    segment.forEach((value, i) => {
+      pulse[start + i] += value - segmentMean;
+    });
+  }
+  return pulse;
+};
+
+// Second-order band-pass run forwards and backwards, so beat timing is not phase-shifted
+const bandPass = (signal: number[], rate: number, lowHz: number, highHz: number): number[] => {
+  const f0 = Math.sqrt(lowHz * highHz);
+  const w0 = 2 * Math.PI * f0 / rate;
+  const alpha = Math.sin(w0) / (2 * f0 / (highHz - lowHz));
+  const a0 = 1 + alpha;
+  const b0 = alpha / a0;
+  const b2 = -alpha / a0;
+  const a1 = -2 * Math.cos(w0) / a0;
+  const a2 = (1 - alpha) / a0;
+
+  const run = (x: number[]) => {
+    const y = new Array<number>(x.length).fill(0);
+    for (let i = 0; i < x.length; i++) {
+      y[i] = b0 * x[i] + b2 * (x[i - 2] ?? 0) - a1 * (y[i - 1] ?? 0) - a2 * (y[i - 2] ?? 0);
+    }
+    return y;
+  };
+  return run(run(signal).reverse()).reverse();
+};
+
+const powerAt = (signal: number[], rate: number, hz: number) => {
+  let re = 0;
+  let im = 0;
+  signal.forEach((value, i) => {
+    const phase = 2 * Math.PI * hz * i / rate;
+    re += value * Math.cos(phase);
+    im -= value * Math.sin(phase);
+  });
+  return re * re + im * im;
+};
+
+// Local maxima at least `minDistance` samples apart, refined to sub-sample positions
+const findBeats = (signal: number[], minDistance: number): number[] => {
+  const candidates: number[] = [];
+  for (let i = 1; i < signal.length - 1; i++) {
+    if (signal[i] > 0 && signal[i] > signal[i - 1] && signal[i] >= signal[i + 1]) candidates.push(i);
+  }
+  const accepted: number[] = [];
+  [...candidates].sort((a, b) => signal[b] - signal[a]).forEach(i => {
+    if (accepted.every(j => Math.abs(i - j) >= minDistance)) accepted.push(i);
+  });
+  return accepted.sort((a, b) => a - b).map(i => {
+    const denominator = signal[i - 1] - 2 * signal[i] + signal[i + 1];
+    return denominator !== 0 ? i + 0.5 * (signal[i - 1] - signal[i + 1]) / denominator : i;
+  });
+};
+
+export const createPulseEstimator = (overrides: Partial<PulseEstimatorOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const subjects = new Map<string, SubjectState>();
+  const lowHz = options.minBpm / 60;
+  const highHz = options.maxBpm / 60;
+
+  const estimateHrv = (pulse: number[], heartRate: number): HeartRateVariability | null => {
+    const rate = options.sampleRate;
+    const beats = findBeats(pulse, Math.max(1, Math.floor(rate * 0.6 * 60 / heartRate)));
+    const intervals = beats.slice(1).map((beat, i) => (beat - beats[i]) * 1000 / rate);
+    const median = [...intervals].sort((a, b) => a - b)[Math.floor(intervals.length / 2)];
+    // Missed or doubled beats show up as intervals far from the typical one
+    const clean = intervals.filter(interval => Math.abs(interval - median) <= 0.3 * median);
+    if (clean.length < options.minBeats) return null;
+
+    const successive = clean.slice(1).map((interval, i) => interval - clean[i]);
+    return {
+      rmssd: Math.sqrt(mean(successive.map(diff => diff * diff))),
+      sdnn: std(clean)
+    };
+  };
+
+  const estimate = (subjectId: string, samples: ColorSample[]): PulseEstimate => {
+    const rate = options.sampleRate;
+    const recent = samples.filter(sample => samples[samples.length - 1].time - sample.time <= options.heartRateWindowMs);
+    const frameRate = (recent.length - 1) * 1000 / (recent[recent.length - 1].time - recent[0].time || 1);
+    if (frameRate < options.minFrameRate) {
+      return { subjectId, heartRate: null, hrv: null, signalQuality: 0, frameRate, lowFrameRate: true };
+    }
+
+    const pulse = bandPass(projectPulse(resample(samples, rate), Math.round(options.posWindowSec * rate)), rate, lowHz, highHz);
+    const window = pulse.slice(-Math.round(options.heartRateWindowMs / 1000 * rate));
+
+    const spectrum: { hz: number; power: number }[] = [];
+    for (let hz = lowHz; hz <= highHz; hz += 0.01) {
+      spectrum.push({ hz, power: powerAt(window, rate, hz) });
+    }
+    const total = spectrum.reduce((sum, bin) => sum + bin.power, 0);
+    const peak = spectrum.reduce((best, bin) => (bin.power > best.power ? bin : best), spectrum[0]);
+    const near = (hz: number) => spectrum
+      .filter(bin => Math.abs(bin.hz - hz) <= 0.1)
+      .reduce((sum, bin) => sum + bin.power, 0);
+    const signalQuality = total > 0 ? Math.min(1, (near(peak.hz) + near(2 * peak.hz)) / total) : 0;
+
+    const heartRate = signalQuality >= options.minQuality ? peak.hz * 60 : null;
+    const hrv = heartRate !== null && signalQuality >= options.minHrvQuality ? estimateHrv(pulse, heartRate) : null;
+    return { subjectId, heartRate, hrv, signalQuality, frameRate, lowFrameRate: false };
+  };
+
+  // Feed one frame's skin colour for a subject; returns an estimate once per report interval
+  const push = (subjectId: string, color: SkinColor, time: number): PulseEstimate | null => {
+    let state = subjects.get(subjectId);
+    const last = state?.samples[state.samples.length - 1];
+    if (!state || (last && (time - last.time > options.maxGapMs || time <= last.time))) {
+      state = { samples: [], lastReport: time };
+      subjects.set(subjectId, state);
+    }
+
+    state.samples.push({ ...color, time });
+    while (time - state.samples[0].time > options.bufferMs) state.samples.shift();
+
+    if (time - state.samples[0].time < options.minHistoryMs || time - state.lastReport < options.reportIntervalMs) {
+      return null;
+    }
+    state.lastReport = time;
+    return estimate(subjectId, state.samples);
+  };
+
+  // Drops the history of subjects the tracker no longer follows
+  const retain = (subjectIds: string[]) => {
+    Array.from(subjects.keys()).forEach(subjectId => {
+      if (!subjectIds.includes(subjectId)) subjects.delete(subjectId);
+    });
+  };
+
+  const reset = () => {
+    subjects.clear();
+  };
+
+  return { push, retain, reset };
+};
+
+export type PulseEstimator = ReturnType<typeof createPulseEstimator>;
@@ -0,0 +1,35 @@
+// Fixed-capacity FIFO that overwrites its oldest entry, for per-frame feature history
+export const createRingBuffer = <T>(capacity: number) => {
+  const items: (T | undefined)[] = new Array(capacity);
+  let start = 0;
+  let size = 0;
+
+  const push = (item: T) => {
+    items[(start + size) % capacity] = item;
+    if (size < capacity) {
+      size++;
+    } else {
+      start = (start + 1) % capacity;
+    }
+  };
+
+  // Oldest first
+  const toArray = (): T[] => {
+    const result: T[] = [];
+    for (let i = 0; i < size; i++) {
+      result.push(items[(start + i) % capacity] as T);
+    }
+    return result;
+  };
+
+  const last = (): T | undefined => (size > 0 ? items[(start + size - 1) % capacity] : undefined);
+
+  const clear = () => {
+    start = 0;
+    size = 0;
+  };
+
+  return { push, toArray, last, clear, get size() { return size; } };
+};
+
+export type RingBuffer<T> = ReturnType<typeof createRingBuffer<T>>;
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RULE_SET, RiskAssessmentScope, RuleRecord, evaluateRiskRules, parseRuleSet } from './riskRules';
+
+const SCOPE: RiskAssessmentScope = { sessionId: 'session_1', subjectId: 'S1', clock: 'session' };
+
+const ruleSet = (rules: string) => parseRuleSet(`name: test\nversion: 3\nrules:\n${rules}`, 'test.yaml');
+
+const voice = (id: string, time: number, stressLevel: number): RuleRecord => ({ id, time, record: { stressLevel } });
+
+describe('parseRuleSet', () => {
+  it('loads the bundled default rules', () => {
+    expect(DEFAULT_RULE_SET.name).toBe('default-deception-risk');
+    expect(DEFAULT_RULE_SET.rules.length).toBeGreaterThan(0);
+  });
+
+  it('reads JSON by extension and fills in rule defaults', () => {
+    const parsed = parseRuleSet(JSON.stringify({
+      name: 'json',
+      version: 2,
+      rules: [{ id: 'stress', modality: 'voice', weight: 10, where: [{ field: 'stressLevel', op: '>', value: 0.5 }] }]
+    }), 'rules.json');
+
+    expect(parsed.version).toBe('2');
+    expect(parsed.cap).toBe(100);
+    expect(parsed.rules[0]).toMatchObject({
+      description: 'stress',
+      window: { seconds: null, records: null },
+      minMatches: 1,
+      minShare: 0,
+      perMatch: false,
+      cap: null
+    });
+  });
+
+  it('names the rule and condition that failed validation', () => {
+    expect(() => parseRuleSet('name: test\nrules: []', 'test.yaml')).toThrow(/needs a version/);
+    expect(() => ruleSet(`
+  - { id: a, modality: voice, weight: 1, where: [{ field: stressLevel, op: "=~", value: 1 }] }`
+    )).toThrow('Rule 1 (a), condition 1: unknown operator "=~"');
+    expect(() => ruleSet(`
+  - { id: a, modality: face, weight: 1, where: [{ field: emotion, op: in, value: happy }] }`
+    )).toThrow(/in needs a list value/);
+    expect(() => ruleSet(`
+  - { id: a, modality: voice, weight: 1, where: [] }
+  - { id: b, modality: gait, weight: 1, where: [] }`
+    )).toThrow(/Rule 2 \(b\): modality must be one of/);
+    expect(() => ruleSet(`
+  - { id: a, modality: voice, weight: 1, where: [] }
+  - { id: a, modality: voice, weight: 2, where: [] }`
+    )).toThrow('Rule id "a" is used more than once');
+    expect(() => ruleSet(`
+  - { id: a, modality: voice, weight: 1, window: { seconds: ten }, where: [] }`
+    )).toThrow('Rule 1 (a): window.seconds must be a number');
+  });
+
+  it('rejects emotion labels the face stream never carries', () => {
+    expect(() => ruleSet(`
+  - { id: a, modality: face, weight: 1, where: [{ field: emotion, op: in, value: [angry, furious] }] }`
+    )).toThrow(/unknown emotion "furious"/);
+    expect(() => ruleSet(`
+  - { id: a, modality: face, weight: 1, where: [{ field: emotion, op: "==", value: low_quality }] }`
+    )).toThrow(/unknown emotion "low_quality"/);
+  });
+});
+
+describe('evaluateRiskRules', () => {
+  it('looks back from the latest record of any modality', () => {
+    const rules = ruleSet(`
+  - { id: stress, modality: voice, weight: 20, window: { seconds: 10 }, where: [{ field: stressLevel, op: ">", value: 0.7 }] }`);
+    const records = [voice('v1', 0, 0.9), voice('v2', 15, 0.2)];
+
+    const recent = evaluateRiskRules(rules, { voice: records }, SCOPE);
+    // A later face record moves the window past both voice records
+    const later = evaluateRiskRules(rules, { voice: records, face: [{ id: 'f1', time: 30, record: {} }] }, SCOPE);
+    const early = evaluateRiskRules(rules, { voice: [voice('v1', 0, 0.9), voice('v2', 5, 0.2)] }, SCOPE);
+
+    expect(recent.trace[0]).toMatchObject({ fired: false, considered: 1, from: 15, to: 15 });
+    expect(later.trace[0]).toMatchObject({ fired: false, considered: 0, from: null, to: null });
+    expect(early.trace[0]).toMatchObject({ fired: true, contribution: 20, considered: 2, matchedIds: ['v1'], from: 0, to: 5 });
+  });
+
+  it('takes the newest records when the window counts records', () => {
+    const rules = ruleSet(`
+  - { id: stress, modality: voice, weight: 20, window: { records: 2 }, where: [{ field: stressLevel, op: ">", value: 0.7 }] }`);
+    const assessment = evaluateRiskRules(rules, {
+      voice: [voice('v3', 2, 0.1), voice('v1', 0, 0.9), voice('v2', 1, 0.9)]
+    }, SCOPE);
+
+    expect(assessment.trace[0]).toMatchObject({ fired: true, considered: 2, matchedIds: ['v2'] });
+  });
+
+  it('requires both the match count and the match share', () => {
+    const records = [voice('v1', 0, 0.9), voice('v2', 1, 0.9), voice('v3', 2, 0.1), voice('v4', 3, 0.1)];
+    const evaluate = (limits: string) => evaluateRiskRules(ruleSet(`
+  - { id: stress, modality: voice, weight: 20, ${limits}, where: [{ field: stressLevel, op: ">", value: 0.7 }] }`
+    ), { voice: records }, SCOPE).trace[0].fired;
+
+    expect(evaluate('minMatches: 2, minShare: 0.5')).toBe(true);
+    expect(evaluate('minMatches: 3, minShare: 0.5')).toBe(false);
+    expect(evaluate('minMatches: 2, minShare: 0.6')).toBe(false);
+  });
+
+  it('adds per-match weights up to the rule cap, and caps the total', () => {
+    const rules = ruleSet(`
+  - { id: per-match, modality: voice, weight: 15, perMatch: true, cap: 40, where: [{ field: stressLevel, op: ">", value: 0.7 }] }
+  - { id: once, modality: voice, weight: 15, where: [{ field: stressLevel, op: ">", value: 0.7 }] }`);
+    const records = [voice('v1', 0, 0.9), voice('v2', 1, 0.9), voice('v3', 2, 0.9)];
+
+    const assessment = evaluateRiskRules({ ...rules, cap: 50 }, { voice: records }, SCOPE);
+
+    expect(assessment.trace.map(rule => rule.contribution)).toEqual([40, 15]);
+    expect(assessment.uncappedScore).toBe(55);
+    expect(assessment.score).toBe(50);
+  });
+
+  it('records the rule set and scope it was made under', () => {
+    const rules = ruleSet(`
+  - { id: stress, modality: voice, weight: 20, where: [{ field: stressLevel, op: ">", value: 0.7 }] }`);
+
+    const first = evaluateRiskRules(rules, { voice: [voice('v1', 0, 0.9)] }, SCOPE);
+    const second = evaluateRiskRules(rules, { voice: [voice('v1', 0, 0.9)] }, SCOPE);
+
+    expect(first.ruleSet).toEqual({ name: 'test', version: '3' });
+    expect(first.scope).toEqual(SCOPE);
+    expect(first.id).not.toBe(second.id);
+  });
+
+  it('matches nested fields and list operators', () => {
+    const rules = ruleSet(`
+  - { id: conflict, modality: fusion, weight: 10, where: [{ field: agreement.voice.status, op: notIn, value: [agree, single] }] }`);
+    const window = (id: string, status: string): RuleRecord => ({ id, time: 0, record: { agreement: { voice: { status } } } });
+
+    const assessment = evaluateRiskRules(rules, { fusion: [window('w1', 'agree'), window('w2', 'conflict')] }, SCOPE);
+
+    expect(assessment.trace[0].matchedIds).toEqual(['w2']);
+  });
+});
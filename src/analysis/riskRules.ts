@@ -0,0 +1,271 @@
+import { parse as parseYaml } from 'yaml';
+import DEFAULT_RULES_SOURCE from './riskRules.default.yaml?raw';
+import { EMOTION_TAXONOMY } from '../models/emotionModel';
+
+// Declarative risk scoring: rule sets are loaded from JSON or YAML, and every assessment
+// records the rule-set version and which records made each rule fire
+
+export type RuleModality = 'face' | 'voice' | 'behavior' | 'physio' | 'fusion';
+
+export const RULE_MODALITIES: RuleModality[] = ['face', 'voice', 'behavior', 'physio', 'fusion'];
+
+export type RuleOperator = '==' | '!=' | '>' | '>=' | '<' | '<=' | 'in' | 'notIn';
+
+const OPERATORS: RuleOperator[] = ['==', '!=', '>', '>=', '<', '<=', 'in', 'notIn'];
+
+// Values a face record's emotion can take; a misspelt label would otherwise never match. Frames
+// without a face or below the quality threshold carry no emotion and never reach the rules
+const FACE_EMOTIONS: string[] = [...EMOTION_TAXONOMY];
+
+export interface RuleCondition {
+  // Dotted path into the record, e.g. "quality.score" or "agreement.voice.status"
+  field: string;
+  op: RuleOperator;
+  value: unknown;
+}
+
+export interface RiskRule {
+  id: string;
+  description: string;
+  modality: RuleModality;
+  // Seconds back from the latest record of any modality, then the newest `records` of those;
+  // either may be left out
+  window: { seconds: number | null; records: number | null };
+  // A record matches when every condition holds
+  where: RuleCondition[];
+  minMatches: number;
+  // Share of the windowed records that must match, 0..1
+  minShare: number;
+  weight: number;
+  // Adds the weight once per matching record instead of once per rule
+  perMatch: boolean;
+  // Most the rule can contribute
+  cap: number | null;
+}
+
+export interface RiskRuleSet {
+  name: string;
+  version: string;
+  // Upper bound of the total score
+  cap: number;
+  rules: RiskRule[];
+}
+
+export interface RuleRecord {
+  id: string;
+  // Seconds on the assessment's clock (see RiskAssessmentScope)
+  time: number;
+  record: object;
+}
+
+export type RuleRecords = Partial<Record<RuleModality, RuleRecord[]>>;
+
+export interface RuleTrace {
+  ruleId: string;
+  description: string;
+  modality: RuleModality;
+  fired: boolean;
+  contribution: number;
+  // Records inside the rule's window, and the ones among them that matched
+  considered: number;
+  matchedIds: string[];
+  from: number | null;
+  to: number | null;
+}
+
+// Which records an assessment was made over
+export interface RiskAssessmentScope {
+  // null when the records span every session, or every subject in the session
+  sessionId: string | null;
+  subjectId: string | null;
+  // Windows run on the session clock for one subject's session, on wall-clock seconds otherwise
+  clock: 'session' | 'wall';
+}
+
+export interface RiskAssessment {
+  id: string;
+  assessedAt: string;
+  scope: RiskAssessmentScope;
+  ruleSet: { name: string; version: string };
+  score: number;
+  // Sum of contributions before the rule set's cap
+  uncappedScore: number;
+  trace: RuleTrace[];
+}
+
+const STORAGE_KEY = 'emotion-detector.risk-rules';
+
+// Several assessments can be made within the same millisecond
+let assessmentCount = 0;
+
+const fieldValue = (record: object, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    record
+  );
+
+const holds = (record: object, { field, op, value }: RuleCondition) => {
+  const actual = fieldValue(record, field);
+  switch (op) {
+    case '==': return actual === value;
+    case '!=': return actual !== value;
+    case 'in': return (value as unknown[]).includes(actual);
+    case 'notIn': return !(value as unknown[]).includes(actual);
+    default: {
+      if (typeof actual !== 'number' || typeof value !== 'number') return false;
+      if (op === '>') return actual > value;
+      if (op === '>=') return actual >= value;
+      if (op === '<') return actual < value;
+      return actual <= value;
+    }
+  }
+};
+
+const optionalNumber = (value: unknown, label: string): number | null => {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${label} must be a number`);
+  return value;
+};
+
+const validateRule = (raw: unknown, index: number): RiskRule => {
+  if (raw === null || typeof raw !== 'object') throw new Error(`Rule ${index + 1} is not an object`);
+  const rule = raw as Record<string, unknown>;
+  const label = `Rule ${index + 1}${typeof rule.id === 'string' ? ` (${rule.id})` : ''}`;
+
+  if (typeof rule.id !== 'string' || !rule.id) throw new Error(`${label}: id is required`);
+  if (!RULE_MODALITIES.includes(rule.modality as RuleModality)) {
+    throw new Error(`${label}: modality must be one of ${RULE_MODALITIES.join(', ')}`);
+  }
+  if (typeof rule.weight !== 'number') throw new Error(`${label}: weight must be a number`);
+  if (!Array.isArray(rule.where)) throw new Error(`${label}: where must be a list of conditions`);
+
+  const where = rule.where.map((condition: Record<string, unknown>, i: number): RuleCondition => {
+    if (typeof condition?.field !== 'string') throw new Error(`${label}, condition ${i + 1}: field is required`);
+    if (!OPERATORS.includes(condition.op as RuleOperator)) {
+      throw new Error(`${label}, condition ${i + 1}: unknown operator "${String(condition.op)}"`);
+    }
+    if ((condition.op === 'in' || condition.op === 'notIn') && !Array.isArray(condition.value)) {
+      throw new Error(`${label}, condition ${i + 1}: ${condition.op} needs a list value`);
+    }
+    if (rule.modality === 'face' && condition.field === 'emotion' && ['==', '!=', 'in', 'notIn'].includes(condition.op as string)) {
+      const values: unknown[] = Array.isArray(condition.value) ? condition.value : [condition.value];
+      const unknown = values.filter(value => !FACE_EMOTIONS.includes(value as string));
+      if (unknown.length > 0) {
+        throw new Error(`${label}, condition ${i + 1}: unknown emotion ${unknown.map(value => `"${String(value)}"`).join(', ')}; use one of ${FACE_EMOTIONS.join(', ')}`);
+      }
+    }
+    return { field: condition.field, op: condition.op as RuleOperator, value: condition.value };
+  });
+
+  const window = (rule.window ?? {}) as Record<string, unknown>;
+  return {
+    id: rule.id,
+    description: typeof rule.description === 'string' ? rule.description : rule.id,
+    modality: rule.modality as RuleModality,
+    window: {
+      seconds: optionalNumber(window.seconds, `${label}: window.seconds`),
+      records: optionalNumber(window.records, `${label}: window.records`)
+    },
+    where,
+    minMatches: optionalNumber(rule.minMatches, `${label}: minMatches`) ?? 1,
+    minShare: optionalNumber(rule.minShare, `${label}: minShare`) ?? 0,
+    weight: rule.weight,
+    perMatch: rule.perMatch === true,
+    cap: optionalNumber(rule.cap, `${label}: cap`)
+  };
+};
+
+// JSON by extension, YAML otherwise; throws with the offending rule named
+export const parseRuleSet = (source: string, fileName: string): RiskRuleSet => {
+  const raw: unknown = /\.json$/i.test(fileName) ? JSON.parse(source) : parseYaml(source);
+  if (raw === null || typeof raw !== 'object') throw new Error('Rule set must be an object');
+  const ruleSet = raw as Record<string, unknown>;
+
+  if (typeof ruleSet.name !== 'string' || !ruleSet.name) throw new Error('Rule set needs a name');
+  if (typeof ruleSet.version !== 'string' && typeof ruleSet.version !== 'number') {
+    throw new Error('Rule set needs a version, so assessments can be traced back to it');
+  }
+  if (!Array.isArray(ruleSet.rules) || ruleSet.rules.length === 0) throw new Error('Rule set has no rules');
+
+  const rules = ruleSet.rules.map(validateRule);
+  const duplicate = rules.find((rule, i) => rules.findIndex(other => other.id === rule.id) !== i);
+  if (duplicate) throw new Error(`Rule id "${duplicate.id}" is used more than once`);
+
+  return {
+    name: ruleSet.name,
+    version: String(ruleSet.version),
+    cap: optionalNumber(ruleSet.cap, 'cap') ?? 100,
+    rules
+  };
+};
+
+export const DEFAULT_RULE_SET = parseRuleSet(DEFAULT_RULES_SOURCE, 'riskRules.default.yaml');
+
+// The last imported rule set is remembered per machine, as its source so it is re-validated on load
+export const loadRuleSet = (): RiskRuleSet => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_RULE_SET;
+    const { source, fileName } = JSON.parse(stored);
+    return parseRuleSet(source, fileName);
+  } catch {
+    return DEFAULT_RULE_SET;
+  }
+};
+
+export const saveRuleSetSource = (source: string, fileName: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ source, fileName }));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the rule set still applies this session
+  }
+};
+
+export const clearSavedRuleSet = () => {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored
+  }
+};
+
+export const evaluateRiskRules = (ruleSet: RiskRuleSet, records: RuleRecords, scope: RiskAssessmentScope): RiskAssessment => {
+  const latest = Math.max(...RULE_MODALITIES.flatMap(modality => (records[modality] ?? []).map(item => item.time)));
+
+  const trace = ruleSet.rules.map((rule): RuleTrace => {
+    const { seconds, records: count } = rule.window;
+    const inSpan = (records[rule.modality] ?? [])
+      .filter(item => seconds === null || item.time >= latest - seconds)
+      .sort((a, b) => a.time - b.time);
+    const windowed = count !== null ? inSpan.slice(-count) : inSpan;
+    const matched = windowed.filter(item => rule.where.every(condition => holds(item.record, condition)));
+
+    const fired = matched.length > 0 &&
+      matched.length >= rule.minMatches &&
+      matched.length / windowed.length >= rule.minShare;
+    const points = rule.perMatch ? rule.weight * matched.length : rule.weight;
+
+    return {
+      ruleId: rule.id,
+      description: rule.description,
+      modality: rule.modality,
+      fired,
+      contribution: fired ? (rule.cap !== null ? Math.min(points, rule.cap) : points) : 0,
+      considered: windowed.length,
+      matchedIds: matched.map(item => item.id),
+      from: windowed[0]?.time ?? null,
+      to: windowed[windowed.length - 1]?.time ?? null
+    };
+  });
+
+  const uncappedScore = trace.reduce((sum, rule) => sum + rule.contribution, 0);
+  return {
+    id: `assessment_${Date.now()}_${++assessmentCount}`,
+    assessedAt: new Date().toISOString(),
+    scope,
+    ruleSet: { name: ruleSet.name, version: ruleSet.version },
+    score: Math.max(0, Math.min(ruleSet.cap, uncappedScore)),
+    uncappedScore,
+    trace
+  };
+};
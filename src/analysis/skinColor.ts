@@ -0,0 +1,47 @@
+import { DetectedFace, FacePoint } from '../models';
+import { centroid } from './landmarks';
+
+export interface SkinColor {
+  r: number;
+  g: number;
+  b: number;
+}
+
+type PixelContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+
+// Cheeks and forehead carry the strongest pulse signal and move least with expression
+const CHEEK_POINTS = [[2, 31, 41, 48], [14, 35, 46, 54]];
+
+// Mean colour over the skin patches of a face, for remote photoplethysmography
+export const sampleSkinColor = (ctx: PixelContext, face: DetectedFace): SkinColor | null => {
+  const { landmarks, box } = face;
+  const size = box.width * 0.15;
+  const brows = centroid([landmarks[19], landmarks[24]]);
+
+  const patches: { center: FacePoint; width: number; height: number }[] = [
+    ...CHEEK_POINTS.map(points => ({ center: centroid(points.map(i => landmarks[i])), width: size, height: size })),
+    { center: { x: brows.x, y: brows.y - box.height * 0.12 }, width: box.width * 0.25, height: box.height * 0.1 }
+  ];
+
+  let r = 0;
+  let g = 0;
+  let b = 0;
+  let count = 0;
+  patches.forEach(({ center, width, height }) => {
+    const x = Math.max(0, Math.round(center.x - width / 2));
+    const y = Math.max(0, Math.round(center.y - height / 2));
+    const w = Math.min(ctx.canvas.width - x, Math.round(width));
+    const h = Math.min(ctx.canvas.height - y, Math.round(height));
+    if (w < 2 || h < 2) return;
+
+    const pixels = ctx.getImageData(x, y, w, h).data;
+    for (let i = 0; i < pixels.length; i += 4) {
+      r += pixels[i];
+      g += pixels[i + 1];
+      b += pixels[i + 2];
+      count++;
+    }
+  });
+
+  return count > 0 ? { r: r / count, g: g / count, b: b / count } : null;
+};
@@ -0,0 +1,51 @@
+// Helpers for laying detection records out along a media timeline (seconds)
+
+export interface TimedRecord {
+  id: string;
+  time: number;
+}
+
+export interface EmotionSegment {
+  id: string;
+  start: number;
+  end: number;
+  emotion: string;
+}
+
+const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+};
+
+// Each record holds until the next one, but not across a gap much longer than the usual
+// sampling interval, so pauses in detection show up as empty timeline
+export const buildEmotionSegments = (records: (TimedRecord & { emotion: string })[]): EmotionSegment[] => {
+  const sorted = [...records].sort((a, b) => a.time - b.time);
+  const gaps = sorted.slice(1).map((record, i) => record.time - sorted[i].time);
+  const maxSpan = Math.max(1, 2 * median(gaps));
+
+  return sorted.map((record, i) => ({
+    id: record.id,
+    start: record.time,
+    end: Math.min(sorted[i + 1]?.time ?? Infinity, record.time + maxSpan),
+    emotion: record.emotion
+  }));
+};
+
+// m:ss.s; rounded before splitting, so 59.96 s reads 1:00.0 rather than 0:60.0
+export const formatMediaTime = (seconds: number) => {
+  const tenths = Math.round(seconds * 10);
+  return `${Math.floor(tenths / 600)}:${((tenths % 600) / 10).toFixed(1).padStart(4, '0')}`;
+};
+
+// Latest record at or before `time`, ignoring ones older than `maxAge` seconds
+export const findActiveRecord = <T extends TimedRecord>(records: T[], time: number, maxAge = 2): T | null => {
+  let active: T | null = null;
+  for (const record of records) {
+    if (record.time <= time && time - record.time <= maxAge && (!active || record.time > active.time)) {
+      active = record;
+    }
+  }
+  return active;
+};
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { overlapsInterval, parseTimestamp, parseTranscript } from './transcript';
+
+describe('parseTimestamp', () => {
+  it('reads hours, minutes, seconds and either decimal separator', () => {
+    expect(parseTimestamp('01:02:03.500')).toBeCloseTo(3723.5);
+    expect(parseTimestamp('00:00:01,250')).toBeCloseTo(1.25);
+    expect(parseTimestamp('2:05')).toBe(125);
+    expect(parseTimestamp('later')).toBeNull();
+  });
+});
+
+describe('parseTranscript', () => {
+  it('times WebVTT cues, voice tags and inline word timestamps', () => {
+    const { format, cues } = parseTranscript([
+      'WEBVTT',
+      '',
+      'NOTE recorded in room 2',
+      '',
+      '00:00:04.500 --> 00:00:06.000',
+      '<00:00:04.500>At <00:00:05.000>home',
+      '',
+      '00:00:01.000 --> 00:00:03.000 align:start',
+      '<v Interviewer>Where were you</v>'
+    ].join('\n'), 'interview.vtt');
+
+    expect(format).toBe('vtt');
+    expect(cues.map(cue => [cue.start, cue.end])).toEqual([[1, 3], [4.5, 6]]);
+
+    const [question, answer] = cues;
+    expect(question.speaker).toBe('Interviewer');
+    expect(question.text).toBe('Where were you');
+    // Untimed words share the cue by length, each with one extra character for the gap
+    expect(question.words[0]).toMatchObject({ text: 'Where', start: 1 });
+    expect(question.words[0].end).toBeCloseTo(1.8);
+    expect(question.words[2].end).toBeCloseTo(3);
+
+    expect(answer.speaker).toBeNull();
+    expect(answer.words).toEqual([
+      { text: 'At', start: 4.5, end: 5 },
+      { text: 'home', start: 5, end: 6 }
+    ]);
+  });
+
+  it('reads SRT blocks with speaker prefixes', () => {
+    const { format, cues } = parseTranscript([
+      '1',
+      '00:00:01,250 --> 00:00:02,750',
+      'Subject: I was at home.',
+      '',
+      '2',
+      '00:00:03,000 --> 00:00:04,000',
+      'All evening.'
+    ].join('\r\n'), 'interview.srt');
+
+    expect(format).toBe('srt');
+    expect(cues).toHaveLength(2);
+    expect(cues[0]).toMatchObject({ start: 1.25, end: 2.75, speaker: 'Subject', text: 'I was at home.' });
+    expect(cues[1]).toMatchObject({ start: 3, end: 4, speaker: null, text: 'All evening.' });
+  });
+
+  it('spreads untimed plain-text lines between the timestamps around them', () => {
+    const { format, cues } = parseTranscript([
+      '[00:10] Interviewer: Hello there',
+      'Second line here',
+      '[00:20] Third'
+    ].join('\n'), 'notes.txt');
+
+    expect(format).toBe('text');
+    expect(cues[0]).toMatchObject({ start: 10, speaker: 'Interviewer', text: 'Hello there' });
+    // 2 and 3 words at 2.5 words/s need 2 s, stretched five-fold to fill the 10 s gap
+    expect(cues[0].end).toBeCloseTo(14);
+    expect(cues[1].start).toBeCloseTo(14);
+    expect(cues[1].end).toBeCloseTo(20);
+    expect(cues[2].start).toBe(20);
+    expect(cues[2].end).toBeCloseTo(20.4);
+  });
+
+  it('paces plain text without timestamps at a conversational rate', () => {
+    const { cues } = parseTranscript('one two\nthree', 'notes.txt');
+
+    expect(cues.map(cue => cue.start)).toEqual([0, 0.8]);
+    expect(cues[1].end).toBeCloseTo(1.2);
+  });
+});
+
+describe('overlapsInterval', () => {
+  it('counts point records inside the interval and spans that overlap it', () => {
+    expect(overlapsInterval({ start: 2, end: 2 }, 2, 3)).toBe(true);
+    expect(overlapsInterval({ start: 3, end: 3 }, 2, 3)).toBe(false);
+    expect(overlapsInterval({ start: 1, end: 2.5 }, 2, 3)).toBe(true);
+    expect(overlapsInterval({ start: 1, end: 2 }, 2, 3)).toBe(false);
+  });
+});
@@ -0,0 +1,185 @@
+// Transcript import (WebVTT, SRT, plain text) and alignment of its cues to session records (seconds)
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'text';
+
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TranscriptCue {
+  id: string;
+  start: number;
+  end: number;
+  speaker: string | null;
+  text: string;
+  // Timed by inline VTT timestamps where present, otherwise spread over the cue by length
+  words: TranscriptWord[];
+}
+
+export interface SessionTranscript {
+  id: string;
+  sessionId: string;
+  fileName: string;
+  format: TranscriptFormat;
+  importedAt: string;
+  cues: TranscriptCue[];
+}
+
+export interface TimedInterval {
+  start: number;
+  end: number;
+}
+
+// Typical conversational pace, used to time plain-text lines that carry no timestamp
+const WORDS_PER_SECOND = 2.5;
+
+const TIMESTAMP = /^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/;
+const SPEAKER_PREFIX = /^([A-Z][\w .'-]{0,30}):\s+(.+)$/;
+const VOICE_TAG = /<v(?:\.[^\s>]*)?\s+([^>]+)>/;
+
+export const parseTimestamp = (value: string): number | null => {
+  const match = TIMESTAMP.exec(value.trim());
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(`0.${fraction ?? 0}`);
+};
+
+const decodeEntities = (text: string) => text
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&nbsp;/g, ' ')
+  .replace(/&amp;/g, '&');
+
+const splitWords = (text: string) => text.split(/\s+/).filter(Boolean);
+
+// Longer words take longer to say; the +1 stands in for the gap after each word
+const spreadWords = (words: string[], start: number, end: number): TranscriptWord[] => {
+  const total = words.reduce((sum, word) => sum + word.length + 1, 0);
+  let position = start;
+  return words.map(word => {
+    const duration = total > 0 ? (end - start) * (word.length + 1) / total : 0;
+    const timed = { text: word, start: position, end: position + duration };
+    position += duration;
+    return timed;
+  });
+};
+
+const splitSpeaker = (text: string): { speaker: string | null; text: string } => {
+  const match = SPEAKER_PREFIX.exec(text);
+  return match ? { speaker: match[1].trim(), text: match[2] } : { speaker: null, text };
+};
+
+// VTT karaoke-style <hh:mm:ss.mmm> tags time the words that follow them
+const vttWords = (payload: string, start: number, end: number): TranscriptWord[] => {
+  const parts = payload.split(/<(\d[\d:.]*)>/);
+  const runs: { start: number; words: string[] }[] = [];
+  parts.forEach((part, i) => {
+    if (i % 2 === 1) {
+      runs.push({ start: parseTimestamp(part) ?? start, words: [] });
+      return;
+    }
+    const words = splitWords(decodeEntities(part.replace(/<[^>]+>/g, '')));
+    if (runs.length === 0) runs.push({ start, words });
+    else runs[runs.length - 1].words.push(...words);
+  });
+  return runs.flatMap((run, i) => spreadWords(run.words, run.start, runs[i + 1]?.start ?? end));
+};
+
+const parseCueBlocks = (content: string, format: 'vtt' | 'srt'): TranscriptCue[] => {
+  const cues: TranscriptCue[] = [];
+  content.split(/\n\s*\n/).forEach(block => {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => line.includes('-->'));
+    if (timingIndex < 0 || /^(NOTE|STYLE|REGION)\b/.test(lines[0])) return;
+
+    const [from, rest] = lines[timingIndex].split('-->');
+    const start = parseTimestamp(from);
+    const end = parseTimestamp(rest.trim().split(/\s+/)[0]);
+    if (start === null || end === null) return;
+
+    const payload = lines.slice(timingIndex + 1).join(' ');
+    const voice = format === 'vtt' ? VOICE_TAG.exec(payload) : null;
+    const plain = decodeEntities(payload.replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+    if (!plain) return;
+    const { speaker, text } = voice ? { speaker: voice[1].trim(), text: plain } : splitSpeaker(plain);
+
+    cues.push({
+      id: `cue_${cues.length}`,
+      start,
+      end: Math.max(start, end),
+      speaker,
+      text,
+      words: format === 'vtt' && /<\d/.test(payload) ? vttWords(payload, start, end) : spreadWords(splitWords(text), start, end)
+    });
+  });
+  return cues;
+};
+
+// One cue per line, optionally prefixed with [hh:mm:ss] and/or "Speaker:"; lines between
+// timestamps share the gap in proportion to their word counts
+const parsePlainText = (content: string): TranscriptCue[] => {
+  const lines = content.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+    const match = /^\[?((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\]?\s+(.*)$/.exec(line);
+    const time = match ? parseTimestamp(match[1]) : null;
+    return { time, ...splitSpeaker(match && time !== null ? match[2] : line) };
+  });
+  const estimates = lines.map(line => Math.max(1, splitWords(line.text).length) / WORDS_PER_SECOND);
+
+  const starts: number[] = [];
+  let anchorIndex = -1;
+  let i = 0;
+  while (i < lines.length) {
+    const time = lines[i].time;
+    if (time !== null) {
+      starts[i] = time;
+      anchorIndex = i;
+      i++;
+      continue;
+    }
+
+    // The untimed run follows the last timed line and must finish by the next one
+    let next = i;
+    while (next < lines.length && lines[next].time === null) next++;
+    const anchor = anchorIndex >= 0 ? starts[anchorIndex] : 0;
+    const leading = anchorIndex >= 0 ? estimates[anchorIndex] : 0;
+    const natural = leading + estimates.slice(i, next).reduce((sum, value) => sum + value, 0);
+    const available = next < lines.length ? (lines[next].time as number) - anchor : natural;
+    const scale = available > 0 ? available / natural : 1;
+    let position = anchor + leading * scale;
+    for (let k = i; k < next; k++) {
+      starts[k] = position;
+      position += estimates[k] * scale;
+    }
+    i = next;
+  }
+
+  return lines.map((line, i) => {
+    const start = starts[i];
+    const end = Math.max(start, starts[i + 1] ?? start + estimates[i]);
+    return {
+      id: `cue_${i}`,
+      start,
+      end,
+      speaker: line.speaker,
+      text: line.text,
+      words: spreadWords(splitWords(line.text), start, end)
+    };
+  });
+};
+
+export const parseTranscript = (content: string, fileName: string): { format: TranscriptFormat; cues: TranscriptCue[] } => {
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const format: TranscriptFormat = /^WEBVTT/.test(normalized) || /\.vtt$/i.test(fileName)
+    ? 'vtt'
+    : /\.srt$/i.test(fileName) || /-->/.test(normalized) ? 'srt' : 'text';
+  const cues = format === 'text' ? parsePlainText(normalized) : parseCueBlocks(normalized, format);
+  return { format, cues: cues.sort((a, b) => a.start - b.start) };
+};
+
+// Point records (start === end) count when they fall inside the interval
+export const overlapsInterval = (record: TimedInterval, start: number, end: number) =>
+  record.end > record.start
+    ? record.start < end && record.end > start
+    : record.start >= start && record.start < end;
@@ -0,0 +1,207 @@
+import { binFrequency, melBandEnergies } from './spectrum';
+
+// Standard low-level descriptors for one analysis frame, for researchers' own models
+export interface AcousticFrame {
+  mfcc: number[];
+  spectralFlux: number;
+  // Sum of compressed mel-band power (Stevens' power law), arbitrary but stable units
+  loudness: number;
+  // dB; null for unvoiced frames
+  hnr: number | null;
+  // F1–F3 in Hz from the LPC envelope; null where fewer peaks were found
+  formants: (number | null)[];
+}
+
+// Means over a speaker's frames in one window; HNR and formants over voiced frames only
+export interface AcousticSummary {
+  mfcc: number[];
+  spectralFlux: number;
+  loudness: number;
+  hnr: number | null;
+  formants: (number | null)[];
+  frames: number;
+}
+
+export interface AcousticOptions {
+  mfccCount: number;
+  melBands: number;
+  maxMelHz: number;
+  // Formant analysis runs on a copy decimated to roughly this rate
+  formantRate: number;
+  lpcOrder: number;
+  formantCount: number;
+}
+
+const DEFAULT_OPTIONS: AcousticOptions = {
+  mfccCount: 13,
+  melBands: 26,
+  maxMelHz: 8000,
+  formantRate: 11025,
+  lpcOrder: 12,
+  formantCount: 3
+};
+
+// Distance between consecutive L1-normalised magnitude spectra
+export const createSpectralFluxTracker = () => {
+  let previous: Float32Array | null = null;
+
+  const push = (power: Float32Array): number => {
+    const magnitude = new Float32Array(power.length);
+    let total = 0;
+    for (let i = 0; i < power.length; i++) {
+      magnitude[i] = Math.sqrt(power[i]);
+      total += magnitude[i];
+    }
+    for (let i = 0; i < magnitude.length; i++) magnitude[i] /= total || 1;
+
+    let flux = 0;
+    if (previous && previous.length === magnitude.length) {
+      for (let i = 0; i < magnitude.length; i++) flux += (magnitude[i] - previous[i]) ** 2;
+    }
+    previous = magnitude;
+    return flux;
+  };
+
+  const reset = () => {
+    previous = null;
+  };
+
+  return { push, reset };
+};
+
+export type SpectralFluxTracker = ReturnType<typeof createSpectralFluxTracker>;
+
+// DCT-II of the log mel energies
+const cepstrum = (logEnergies: number[], count: number) => Array.from({ length: count }, (_, k) =>
+  logEnergies.reduce((sum, value, n) => sum + value * Math.cos(Math.PI * k * (n + 0.5) / logEnergies.length), 0)
+);
+
+// Normalised autocorrelation at the pitch period, searched ±5% around it (Boersma 1993)
+const harmonicsToNoise = (samples: Float32Array, sampleRate: number, f0: number): number => {
+  const period = sampleRate / f0;
+  let best = 0;
+  for (let lag = Math.floor(period * 0.95); lag <= Math.ceil(period * 1.05) && lag < samples.length / 2; lag++) {
+    let cross = 0;
+    let left = 0;
+    let right = 0;
+    for (let i = 0; i + lag < samples.length; i++) {
+      cross += samples[i] * samples[i + lag];
+      left += samples[i] * samples[i];
+      right += samples[i + lag] * samples[i + lag];
+    }
+    if (left > 0 && right > 0) best = Math.max(best, cross / Math.sqrt(left * right));
+  }
+  const r = Math.min(Math.max(best, 1e-4), 0.9999);
+  return 10 * Math.log10(r / (1 - r));
+};
+
+// Prediction coefficients a[1..order] (a[0] = 1) by Levinson–Durbin recursion
+const lpc = (samples: Float64Array, order: number): number[] | null => {
+  const r = Array.from({ length: order + 1 }, (_, lag) => {
+    let sum = 0;
+    for (let i = 0; i + lag < samples.length; i++) sum += samples[i] * samples[i + lag];
+    return sum;
+  });
+  if (r[0] <= 0) return null;
+
+  let a = [1];
+  let error = r[0];
+  for (let i = 1; i <= order; i++) {
+    let acc = r[i];
+    for (let j = 1; j < i; j++) acc += a[j] * r[i - j];
+    const k = -acc / error;
+    const next = [...a, 0];
+    for (let j = 1; j < i; j++) next[j] = a[j] + k * a[i - j];
+    next[i] = k;
+    a = next;
+    error *= 1 - k * k;
+    if (error <= 0) return null;
+  }
+  return a;
+};
+
+// Peaks of the LPC spectral envelope of a decimated, pre-emphasised copy of the frame
+const estimateFormants = (samples: Float32Array, sampleRate: number, options: AcousticOptions): (number | null)[] => {
+  const factor = Math.max(1, Math.floor(sampleRate / options.formantRate));
+  const rate = sampleRate / factor;
+  const length = Math.floor(samples.length / factor);
+  const decimated = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    // Averaging each block doubles as a crude anti-alias filter
+    let sum = 0;
+    for (let j = 0; j < factor; j++) sum += samples[i * factor + j];
+    decimated[i] = sum / factor;
+  }
+  const prepared = new Float64Array(length);
+  for (let i = 0; i < length; i++) {
+    const emphasised = decimated[i] - 0.97 * (i > 0 ? decimated[i - 1] : 0);
+    prepared[i] = emphasised * (0.54 - 0.46 * Math.cos(2 * Math.PI * i / (length - 1)));
+  }
+
+  const a = lpc(prepared, options.lpcOrder);
+  const formants: (number | null)[] = new Array(options.formantCount).fill(null);
+  if (!a) return formants;
+
+  const points = 512;
+  const envelope = Array.from({ length: points }, (_, p) => {
+    const w = Math.PI * p / points;
+    let re = 0;
+    let im = 0;
+    a.forEach((coefficient, k) => {
+      re += coefficient * Math.cos(w * k);
+      im -= coefficient * Math.sin(w * k);
+    });
+    return -Math.log(re * re + im * im + 1e-12);
+  });
+
+  let found = 0;
+  for (let p = 1; p < points - 1 && found < options.formantCount; p++) {
+    if (envelope[p] <= envelope[p - 1] || envelope[p] < envelope[p + 1]) continue;
+    const denominator = envelope[p - 1] - 2 * envelope[p] + envelope[p + 1];
+    const offset = denominator !== 0 ? 0.5 * (envelope[p - 1] - envelope[p + 1]) / denominator : 0;
+    const hz = (p + offset) * rate / 2 / points;
+    // Below 90 Hz is the glottal source or DC, not the vocal tract
+    if (hz > 90) formants[found++] = hz;
+  }
+  return formants;
+};
+
+export const extractAcousticFrame = (
+  samples: Float32Array,
+  sampleRate: number,
+  power: Float32Array,
+  f0: number | null,
+  spectralFlux: number,
+  overrides: Partial<AcousticOptions> = {}
+): AcousticFrame => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  // Scaled so a frame's power does not depend on its length
+  const scale = 1 / (samples.length * samples.length);
+  const maxHz = Math.min(options.maxMelHz, binFrequency(power, sampleRate) * (power.length - 1));
+  const logEnergies = melBandEnergies(power, sampleRate, options.melBands, 0, maxHz).map(value => value + Math.log(scale));
+
+  return {
+    mfcc: cepstrum(logEnergies, options.mfccCount),
+    spectralFlux,
+    loudness: logEnergies.reduce((sum, value) => sum + Math.exp(0.3 * value), 0),
+    hnr: f0 !== null ? harmonicsToNoise(samples, sampleRate, f0) : null,
+    formants: f0 !== null ? estimateFormants(samples, sampleRate, options) : new Array(options.formantCount).fill(null)
+  };
+};
+
+const meanOf = (values: number[]): number | null => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+export const summarizeAcoustic = (frames: AcousticFrame[]): AcousticSummary | null => {
+  if (frames.length === 0) return null;
+  const formantCount = frames[0].formants.length;
+  return {
+    mfcc: frames[0].mfcc.map((_, k) => meanOf(frames.map(frame => frame.mfcc[k])) ?? 0),
+    spectralFlux: meanOf(frames.map(frame => frame.spectralFlux)) ?? 0,
+    loudness: meanOf(frames.map(frame => frame.loudness)) ?? 0,
+    hnr: meanOf(frames.flatMap(frame => (frame.hnr !== null ? [frame.hnr] : []))),
+    formants: Array.from({ length: formantCount }, (_, i) =>
+      meanOf(frames.flatMap(frame => (frame.formants[i] !== null ? [frame.formants[i] as number] : [])))
+    ),
+    frames: frames.length
+  };
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { detectPitch, measureCycles } from './pitch';
+
+const SAMPLE_RATE = 16000;
+
+// Harmonics of f0 with the given amplitudes, starting at the fundamental
+const tone = (f0: number, amplitudes: number[], length = 2048) =>
+  Float32Array.from({ length }, (_, i) =>
+    amplitudes.reduce((sum, amplitude, k) => sum + amplitude * Math.sin(2 * Math.PI * f0 * (k + 1) * i / SAMPLE_RATE), 0)
+  );
+
+describe('detectPitch', () => {
+  it('finds the frequency of a pure tone', () => {
+    const frame = detectPitch(tone(220, [0.5]), SAMPLE_RATE);
+
+    expect(frame.voiced).toBe(true);
+    expect(frame.f0).toBeCloseTo(220, 0);
+    expect(frame.periodicity).toBeGreaterThan(0.9);
+  });
+
+  it('reports the fundamental of a harmonic tone rather than a stronger overtone', () => {
+    const frame = detectPitch(tone(110, [0.2, 0.5, 0.3]), SAMPLE_RATE);
+
+    expect(frame.voiced).toBe(true);
+    expect(frame.f0).toBeCloseTo(110, 0);
+  });
+
+  it('treats quiet frames as silence', () => {
+    const frame = detectPitch(tone(220, [0.005]), SAMPLE_RATE);
+
+    expect(frame.voiced).toBe(false);
+    expect(frame.f0).toBeNull();
+  });
+
+  it('leaves tones below the search range unvoiced', () => {
+    const frame = detectPitch(tone(50, [0.5]), SAMPLE_RATE);
+
+    expect(frame.voiced).toBe(false);
+  });
+});
+
+describe('measureCycles', () => {
+  it('finds no perturbation in a steady tone', () => {
+    const cycles = measureCycles(tone(200, [0.5], 4000), SAMPLE_RATE, 200);
+
+    expect(cycles).not.toBeNull();
+    expect(cycles?.cycles).toBeGreaterThan(40);
+    expect(cycles?.jitter).toBeLessThan(0.005);
+    expect(cycles?.shimmer).toBeLessThan(0.005);
+  });
+
+  it('measures alternating cycle amplitudes as shimmer', () => {
+    const steady = tone(200, [0.5], 4000);
+    // Every other 80-sample cycle at 80% amplitude: a 20% step between consecutive peaks
+    const alternating = steady.map((value, i) => (Math.floor(i / 80) % 2 === 1 ? value * 0.8 : value));
+
+    const cycles = measureCycles(alternating, SAMPLE_RATE, 200);
+
+    expect(cycles?.shimmer).toBeCloseTo(0.2 / 0.9, 1);
+  });
+});
@@ -0,0 +1,151 @@
+// Fundamental frequency tracking on the time-domain signal (YIN, de Cheveigné & Kawahara 2002)
+// and cycle-level perturbation measures for voiced frames
+
+export interface PitchOptions {
+  minF0: number;
+  maxF0: number;
+  // Cumulative mean normalised difference below which a period counts as found
+  threshold: number;
+  // Frames quieter than this RMS are treated as silence
+  minRms: number;
+}
+
+const DEFAULT_OPTIONS: PitchOptions = {
+  minF0: 75,
+  maxF0: 500,
+  threshold: 0.15,
+  minRms: 0.01
+};
+
+export interface PitchFrame {
+  voiced: boolean;
+  // Hz; null for unvoiced or silent frames
+  f0: number | null;
+  // 1 - aperiodicity at the chosen period, 0..1
+  periodicity: number;
+  rms: number;
+}
+
+export interface CycleMeasures {
+  // Local jitter: mean absolute difference of consecutive periods over the mean period
+  jitter: number;
+  // Local shimmer: the same for consecutive cycle peak amplitudes
+  shimmer: number;
+  cycles: number;
+}
+
+const rmsOf = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (samples.length || 1));
+};
+
+// Vertex of the parabola through three neighbouring points, as an offset from the middle one
+const parabolicOffset = (left: number, center: number, right: number) => {
+  const denominator = left - 2 * center + right;
+  return denominator !== 0 ? 0.5 * (left - right) / denominator : 0;
+};
+
+export const detectPitch = (samples: Float32Array, sampleRate: number, overrides: Partial<PitchOptions> = {}): PitchFrame => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const rms = rmsOf(samples);
+  const tauMin = Math.max(2, Math.floor(sampleRate / options.maxF0));
+  const tauMax = Math.min(Math.floor(sampleRate / options.minF0), Math.floor(samples.length / 2));
+  if (rms < options.minRms || tauMax <= tauMin + 1) {
+    return { voiced: false, f0: null, periodicity: 0, rms };
+  }
+
+  // Difference function over a fixed integration window, then cumulative mean normalisation
+  const window = samples.length - tauMax;
+  const cmnd = new Float32Array(tauMax + 1);
+  cmnd[0] = 1;
+  let runningSum = 0;
+  for (let tau = 1; tau <= tauMax; tau++) {
+    let difference = 0;
+    for (let j = 0; j < window; j++) {
+      const delta = samples[j] - samples[j + tau];
+      difference += delta * delta;
+    }
+    runningSum += difference;
+    cmnd[tau] = runningSum > 0 ? difference * tau / runningSum : 1;
+  }
+
+  // First dip under the threshold avoids octave errors; its deepest point within a few percent
+  // keeps ripple from high-frequency components from stopping the search early
+  let tau = -1;
+  for (let t = tauMin; t < tauMax; t++) {
+    if (cmnd[t] < options.threshold) {
+      tau = t;
+      for (let u = t + 1; u < Math.min(tauMax, Math.ceil(t * 1.15)); u++) {
+        if (cmnd[u] < cmnd[tau]) tau = u;
+      }
+      break;
+    }
+  }
+  if (tau < 0) {
+    let best = tauMin;
+    for (let t = tauMin + 1; t < tauMax; t++) {
+      if (cmnd[t] < cmnd[best]) best = t;
+    }
+    return { voiced: false, f0: null, periodicity: Math.max(0, 1 - cmnd[best]), rms };
+  }
+
+  const refined = tau + parabolicOffset(cmnd[tau - 1], cmnd[tau], cmnd[tau + 1]);
+  return { voiced: true, f0: sampleRate / refined, periodicity: Math.max(0, 1 - cmnd[tau]), rms };
+};
+
+// Walks the waveform one period at a time, taking the peak near each expected cycle start
+export const measureCycles = (raw: Float32Array, sampleRate: number, f0: number): CycleMeasures | null => {
+  const period = sampleRate / f0;
+  const peaks: { position: number; amplitude: number }[] = [];
+
+  // Light smoothing keeps broadband noise from shifting the flat tops of the peaks
+  const radius = Math.max(1, Math.round(period / 20));
+  const samples = new Float32Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j <= Math.min(raw.length - 1, i + radius); j++) {
+      sum += raw[j];
+      count++;
+    }
+    samples[i] = sum / count;
+  }
+
+  const peakIn = (from: number, to: number) => {
+    let best = -1;
+    for (let i = Math.max(1, Math.floor(from)); i < Math.min(samples.length - 1, Math.ceil(to)); i++) {
+      if (best < 0 || samples[i] > samples[best]) best = i;
+    }
+    return best;
+  };
+
+  let index = peakIn(0, period);
+  while (index > 0) {
+    peaks.push({
+      position: index + parabolicOffset(samples[index - 1], samples[index], samples[index + 1]),
+      amplitude: samples[index]
+    });
+    // Stop before a search window runs off the buffer and clips the next peak
+    if (index + 1.2 * period >= samples.length - 1) break;
+    const next = peakIn(index + 0.8 * period, index + 1.2 * period);
+    if (next <= index) break;
+    index = next;
+  }
+
+  if (peaks.length < 3) return null;
+  const periods = peaks.slice(1).map((peak, i) => peak.position - peaks[i].position);
+  const amplitudes = peaks.map(peak => peak.amplitude);
+  const meanPeriod = periods.reduce((sum, value) => sum + value, 0) / periods.length;
+  const meanAmplitude = amplitudes.reduce((sum, value) => sum + value, 0) / amplitudes.length;
+  if (meanPeriod <= 0 || meanAmplitude <= 0) return null;
+
+  const meanAbsoluteStep = (values: number[]) =>
+    values.slice(1).reduce((sum, value, i) => sum + Math.abs(value - values[i]), 0) / (values.length - 1);
+
+  return {
+    jitter: meanAbsoluteStep(periods) / meanPeriod,
+    shimmer: meanAbsoluteStep(amplitudes) / meanAmplitude,
+    cycles: periods.length
+  };
+};
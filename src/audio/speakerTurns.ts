@@ -0,0 +1,139 @@
+export type SpeakerLabel = 'subject' | 'interviewer' | 'unknown';
+
+// Per-dimension statistics of the interviewer's enrolment sample
+export interface SpeakerProfile {
+  mean: number[];
+  std: number[];
+  // Distances at or below this are attributed to the interviewer
+  threshold: number;
+  frames: number;
+}
+
+export interface SpeakerTurn {
+  speaker: SpeakerLabel;
+  // Audio clock, seconds
+  start: number;
+  end: number;
+}
+
+export interface SpeakerTurnOptions {
+  // Smoothing of per-frame interviewer decisions
+  alpha: number;
+  // Hysteresis on the smoothed decision; between the two the current speaker holds
+  enterInterviewer: number;
+  leaveInterviewer: number;
+  // Silence longer than this closes a turn
+  maxPauseSec: number;
+  minEnrolmentFrames: number;
+  maxTurns: number;
+}
+
+const DEFAULT_OPTIONS: SpeakerTurnOptions = {
+  alpha: 0.15,
+  enterInterviewer: 0.65,
+  leaveInterviewer: 0.35,
+  maxPauseSec: 0.6,
+  minEnrolmentFrames: 40,
+  maxTurns: 50
+};
+
+const MIN_THRESHOLD = 4;
+
+// Log F0 (octaves) repeated to weigh a third as much as the spectral envelope, which is
+// mean-removed so loudness drops out
+export const speakerFeatures = (bandEnergies: number[], f0: number): number[] => {
+  const level = bandEnergies.reduce((sum, value) => sum + value, 0) / (bandEnergies.length || 1);
+  const envelope = bandEnergies.map(value => value - level);
+  const pitch = Math.log2(f0 / 100);
+  return [...Array<number>(Math.ceil(envelope.length / 3)).fill(pitch), ...envelope];
+};
+
+// Mean squared z-score against the profile
+const distance = (profile: SpeakerProfile, features: number[]) =>
+  features.reduce((sum, value, i) => sum + ((value - profile.mean[i]) / profile.std[i]) ** 2, 0) / features.length;
+
+export const buildSpeakerProfile = (samples: number[][], minFrames = DEFAULT_OPTIONS.minEnrolmentFrames): SpeakerProfile | null => {
+  if (samples.length < minFrames) return null;
+  const dimensions = samples[0].length;
+  const mean = Array.from({ length: dimensions }, (_, i) => samples.reduce((sum, sample) => sum + sample[i], 0) / samples.length);
+  // Floored so a short, monotone sample does not make the profile brittle
+  const std = mean.map((m, i) => Math.max(0.2, Math.sqrt(samples.reduce((sum, sample) => sum + (sample[i] - m) ** 2, 0) / samples.length)));
+  const profile = { mean, std, threshold: 0, frames: samples.length };
+
+  // Calibrated on the enrolment itself: a little beyond the spread of the interviewer's own frames,
+  // but never so tight that ordinary intonation changes read as another speaker
+  const distances = samples.map(sample => distance(profile, sample)).sort((a, b) => a - b);
+  profile.threshold = Math.max(MIN_THRESHOLD, distances[Math.floor(distances.length * 0.9)] * 1.5);
+  return profile;
+};
+
+// Labels speech frames by speaker and groups them into turns. Without an interviewer
+// profile every frame is 'unknown', since a lone voice cannot be attributed.
+export const createSpeakerTurnSegmenter = (overrides: Partial<SpeakerTurnOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  let profile: SpeakerProfile | null = null;
+  let score: number | null = null;
+  let current: SpeakerTurn | null = null;
+  let turns: SpeakerTurn[] = [];
+  // A turn that opens on unvoiced sound is given to whoever spoke last until voicing decides
+  let lastSpeaker: SpeakerLabel = 'unknown';
+
+  const closeTurn = () => {
+    if (current) {
+      turns = [...turns, current].slice(-options.maxTurns);
+      lastSpeaker = current.speaker;
+    }
+    current = null;
+  };
+
+  // `features` is null for unvoiced speech, which stays with the current speaker
+  const push = (time: number, speech: boolean, features: number[] | null): SpeakerLabel | null => {
+    if (current && time - current.end > options.maxPauseSec) {
+      closeTurn();
+      score = null;
+    }
+    if (!speech) return null;
+
+    let speaker: SpeakerLabel = current?.speaker ?? lastSpeaker;
+    if (!profile) {
+      speaker = 'unknown';
+    } else if (features) {
+      const vote = distance(profile, features) <= profile.threshold ? 1 : 0;
+      score = score === null ? vote : score + options.alpha * (vote - score);
+      if (score >= options.enterInterviewer) speaker = 'interviewer';
+      else if (score <= options.leaveInterviewer) speaker = 'subject';
+      else if (speaker === 'unknown') speaker = score >= 0.5 ? 'interviewer' : 'subject';
+    }
+
+    if (!current || current.speaker !== speaker) {
+      closeTurn();
+      current = { speaker, start: time, end: time };
+    }
+    current.end = time;
+    return speaker;
+  };
+
+  const setProfile = (next: SpeakerProfile | null) => {
+    profile = next;
+    reset();
+  };
+
+  const reset = () => {
+    score = null;
+    current = null;
+    turns = [];
+    lastSpeaker = 'unknown';
+  };
+
+  return {
+    push,
+    setProfile,
+    reset,
+    // Most recent last, including the one still open
+    get turns(): SpeakerTurn[] {
+      return current ? [...turns, { ...current }] : turns;
+    }
+  };
+};
+
+export type SpeakerTurnSegmenter = ReturnType<typeof createSpeakerTurnSegmenter>;
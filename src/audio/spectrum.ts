@@ -0,0 +1,107 @@
+// In-place iterative radix-2 FFT; both arrays must have the same power-of-two length
+const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const step = -2 * Math.PI / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(step * k);
+        const sin = Math.sin(step * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+};
+
+// Power of a Hann-windowed frame for bins 0..N/2, zero-padded to a power of two
+export const powerSpectrum = (samples: Float32Array): Float32Array => {
+  const size = 2 ** Math.ceil(Math.log2(Math.max(2, samples.length)));
+  const re = new Float64Array(size);
+  const im = new Float64Array(size);
+  for (let i = 0; i < samples.length; i++) {
+    re[i] = samples[i] * (0.5 - 0.5 * Math.cos(2 * Math.PI * i / (samples.length - 1)));
+  }
+  fft(re, im);
+
+  const power = new Float32Array(size / 2 + 1);
+  for (let i = 0; i < power.length; i++) power[i] = re[i] * re[i] + im[i] * im[i];
+  return power;
+};
+
+export const binFrequency = (power: Float32Array, sampleRate: number) => sampleRate / (2 * (power.length - 1));
+
+// Hz
+export const spectralCentroid = (power: Float32Array, sampleRate: number): number => {
+  const binHz = binFrequency(power, sampleRate);
+  let weighted = 0;
+  let total = 0;
+  for (let i = 0; i < power.length; i++) {
+    weighted += i * binHz * power[i];
+    total += power[i];
+  }
+  return total > 0 ? weighted / total : 0;
+};
+
+// Share of the frame's power at or above `fromHz`, 0..1
+export const bandEnergyRatio = (power: Float32Array, sampleRate: number, fromHz: number): number => {
+  const first = Math.ceil(fromHz / binFrequency(power, sampleRate));
+  let band = 0;
+  let total = 0;
+  for (let i = 0; i < power.length; i++) {
+    total += power[i];
+    if (i >= first) band += power[i];
+  }
+  return total > 0 ? band / total : 0;
+};
+
+// Geometric over arithmetic mean power between the two edges: near 0 for tonal frames, about 0.56 for white noise
+export const spectralFlatness = (power: Float32Array, sampleRate: number, fromHz: number, toHz: number): number => {
+  const binHz = binFrequency(power, sampleRate);
+  const first = Math.max(1, Math.ceil(fromHz / binHz));
+  const last = Math.min(power.length - 1, Math.floor(toHz / binHz));
+  let logSum = 0;
+  let sum = 0;
+  for (let i = first; i <= last; i++) {
+    logSum += Math.log(power[i] + 1e-12);
+    sum += power[i];
+  }
+  const count = last - first + 1;
+  return count > 0 && sum > 0 ? Math.exp(logSum / count) / (sum / count) : 1;
+};
+
+const toMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const fromMel = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// Log power in `count` triangular bands spaced evenly on the mel scale
+export const melBandEnergies = (power: Float32Array, sampleRate: number, count: number, fromHz: number, toHz: number): number[] => {
+  const binHz = binFrequency(power, sampleRate);
+  const low = toMel(fromHz);
+  const step = (toMel(toHz) - low) / (count + 1);
+  const edges = Array.from({ length: count + 2 }, (_, i) => fromMel(low + i * step) / binHz);
+
+  return Array.from({ length: count }, (_, band) => {
+    const [left, center, right] = [edges[band], edges[band + 1], edges[band + 2]];
+    let energy = 0;
+    for (let i = Math.ceil(left); i <= Math.floor(right) && i < power.length; i++) {
+      const weight = i <= center ? (i - left) / (center - left) : (right - i) / (right - center);
+      energy += Math.max(0, weight) * power[i];
+    }
+    return Math.log(energy + 1e-12);
+  });
+};
@@ -0,0 +1,67 @@
+export interface VoiceActivityOptions {
+  // Frame energy must exceed the tracked noise floor by this much
+  marginDb: number;
+  // Frames flatter than this look like broadband noise rather than voice
+  maxFlatness: number;
+  // Consecutive qualifying frames needed to open a speech segment
+  onsetFrames: number;
+  // Frames a segment stays open after the last qualifying frame, bridging short pauses and stops
+  hangoverFrames: number;
+  // How fast the noise floor may rise while the input stays loud, dB per frame
+  floorRiseDb: number;
+}
+
+const DEFAULT_OPTIONS: VoiceActivityOptions = {
+  marginDb: 9,
+  maxFlatness: 0.35,
+  onsetFrames: 2,
+  hangoverFrames: 8,
+  floorRiseDb: 0.05
+};
+
+export interface VoiceActivityFrame {
+  // dBFS
+  energyDb: number;
+  flatness: number;
+}
+
+// Energy over an adaptive noise floor, gated by spectral flatness, with onset and hangover smoothing
+export const createVoiceActivityDetector = (overrides: Partial<VoiceActivityOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  let noiseFloor: number | null = null;
+  let run = 0;
+  let hangover = 0;
+
+  const push = ({ energyDb, flatness }: VoiceActivityFrame): boolean => {
+    // Falls immediately to quieter frames, creeps up otherwise, so sustained noise is absorbed
+    noiseFloor = noiseFloor === null || energyDb < noiseFloor ? energyDb : noiseFloor + options.floorRiseDb;
+
+    const candidate = energyDb > noiseFloor + options.marginDb && flatness < options.maxFlatness;
+    run = candidate ? run + 1 : 0;
+    if (run >= options.onsetFrames) {
+      hangover = options.hangoverFrames;
+      return true;
+    }
+    if (hangover > 0) {
+      hangover--;
+      return true;
+    }
+    return false;
+  };
+
+  const reset = () => {
+    noiseFloor = null;
+    run = 0;
+    hangover = 0;
+  };
+
+  return {
+    push,
+    reset,
+    get noiseFloor() {
+      return noiseFloor;
+    }
+  };
+};
+
+export type VoiceActivityDetector = ReturnType<typeof createVoiceActivityDetector>;
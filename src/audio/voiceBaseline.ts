@@ -0,0 +1,70 @@
+// Raw per-window voice measures, before any scoring
+export interface VoiceWindowFeatures {
+  // Median F0 in semitones above 100 Hz; null when nothing was voiced
+  pitch: number | null;
+  jitter: number | null;
+  shimmer: number | null;
+  highFrequencyRatio: number;
+  // Hz
+  spectralCentroid: number;
+  level: number;
+  speechRate: number;
+  // Standard deviation of recent voiced F0, semitones
+  pitchSpread: number | null;
+  // Standard deviation of frame levels within the window
+  levelSpread: number;
+}
+
+export type VoiceFeature = keyof VoiceWindowFeatures;
+
+export const VOICE_FEATURES: VoiceFeature[] = [
+  'pitch', 'jitter', 'shimmer', 'highFrequencyRatio', 'spectralCentroid', 'level', 'speechRate', 'pitchSpread', 'levelSpread'
+];
+
+export interface FeatureStats {
+  mean: number;
+  std: number;
+}
+
+// A speaker's neutral reference; features never measured during calibration are null
+export type VoiceBaselineStats = Record<VoiceFeature, FeatureStats | null>;
+
+// z-scores against the baseline; null where either side lacks the feature
+export type VoiceDeviations = Record<VoiceFeature, number | null>;
+
+// Smallest spread trusted per feature, so a very steady calibration does not turn
+// ordinary variation into large deviations
+const MIN_STD: Record<VoiceFeature, number> = {
+  pitch: 1,
+  jitter: 0.002,
+  shimmer: 0.01,
+  highFrequencyRatio: 0.02,
+  spectralCentroid: 100,
+  level: 3,
+  speechRate: 0.1,
+  pitchSpread: 0.5,
+  levelSpread: 2
+};
+
+export const MIN_BASELINE_WINDOWS = 10;
+
+export const buildVoiceBaseline = (samples: VoiceWindowFeatures[]): VoiceBaselineStats | null => {
+  if (samples.length < MIN_BASELINE_WINDOWS) return null;
+  const entries = VOICE_FEATURES.map(feature => {
+    const values = samples.flatMap(sample => (sample[feature] !== null ? [sample[feature] as number] : []));
+    if (values.length < MIN_BASELINE_WINDOWS / 2) return [feature, null];
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const std = Math.sqrt(values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length);
+    return [feature, { mean, std: Math.max(std, MIN_STD[feature]) }];
+  });
+  return Object.fromEntries(entries) as VoiceBaselineStats;
+};
+
+export const voiceDeviations = (baseline: VoiceBaselineStats, features: VoiceWindowFeatures): VoiceDeviations => {
+  const entries = VOICE_FEATURES.map(feature => {
+    const stats = baseline[feature];
+    const value = features[feature];
+    return [feature, stats && value !== null ? (value - stats.mean) / stats.std : null];
+  });
+  return Object.fromEntries(entries) as VoiceDeviations;
+};
@@ -0,0 +1,11 @@
+export interface VoiceCaptureOptions {
+  // Samples per analysis frame and between frame starts; frames overlap when hop < window
+  windowSize: number;
+  hopSize: number;
+}
+
+export interface VoiceCaptureFrame {
+  samples: Float32Array;
+  // Audio clock (seconds) at the last sample of the frame
+  time: number;
+}
@@ -0,0 +1,44 @@
+import { VoiceCaptureFrame, VoiceCaptureOptions } from './voiceCaptureProtocol';
+
+// AudioWorkletGlobalScope members; the DOM lib does not describe the worklet scope
+declare const sampleRate: number;
+declare const currentTime: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: { processorOptions?: unknown });
+}
+declare function registerProcessor(name: string, processor: typeof AudioWorkletProcessor): void;
+
+// Cuts the microphone signal into fixed, overlapping frames on the audio thread, so the
+// analysis cadence follows the audio clock rather than display refresh or tab visibility.
+// Feature extraction stays on the main thread to keep the render quantum cheap.
+class VoiceCaptureProcessor extends AudioWorkletProcessor {
+  private readonly hopSize: number;
+  private readonly buffer: Float32Array;
+  private filled = 0;
+
+  constructor(options?: { processorOptions?: unknown }) {
+    super(options);
+    const { windowSize, hopSize } = options?.processorOptions as VoiceCaptureOptions;
+    this.hopSize = Math.min(hopSize, windowSize);
+    this.buffer = new Float32Array(windowSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      this.buffer[this.filled++] = channel[i];
+      if (this.filled < this.buffer.length) continue;
+
+      const frame: VoiceCaptureFrame = { samples: this.buffer.slice(), time: currentTime + (i + 1) / sampleRate };
+      this.port.postMessage(frame, [frame.samples.buffer]);
+      this.buffer.copyWithin(0, this.hopSize);
+      this.filled -= this.hopSize;
+    }
+    return true;
+  }
+}
+
+registerProcessor('voice-capture', VoiceCaptureProcessor);
@@ -0,0 +1,203 @@
+import { CycleMeasures, PitchFrame, detectPitch, measureCycles } from './pitch';
+import { bandEnergyRatio, melBandEnergies, powerSpectrum, spectralCentroid, spectralFlatness } from './spectrum';
+import { createVoiceActivityDetector } from './voiceActivity';
+import { SpeakerLabel, SpeakerProfile, buildSpeakerProfile, createSpeakerTurnSegmenter, speakerFeatures } from './speakerTurns';
+import { AcousticFrame, AcousticSummary, createSpectralFluxTracker, extractAcousticFrame, summarizeAcoustic } from './acousticFeatures';
+
+export interface VoiceFrameFeatures {
+  // 0..100 over -60..0 dBFS
+  level: number;
+  // Voice activity decision; the fields below are only measured on speech frames
+  speech: boolean;
+  speaker: SpeakerLabel | null;
+  pitch: PitchFrame | null;
+  cycles: CycleMeasures | null;
+  highFrequencyRatio: number;
+  // Hz
+  spectralCentroid: number;
+  // Only extracted when the aggregator is asked for raw acoustic features
+  acoustic: AcousticFrame | null;
+}
+
+// One speaker's share of a window; spectral means are over that speaker's frames only
+export interface SpeakerWindow {
+  speaker: SpeakerLabel;
+  speechFrames: number;
+  levels: number[];
+  f0s: number[];
+  cycles: CycleMeasures[];
+  meanLevel: number;
+  highFrequencyRatio: number;
+  spectralCentroid: number;
+  acoustic: AcousticSummary | null;
+}
+
+export interface VoiceWindow {
+  // Audio clock, seconds
+  start: number;
+  end: number;
+  frames: number;
+  levels: number[];
+  // Speakers heard in the window, most speech first; empty when the window held no speech
+  speakers: SpeakerWindow[];
+}
+
+export interface VoiceWindowOptions {
+  windowMs: number;
+  // Lower edge of the band counted as high-frequency energy
+  highFrequencyHz: number;
+  // Band over which flatness and the speaker envelope are measured
+  voiceBandHz: [number, number];
+  speakerBands: number;
+  // MFCCs, flux, HNR, formants and loudness cost a few milliseconds per speech frame
+  acousticFeatures: boolean;
+}
+
+const DEFAULT_OPTIONS: VoiceWindowOptions = {
+  windowMs: 500,
+  highFrequencyHz: 2000,
+  voiceBandHz: [100, 4000],
+  speakerBands: 12,
+  acousticFeatures: false
+};
+
+const energyDbOf = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return 20 * Math.log10(Math.max(Math.sqrt(sum / (samples.length || 1)), 1e-6));
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / (values.length || 1);
+
+// Groups analysis frames into fixed windows on the audio clock and summarises each one per speaker
+export const createVoiceWindowAggregator = (overrides: Partial<VoiceWindowOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  const activity = createVoiceActivityDetector();
+  const segmenter = createSpeakerTurnSegmenter();
+  const flux = createSpectralFluxTracker();
+  let index: number | null = null;
+  let frames: { time: number; features: VoiceFrameFeatures }[] = [];
+  // Speaker features of voiced frames collected while the interviewer enrols
+  let enrolment: number[][] | null = null;
+
+  const analyzeFrame = (samples: Float32Array, sampleRate: number, time: number): VoiceFrameFeatures => {
+    const energyDb = energyDbOf(samples);
+    const level = Math.round(Math.min(100, Math.max(0, (energyDb + 60) / 60 * 100)));
+    const power = powerSpectrum(samples);
+    const spectralFlux = flux.push(power);
+    const [lowHz, highHz] = options.voiceBandHz;
+    const speech = activity.push({ energyDb, flatness: spectralFlatness(power, sampleRate, lowHz, highHz) });
+    if (!speech) {
+      segmenter.push(time, false, null);
+      return { level, speech, speaker: null, pitch: null, cycles: null, highFrequencyRatio: 0, spectralCentroid: 0, acoustic: null };
+    }
+
+    const pitch = detectPitch(samples, sampleRate);
+    const features = pitch.f0 !== null
+      ? speakerFeatures(melBandEnergies(power, sampleRate, options.speakerBands, lowHz, highHz), pitch.f0)
+      : null;
+    if (enrolment && features) enrolment.push(features);
+    const speaker = enrolment ? 'interviewer' : segmenter.push(time, true, features);
+
+    return {
+      level,
+      speech,
+      speaker,
+      pitch,
+      cycles: pitch.f0 !== null ? measureCycles(samples, sampleRate, pitch.f0) : null,
+      highFrequencyRatio: bandEnergyRatio(power, sampleRate, options.highFrequencyHz),
+      spectralCentroid: spectralCentroid(power, sampleRate),
+      acoustic: options.acousticFeatures ? extractAcousticFrame(samples, sampleRate, power, pitch.f0, spectralFlux) : null
+    };
+  };
+
+  const summarizeSpeaker = (speaker: SpeakerLabel, features: VoiceFrameFeatures[]): SpeakerWindow => ({
+    speaker,
+    speechFrames: features.length,
+    levels: features.map(item => item.level),
+    f0s: features.flatMap(item => (item.pitch && item.pitch.f0 !== null ? [item.pitch.f0] : [])),
+    cycles: features.flatMap(item => (item.cycles ? [item.cycles] : [])),
+    meanLevel: mean(features.map(item => item.level)),
+    highFrequencyRatio: mean(features.map(item => item.highFrequencyRatio)),
+    spectralCentroid: mean(features.map(item => item.spectralCentroid)),
+    acoustic: summarizeAcoustic(features.flatMap(item => (item.acoustic ? [item.acoustic] : [])))
+  });
+
+  // A partial window ends at its last frame rather than at the window boundary
+  const summarize = (partial: boolean): VoiceWindow | null => {
+    if (index === null || frames.length === 0) return null;
+    const bySpeaker = new Map<SpeakerLabel, VoiceFrameFeatures[]>();
+    frames.forEach(({ features }) => {
+      if (!features.speaker) return;
+      bySpeaker.set(features.speaker, [...(bySpeaker.get(features.speaker) ?? []), features]);
+    });
+    return {
+      start: index * options.windowMs / 1000,
+      end: partial ? frames[frames.length - 1].time : (index + 1) * options.windowMs / 1000,
+      frames: frames.length,
+      levels: frames.map(frame => frame.features.level),
+      speakers: Array.from(bySpeaker.entries())
+        .map(([speaker, features]) => summarizeSpeaker(speaker, features))
+        .sort((a, b) => b.speechFrames - a.speechFrames)
+    };
+  };
+
+  // `time` is the audio clock at the end of the frame; returns the previous window once a frame crosses into the next
+  const push = (samples: Float32Array, sampleRate: number, time: number): { features: VoiceFrameFeatures; window: VoiceWindow | null } => {
+    const features = analyzeFrame(samples, sampleRate, time);
+    const frameIndex = Math.floor(time * 1000 / options.windowMs);
+    let window: VoiceWindow | null = null;
+    if (index !== null && frameIndex !== index) {
+      window = summarize(false);
+      frames = [];
+    }
+    index = frameIndex;
+    frames.push({ time, features });
+    return { features, window };
+  };
+
+  // Summary of the partly filled window, e.g. when capture stops
+  const flush = (): VoiceWindow | null => {
+    const window = summarize(true);
+    index = null;
+    frames = [];
+    return window;
+  };
+
+  const startEnrolment = () => {
+    enrolment = [];
+  };
+
+  // Builds and applies the interviewer profile; null when too little voiced speech was heard
+  const finishEnrolment = (): SpeakerProfile | null => {
+    const profile = enrolment ? buildSpeakerProfile(enrolment) : null;
+    enrolment = null;
+    if (profile) segmenter.setProfile(profile);
+    return profile;
+  };
+
+  const reset = () => {
+    index = null;
+    frames = [];
+    activity.reset();
+    segmenter.reset();
+    flux.reset();
+  };
+
+  return {
+    push,
+    flush,
+    reset,
+    startEnrolment,
+    finishEnrolment,
+    setSpeakerProfile: segmenter.setProfile,
+    get enrolmentFrames() {
+      return enrolment?.length ?? null;
+    },
+    get turns() {
+      return segmenter.turns;
+    }
+  };
+};
+
+export type VoiceWindowAggregator = ReturnType<typeof createVoiceWindowAggregator>;
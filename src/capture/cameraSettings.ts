@@ -0,0 +1,72 @@
+// Capture settings are remembered per machine, since each lab station has its own cameras
+const STORAGE_KEY = 'emotion-detector.camera-settings';
+
+export interface CameraSettings {
+  // null picks the browser default (front-facing camera where there is one)
+  deviceId: string | null;
+  width: number;
+  height: number;
+  frameRate: number;
+  mirror: boolean;
+}
+
+export interface CameraDevice {
+  deviceId: string;
+  label: string;
+}
+
+export const RESOLUTION_PRESETS = [
+  { width: 640, height: 480, label: '640 × 480' },
+  { width: 1280, height: 720, label: '1280 × 720 (HD)' },
+  { width: 1920, height: 1080, label: '1920 × 1080 (Full HD)' }
+];
+
+export const FRAME_RATE_OPTIONS = [15, 24, 30, 60];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+  deviceId: null,
+  width: 640,
+  height: 480,
+  frameRate: 30,
+  mirror: true
+};
+
+export const loadCameraSettings = (): CameraSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_CAMERA_SETTINGS;
+    return { ...DEFAULT_CAMERA_SETTINGS, ...JSON.parse(stored) };
+  } catch {
+    return DEFAULT_CAMERA_SETTINGS;
+  }
+};
+
+export const saveCameraSettings = (settings: CameraSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not persist camera settings:', error);
+  }
+};
+
+// An explicitly chosen camera must be honoured exactly, otherwise the browser silently
+// falls back to another device; size and rate stay "ideal" so unsupported modes degrade
+export const buildVideoConstraints = (settings: CameraSettings): MediaTrackConstraints => ({
+  ...(settings.deviceId ? { deviceId: { exact: settings.deviceId } } : { facingMode: 'user' }),
+  width: { ideal: settings.width },
+  height: { ideal: settings.height },
+  frameRate: { ideal: settings.frameRate }
+});
+
+// Labels are empty until camera permission has been granted once
+export const listCameraDevices = async (): Promise<CameraDevice[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices
+    .filter(device => device.kind === 'videoinput' && device.deviceId)
+    .map((device, index) => ({
+      deviceId: device.deviceId,
+      label: device.label || `Camera ${index + 1}`
+    }));
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { DetectedFace, FaceBox } from '../models';
+import { obscuredRegions } from './faceAnonymizer';
+
+const face = (box: FaceBox): DetectedFace => ({ box, score: 0.9, landmarks: [] });
+
+const covers = (region: FaceBox, box: FaceBox) =>
+  region.x <= box.x &&
+  region.y <= box.y &&
+  region.x + region.width >= box.x + box.width &&
+  region.y + region.height >= box.y + box.height;
+
+describe('obscuredRegions', () => {
+  it('covers a face that moved since its box was detected', () => {
+    const detected = { x: 300, y: 200, width: 120, height: 150 };
+    // A quick head turn: over half a face width in the 250 ms the result took to arrive,
+    // which a fixed margin around the stale box would leave partly uncovered
+    const moved = { x: 370, y: 215, width: 120, height: 150 };
+
+    const regions = obscuredRegions([face(detected)], 250, 1280, 720);
+
+    expect(regions).not.toBeNull();
+    expect(covers((regions as FaceBox[])[0], moved)).toBe(true);
+  });
+
+  it('grows regions with the age of the boxes', () => {
+    const box = { x: 300, y: 200, width: 100, height: 100 };
+    const [fresh] = obscuredRegions([face(box)], 0, 1280, 720) as FaceBox[];
+    const [stale] = obscuredRegions([face(box)], 200, 1280, 720) as FaceBox[];
+
+    expect(stale.width).toBeGreaterThan(fresh.width);
+    expect(covers(stale, fresh)).toBe(true);
+  });
+
+  it('obscures the whole frame when boxes are too old or missing', () => {
+    const box = { x: 300, y: 200, width: 100, height: 100 };
+
+    expect(obscuredRegions([face(box)], 1000, 1280, 720)).toBeNull();
+    expect(obscuredRegions([], 0, 1280, 720)).toBeNull();
+    expect(obscuredRegions(null, 0, 1280, 720)).toBeNull();
+  });
+
+  it('keeps regions inside the frame', () => {
+    const [region] = obscuredRegions([face({ x: 5, y: 5, width: 100, height: 100 })], 300, 640, 480) as FaceBox[];
+
+    expect(region.x).toBe(0);
+    expect(region.y).toBe(0);
+    expect(region.x + region.width).toBeLessThanOrEqual(640);
+  });
+});
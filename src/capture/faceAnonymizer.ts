@@ -0,0 +1,137 @@
+import { DetectedFace, FaceBox } from '../models';
+
+export type PrivacyMode = 'off' | 'blur' | 'pixelate' | 'mesh';
+
+export const PRIVACY_MODES: { id: PrivacyMode; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'blur', label: 'Blur' },
+  { id: 'pixelate', label: 'Pixelate' },
+  { id: 'mesh', label: 'Landmark mesh' }
+];
+
+export interface FaceAnonymizerOptions {
+  // Extra margin around the detected box, as a fraction of its size, to cover hair and ears
+  margin: number;
+  // Samples across the face; fewer means stronger obscuring
+  blurSamples: number;
+  pixelBlocks: number;
+  // Boxes come from the worker and trail the drawn frame; each one grows by this fraction of its
+  // size per second of age, so a face moving at a normal pace stays inside it
+  stalePadding: number;
+  // Boxes older than this no longer say where the face is, so the whole frame is obscured
+  maxBoxAgeMs: number;
+}
+
+const DEFAULT_OPTIONS: FaceAnonymizerOptions = {
+  margin: 0.25,
+  blurSamples: 6,
+  pixelBlocks: 8,
+  stalePadding: 2,
+  maxBoxAgeMs: 400
+};
+
+// Regions to obscure for faces detected `ageMs` before the frame being drawn; null means the
+// whole frame, which is also the answer when there is no detection to go by
+export const obscuredRegions = (
+  faces: DetectedFace[] | null,
+  ageMs: number,
+  width: number,
+  height: number,
+  overrides: Partial<FaceAnonymizerOptions> = {}
+): FaceBox[] | null => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  if (!faces || faces.length === 0 || ageMs > options.maxBoxAgeMs) return null;
+
+  const grow = options.margin + options.stalePadding * Math.max(0, ageMs) / 1000;
+  return faces.map(({ box }) => {
+    const x = Math.max(0, box.x - box.width * grow);
+    const y = Math.max(0, box.y - box.height * grow);
+    return {
+      x,
+      y,
+      width: Math.min(width, box.x + box.width * (1 + grow)) - x,
+      height: Math.min(height, box.y + box.height * (1 + grow)) - y
+    };
+  });
+};
+
+// 68-point contours drawn for the mesh: [first index, last index, closed]
+const MESH_PATHS: [number, number, boolean][] = [
+  [0, 16, false],
+  [17, 21, false],
+  [22, 26, false],
+  [27, 30, false],
+  [31, 35, false],
+  [36, 41, true],
+  [42, 47, true],
+  [48, 59, true],
+  [60, 67, true]
+];
+
+// Obscures faces in an already drawn display frame. Only ever applied to output canvases;
+// analysis reads its own copy of the raw frame.
+export const createFaceAnonymizer = (overrides: Partial<FaceAnonymizerOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  let scratch: HTMLCanvasElement | null = null;
+
+  // Downsample the region and scale it back up: smoothed for blur, blocky for pixelation
+  const resample = (ctx: CanvasRenderingContext2D, region: FaceBox, samples: number, smooth: boolean) => {
+    scratch ??= document.createElement('canvas');
+    const scratchCtx = scratch.getContext('2d');
+    if (!scratchCtx || region.width < 1 || region.height < 1) return;
+    scratch.width = samples;
+    scratch.height = Math.max(1, Math.round(samples * region.height / region.width));
+    scratchCtx.imageSmoothingEnabled = true;
+    scratchCtx.drawImage(ctx.canvas, region.x, region.y, region.width, region.height, 0, 0, scratch.width, scratch.height);
+
+    ctx.save();
+    ctx.imageSmoothingEnabled = smooth;
+    ctx.drawImage(scratch, 0, 0, scratch.width, scratch.height, region.x, region.y, region.width, region.height);
+    ctx.restore();
+  };
+
+  const drawMesh = (ctx: CanvasRenderingContext2D, face: DetectedFace, region: FaceBox) => {
+    ctx.save();
+    ctx.fillStyle = '#1f2937';
+    ctx.fillRect(region.x, region.y, region.width, region.height);
+    ctx.strokeStyle = '#38bdf8';
+    ctx.lineWidth = Math.max(1, face.box.width / 120);
+    MESH_PATHS.forEach(([from, to, closed]) => {
+      const points = face.landmarks.slice(from, to + 1);
+      if (points.length < 2) return;
+      ctx.beginPath();
+      ctx.moveTo(points[0].x, points[0].y);
+      points.slice(1).forEach(point => ctx.lineTo(point.x, point.y));
+      if (closed) ctx.closePath();
+      ctx.stroke();
+    });
+    ctx.restore();
+  };
+
+  // `ageMs` is how long before the drawn frame the faces were detected
+  const apply = (ctx: CanvasRenderingContext2D, faces: DetectedFace[] | null, mode: PrivacyMode, ageMs = 0) => {
+    if (mode === 'off') return;
+
+    // Fail closed: without a recent detection to locate the face, obscure the whole frame
+    const regions = obscuredRegions(faces, ageMs, ctx.canvas.width, ctx.canvas.height, options);
+    if (!faces || !regions) {
+      resample(ctx, { x: 0, y: 0, width: ctx.canvas.width, height: ctx.canvas.height }, 24, true);
+      return;
+    }
+
+    faces.forEach((face, index) => {
+      const region = regions[index];
+      if (mode === 'mesh') {
+        drawMesh(ctx, face, region);
+      } else if (mode === 'pixelate') {
+        resample(ctx, region, options.pixelBlocks, false);
+      } else {
+        resample(ctx, region, options.blurSamples, true);
+      }
+    });
+  };
+
+  return { apply };
+};
+
+export type FaceAnonymizer = ReturnType<typeof createFaceAnonymizer>;
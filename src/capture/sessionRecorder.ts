@@ -0,0 +1,73 @@
+// Preferred containers, best first; browsers differ in what MediaRecorder can write
+const MIME_CANDIDATES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+  'video/mp4'
+];
+
+export interface RecordedMedia {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+}
+
+const pickMimeType = () => MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+
+export const createSessionRecorder = () => {
+  let recorder: MediaRecorder | null = null;
+  let chunks: Blob[] = [];
+  let startedAt = 0;
+
+  // Resolves with the epoch time at which recording actually began
+  const start = (stream: MediaStream) => new Promise<number>((resolve, reject) => {
+    if (recorder) {
+      reject(new Error('Recording already in progress'));
+      return;
+    }
+
+    chunks = [];
+    const mimeType = pickMimeType();
+    recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstart = () => {
+      startedAt = performance.timeOrigin + performance.now();
+      resolve(startedAt);
+    };
+    recorder.onerror = () => reject(new Error('MediaRecorder failed to start'));
+    // Timesliced so an interrupted session still leaves most of its footage behind
+    recorder.start(1000);
+  });
+
+  const stop = () => new Promise<RecordedMedia>((resolve, reject) => {
+    const active = recorder;
+    if (!active) {
+      reject(new Error('No recording in progress'));
+      return;
+    }
+
+    active.onstop = () => {
+      const mimeType = active.mimeType || 'video/webm';
+      resolve({
+        blob: new Blob(chunks, { type: mimeType }),
+        mimeType,
+        durationMs: performance.timeOrigin + performance.now() - startedAt
+      });
+      chunks = [];
+    };
+    recorder = null;
+    active.stop();
+  });
+
+  return {
+    start,
+    stop,
+    get isRecording() {
+      return recorder !== null;
+    }
+  };
+};
+
+export type SessionRecorder = ReturnType<typeof createSessionRecorder>;
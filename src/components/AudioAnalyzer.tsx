@@ -1,9 +1,20 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Mic, MicOff, Volume2, Activity, TrendingUp, AlertTriangle } from 'lucide-react';
+import { Mic, MicOff, Volume2, Activity, TrendingUp, AlertTriangle, UserCheck, Upload, FileAudio, Gauge } from 'lucide-react';
+import { CycleMeasures } from '../audio/pitch';
+import { SpeakerWindow, VoiceWindow, VoiceWindowAggregator, createVoiceWindowAggregator } from '../audio/voiceWindows';
+import { SpeakerLabel, SpeakerProfile, SpeakerTurn } from '../audio/speakerTurns';
+import { VoiceCaptureFrame, VoiceCaptureOptions } from '../audio/voiceCaptureProtocol';
+import voiceCaptureWorkletUrl from '../audio/voiceCaptureWorklet.ts?worker&url';
+import { MIN_BASELINE_WINDOWS, VoiceBaselineStats, VoiceDeviations, VoiceWindowFeatures, buildVoiceBaseline, voiceDeviations } from '../audio/voiceBaseline';
+import { StoredVoiceBaseline, listVoiceBaselines, saveVoiceBaseline } from '../storage/recordingStore';
 
 interface VoiceAnalysis {
   id: string;
   timestamp: string;
+  // Span of audio the record summarises; timestamp is the window end. Imported files have no
+  // wall clock, so their windows are anchored to the start of the analysis and timestamp is the analysis time
+  windowStart: string;
+  windowEnd: string;
   stressLevel: number;
   confidenceLevel: number;
   pitchVariation: number;
@@ -11,33 +22,134 @@ interface VoiceAnalysis {
   volumeConsistency: number;
   emotionalState: 'calm' | 'stressed' | 'confident' | 'uncertain' | 'deceptive' | 'anxious';
   sessionId: string;
+  // Who was speaking; 'unknown' until an interviewer voice sample is enrolled
+  speaker: 'subject' | 'interviewer' | 'unknown';
+  // Hz, median over the window's voiced frames; null when none were voiced
+  fundamentalFrequency: number | null;
+  // Local jitter and shimmer (ratios) over the window's voiced cycles
+  jitter: number | null;
+  shimmer: number | null;
+  // Position in the session recording, stamped by the detector when one is running
+  mediaTime: number | null;
+  // Set when the speaker was scored against a calibrated baseline. The 0..1 metrics then
+  // measure deviation from it: 0 is the speaker's norm, 1 is three standard deviations
+  // beyond it (speech rate centres its norm on 0.5)
+  baselineId: string | null;
+  deviations: VoiceDeviations | null;
 }
 
+// Standard acoustic parameters for one speaker in one window, for export to external models
+interface AcousticFeatureRecord {
+  id: string;
+  // The VoiceAnalysis record computed from the same window and speaker
+  voiceAnalysisId: string;
+  timestamp: string;
+  windowStart: string;
+  windowEnd: string;
+  sessionId: string;
+  speaker: 'subject' | 'interviewer' | 'unknown';
+  mediaTime: number | null;
+  // Speech frames the means were taken over
+  frames: number;
+  fundamentalFrequency: number | null;
+  jitter: number | null;
+  shimmer: number | null;
+  // dB
+  hnr: number | null;
+  // F1–F3, Hz
+  formants: (number | null)[];
+  loudness: number;
+  spectralFlux: number;
+  mfcc: number[];
+}
+
+type VoiceBaseline = StoredVoiceBaseline<VoiceBaselineStats>;
+
+// Analysis frames of ~46 ms at 44.1 kHz with 50% overlap, aggregated into report windows
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 1024;
+const WINDOW_OPTIONS_MS = [250, 500, 1000, 2000];
+const DEFAULT_WINDOW_MS = 500;
+const PITCH_HISTORY_SIZE = 200;
+// Tense or strained voicing shifts spectral weight upwards
+const HIGH_CENTROID_HZ = 2000;
+
+// Seconds of subject speech collected before calibration finishes by itself
+const CALIBRATION_SECONDS = 20;
+
+// Imported files are decoded at the live capture rate so frame sizes mean the same thing
+const FILE_SAMPLE_RATE = 44100;
+// Frames analysed between yields to the UI during file analysis
+const FILE_FRAMES_PER_YIELD = 200;
+
+// Where a window's audio came from, for stamping its records
+interface WindowSource {
+  sessionId: string;
+  // Epoch ms at audio clock zero; for files, the time the analysis started
+  epochOffsetMs: number;
+  // File windows carry their offset as media time
+  fromFile: boolean;
+}
+
+const SPEAKER_COLORS: Record<SpeakerLabel, string> = {
+  subject: 'text-purple-700 bg-purple-50',
+  interviewer: 'text-blue-700 bg-blue-50',
+  unknown: 'text-gray-700 bg-gray-100'
+};
+
 interface AudioAnalyzerProps {
   onVoiceAnalyzed: (result: VoiceAnalysis) => void;
+  // Only called while raw feature extraction is switched on
+  onAcousticFeatures?: (record: AcousticFeatureRecord) => void;
   sessionId: string;
   isActive: boolean;
 }
 
-const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, sessionId, isActive }) => {
+const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, onAcousticFeatures, sessionId, isActive }) => {
   const audioContextRef = useRef<AudioContext | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
   const microphoneRef = useRef<MediaStreamAudioSourceNode | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const animationRef = useRef<number>();
+  const aggregatorRef = useRef<VoiceWindowAggregator | null>(null);
+  // Epoch ms at audio clock zero, for stamping windows with wall-clock times
+  const clockOffsetRef = useRef(0);
+  const handleFrameRef = useRef<(frame: VoiceCaptureFrame) => void>(() => {});
   
   const [isListening, setIsListening] = useState(false);
   const [audioLevel, setAudioLevel] = useState(0);
   const [currentAnalysis, setCurrentAnalysis] = useState<VoiceAnalysis | null>(null);
   const [hasAudioPermission, setHasAudioPermission] = useState(false);
   const [audioError, setAudioError] = useState<string>('');
+  const [windowMs, setWindowMs] = useState(DEFAULT_WINDOW_MS);
+  const [extractFeatures, setExtractFeatures] = useState(false);
+  const [currentSpeaker, setCurrentSpeaker] = useState<SpeakerLabel | null>(null);
+  const [recentTurns, setRecentTurns] = useState<SpeakerTurn[]>([]);
+  // Kept across start/stop so one enrolment serves the whole interview
+  const [interviewerProfile, setInterviewerProfile] = useState<SpeakerProfile | null>(null);
+  const [enrolmentFrames, setEnrolmentFrames] = useState<number | null>(null);
+  const [enrolmentError, setEnrolmentError] = useState('');
+  const fileRunningRef = useRef(false);
+  const [audioFileName, setAudioFileName] = useState('');
+  const [audioFileState, setAudioFileState] = useState<'idle' | 'decoding' | 'analyzing' | 'done' | 'cancelled' | 'error'>('idle');
+  const [audioFileProgress, setAudioFileProgress] = useState(0);
+  const [audioFileRecords, setAudioFileRecords] = useState(0);
+  const [audioFileError, setAudioFileError] = useState('');
+  // Read from the capture and file loops, so mirrored in refs
+  const baselineRef = useRef<VoiceBaseline | null>(null);
+  const calibrationRef = useRef<VoiceWindowFeatures[] | null>(null);
+  const autoCalibratedSessionRef = useRef<string | null>(null);
+  const [baseline, setBaseline] = useState<VoiceBaseline | null>(null);
+  const [savedBaselines, setSavedBaselines] = useState<VoiceBaseline[]>([]);
+  const [subjectName, setSubjectName] = useState('');
+  const [calibrateAtStart, setCalibrateAtStart] = useState(true);
+  const [calibrationWindows, setCalibrationWindows] = useState<number | null>(null);
+  const [calibrationError, setCalibrationError] = useState('');
   
-  // Voice analysis history for pattern detection
-  const [voiceHistory, setVoiceHistory] = useState<number[]>([]);
-  const [pitchHistory, setPitchHistory] = useState<number[]>([]);
-  const [volumeHistory, setVolumeHistory] = useState<number[]>([]);
+  // Voiced F0s across recent windows, per speaker, for pitch variation
+  const pitchHistoryRef = useRef<Map<SpeakerLabel, number[]>>(new Map());
 
   const initializeAudio = async () => {
+    if (fileRunningRef.current) return;
     try {
       setAudioError('');
       
@@ -57,32 +169,47 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, sessionI
       audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
       const audioContext = audioContextRef.current;
       
-      // Create analyser node
-      analyserRef.current = audioContext.createAnalyser();
-      analyserRef.current.fftSize = 2048;
-      analyserRef.current.smoothingTimeConstant = 0.8;
+      // Frames are cut on the audio thread; with no outputs the node is always rendered
+      await audioContext.audioWorklet.addModule(voiceCaptureWorkletUrl);
+      const processorOptions: VoiceCaptureOptions = { windowSize: FRAME_SIZE, hopSize: HOP_SIZE };
+      captureNodeRef.current = new AudioWorkletNode(audioContext, 'voice-capture', {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        processorOptions
+      });
+      captureNodeRef.current.port.onmessage = (event: MessageEvent<VoiceCaptureFrame>) => handleFrameRef.current(event.data);
       
-      // Connect microphone to analyser
+      // Connect microphone to the capture node
       microphoneRef.current = audioContext.createMediaStreamSource(stream);
-      microphoneRef.current.connect(analyserRef.current);
+      microphoneRef.current.connect(captureNodeRef.current);
+      
+      aggregatorRef.current = createVoiceWindowAggregator({ windowMs, acousticFeatures: extractFeatures });
+      aggregatorRef.current.setSpeakerProfile(interviewerProfile);
+      pitchHistoryRef.current = new Map();
+      clockOffsetRef.current = Date.now() - audioContext.currentTime * 1000;
       
       setHasAudioPermission(true);
       setIsListening(true);
       
-      // Start analysis loop
-      analyzeAudio();
-      
     } catch (error: any) {
       console.error('Audio initialization error:', error);
       setAudioError(error.message || 'Failed to access microphone');
       setHasAudioPermission(false);
+      releaseAudio();
     }
   };
 
-  const stopAudio = () => {
-    if (animationRef.current) {
-      cancelAnimationFrame(animationRef.current);
+  const releaseAudio = () => {
+    if (captureNodeRef.current) {
+      captureNodeRef.current.port.onmessage = null;
+      captureNodeRef.current.disconnect();
+      captureNodeRef.current = null;
     }
+    microphoneRef.current?.disconnect();
+    microphoneRef.current = null;
+    aggregatorRef.current = null;
+    setEnrolmentFrames(null);
+    setCurrentSpeaker(null);
     
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
@@ -93,141 +220,350 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, sessionI
       audioContextRef.current.close();
       audioContextRef.current = null;
     }
+  };
+
+  const stopAudio = () => {
+    // Report the partly filled last window rather than dropping it
+    const window = aggregatorRef.current?.flush();
+    if (window && isActive) emitWindow(window, liveSource());
+    releaseAudio();
     
     setIsListening(false);
     setAudioLevel(0);
   };
 
-  const analyzeAudio = () => {
-    if (!analyserRef.current || !isActive) return;
-    
-    const bufferLength = analyserRef.current.frequencyBinCount;
-    const dataArray = new Uint8Array(bufferLength);
-    const frequencyData = new Float32Array(bufferLength);
-    
-    analyserRef.current.getByteFrequencyData(dataArray);
-    analyserRef.current.getFloatFrequencyData(frequencyData);
-    
-    // Calculate audio level (0-100)
-    const average = dataArray.reduce((sum, value) => sum + value, 0) / bufferLength;
-    const audioLevel = Math.round((average / 255) * 100);
-    setAudioLevel(audioLevel);
-    
-    // Only analyze if there's significant audio input
-    if (audioLevel > 5) {
-      performVoiceStressAnalysis(dataArray, frequencyData, audioLevel);
+  const handleFrame = (frame: VoiceCaptureFrame) => {
+    const aggregator = aggregatorRef.current;
+    const audioContext = audioContextRef.current;
+    if (!aggregator || !audioContext) return;
+    // Enrolment may run before the interview starts
+    const enrolling = aggregator.enrolmentFrames !== null;
+    // Calibration opens each session unless a baseline is already in use
+    if (isActive && calibrateAtStart && !baselineRef.current && !calibrationRef.current && autoCalibratedSessionRef.current !== sessionId) {
+      autoCalibratedSessionRef.current = sessionId;
+      startCalibration();
+    }
+    if (!isActive && !enrolling) {
+      aggregator.reset();
+      return;
     }
     
-    animationRef.current = requestAnimationFrame(analyzeAudio);
+    const { features, window } = aggregator.push(frame.samples, audioContext.sampleRate, frame.time);
+    setAudioLevel(features.level);
+    if (features.speaker) setCurrentSpeaker(features.speaker);
+    if (enrolling) setEnrolmentFrames(aggregator.enrolmentFrames);
+    if (window) {
+      setRecentTurns(aggregator.turns.slice(-5));
+      if (isActive) emitWindow(window, liveSource());
+    }
   };
+  handleFrameRef.current = handleFrame;
 
-  const performVoiceStressAnalysis = (timeData: Uint8Array, frequencyData: Float32Array, volume: number) => {
-    // Fundamental frequency analysis (pitch detection)
-    const fundamentalFreq = detectFundamentalFrequency(frequencyData);
-    
-    // Voice stress indicators
-    const highFreqEnergy = calculateHighFrequencyEnergy(frequencyData);
-    const spectralCentroid = calculateSpectralCentroid(frequencyData);
-    const jitter = calculateJitter(pitchHistory, fundamentalFreq);
-    const shimmer = calculateShimmer(volumeHistory, volume);
-    
-    // Update history
-    setVoiceHistory(prev => [...prev.slice(-19), volume]);
-    setPitchHistory(prev => [...prev.slice(-19), fundamentalFreq]);
-    setVolumeHistory(prev => [...prev.slice(-19), volume]);
+  // One record per speaker heard in the window, each measured on that speaker's frames only;
+  // windows without speech produce none
+  const emitWindow = (window: VoiceWindow, source: WindowSource) => {
+    window.speakers.forEach(speech => emitSpeakerWindow(window, speech, source));
+  };
+
+  const liveSource = (): WindowSource => ({ sessionId, epochOffsetMs: clockOffsetRef.current, fromFile: false });
+
+  const emitSpeakerWindow = (window: VoiceWindow, speech: SpeakerWindow, source: WindowSource) => {
+    const pitchHistory = [...(pitchHistoryRef.current.get(speech.speaker) ?? []), ...speech.f0s].slice(-PITCH_HISTORY_SIZE);
+    pitchHistoryRef.current.set(speech.speaker, pitchHistory);
+    const perturbation = calculatePerturbation(speech.cycles);
+    const f0 = median(speech.f0s);
+    const features: VoiceWindowFeatures = {
+      pitch: f0 !== null ? toSemitones(f0) : null,
+      jitter: perturbation?.jitter ?? null,
+      shimmer: perturbation?.shimmer ?? null,
+      highFrequencyRatio: speech.highFrequencyRatio,
+      spectralCentroid: speech.spectralCentroid,
+      level: speech.meanLevel,
+      // Share of the window this speaker held the floor
+      speechRate: speech.speechFrames / window.frames,
+      pitchSpread: pitchHistory.length >= 5 ? standardDeviation(pitchHistory.map(toSemitones)) : null,
+      levelSpread: standardDeviation(speech.levels)
+    };
     
-    // Calculate stress indicators
-    const stressLevel = calculateStressLevel(highFreqEnergy, jitter, shimmer, spectralCentroid);
-    const confidenceLevel = calculateConfidenceLevel(volume, jitter, shimmer);
-    const pitchVariation = calculatePitchVariation(pitchHistory);
-    const speechRate = calculateSpeechRate(voiceHistory);
-    const volumeConsistency = calculateVolumeConsistency(volumeHistory);
+    // The baseline describes the subject, so only attributed subject speech is calibrated and
+    // scored against it; 'unknown' may be the interviewer and keeps the fixed scale
+    const subjectSpeech = speech.speaker === 'subject';
+    if (subjectSpeech && calibrationRef.current) addCalibrationWindow(features);
+    const activeBaseline = subjectSpeech ? baselineRef.current : null;
+    const deviations = activeBaseline ? voiceDeviations(activeBaseline.stats, features) : null;
+    const { stressLevel, confidenceLevel, pitchVariation, speechRate, volumeConsistency } = deviations
+      ? scoreAgainstBaseline(deviations)
+      : scoreOnFixedScale(features);
     
     // Determine emotional state
     const emotionalState = determineEmotionalState(stressLevel, confidenceLevel, pitchVariation, speechRate);
     
+    const windowStart = new Date(source.epochOffsetMs + window.start * 1000).toISOString();
+    const windowEnd = new Date(source.epochOffsetMs + window.end * 1000).toISOString();
     const analysis: VoiceAnalysis = {
       id: `voice_${Date.now()}_${Math.random()}`,
-      timestamp: new Date().toISOString(),
+      timestamp: source.fromFile ? new Date().toISOString() : windowEnd,
+      windowStart,
+      windowEnd,
       stressLevel,
       confidenceLevel,
       pitchVariation,
       speechRate,
       volumeConsistency,
       emotionalState,
-      sessionId
+      sessionId: source.sessionId,
+      speaker: speech.speaker,
+      fundamentalFrequency: f0,
+      jitter: features.jitter,
+      shimmer: features.shimmer,
+      mediaTime: source.fromFile ? window.start : null,
+      baselineId: activeBaseline?.id ?? null,
+      deviations
     };
     
-    setCurrentAnalysis(analysis);
+    // The panel follows the subject; interviewer records are still logged
+    if (speech.speaker !== 'interviewer') setCurrentAnalysis(analysis);
     onVoiceAnalyzed(analysis);
+    
+    if (speech.acoustic && onAcousticFeatures) {
+      onAcousticFeatures({
+        id: `acoustic_${Date.now()}_${Math.random()}`,
+        voiceAnalysisId: analysis.id,
+        timestamp: analysis.timestamp,
+        windowStart,
+        windowEnd,
+        sessionId: source.sessionId,
+        speaker: speech.speaker,
+        mediaTime: analysis.mediaTime,
+        frames: speech.acoustic.frames,
+        fundamentalFrequency: f0,
+        jitter: features.jitter,
+        shimmer: features.shimmer,
+        hnr: speech.acoustic.hnr,
+        formants: speech.acoustic.formants,
+        loudness: speech.acoustic.loudness,
+        spectralFlux: speech.acoustic.spectralFlux,
+        mfcc: speech.acoustic.mfcc
+      });
+    }
   };
 
-  const detectFundamentalFrequency = (frequencyData: Float32Array): number => {
-    let maxIndex = 0;
-    let maxValue = -Infinity;
+  // Runs the live pipeline over a decoded file as fast as the main thread allows
+  const analyzeAudioFile = async (file: File) => {
+    // Live capture and file analysis share the pitch history and the current-analysis panel
+    if (fileRunningRef.current || isListening) return;
+    fileRunningRef.current = true;
+    setAudioFileName(file.name);
+    setAudioFileState('decoding');
+    setAudioFileProgress(0);
+    setAudioFileRecords(0);
+    setAudioFileError('');
     
-    // Look for peak in typical human voice range (80-300 Hz)
-    const startIndex = Math.floor(80 * frequencyData.length / 22050);
-    const endIndex = Math.floor(300 * frequencyData.length / 22050);
-    
-    for (let i = startIndex; i < endIndex && i < frequencyData.length; i++) {
-      if (frequencyData[i] > maxValue) {
-        maxValue = frequencyData[i];
-        maxIndex = i;
+    try {
+      const decoder = new OfflineAudioContext(1, 1, FILE_SAMPLE_RATE);
+      const buffer = await decoder.decodeAudioData(await file.arrayBuffer());
+      const samples = downmix(buffer);
+      
+      const aggregator = createVoiceWindowAggregator({ windowMs, acousticFeatures: extractFeatures });
+      aggregator.setSpeakerProfile(interviewerProfile);
+      pitchHistoryRef.current = new Map();
+      const startedAt = Date.now();
+      const source: WindowSource = { sessionId: `session_${startedAt}`, epochOffsetMs: startedAt, fromFile: true };
+      let records = 0;
+      const emit = (window: VoiceWindow) => {
+        emitWindow(window, source);
+        records += window.speakers.length;
+      };
+      
+      setAudioFileState('analyzing');
+      let frames = 0;
+      for (let end = FRAME_SIZE; end <= samples.length && fileRunningRef.current; end += HOP_SIZE) {
+        const { window } = aggregator.push(samples.subarray(end - FRAME_SIZE, end), buffer.sampleRate, end / buffer.sampleRate);
+        if (window) emit(window);
+        if (++frames % FILE_FRAMES_PER_YIELD === 0) {
+          setAudioFileProgress(end / samples.length);
+          setAudioFileRecords(records);
+          await new Promise(resolve => setTimeout(resolve, 0));
+        }
       }
+      
+      const cancelled = !fileRunningRef.current;
+      const last = aggregator.flush();
+      if (last && !cancelled) emit(last);
+      setAudioFileRecords(records);
+      if (!cancelled) setAudioFileProgress(1);
+      setAudioFileState(cancelled ? 'cancelled' : 'done');
+    } catch (error) {
+      console.error('Audio file analysis error:', error);
+      setAudioFileState('error');
+      setAudioFileError(error instanceof Error ? error.message : 'Could not decode the audio file');
+    } finally {
+      fileRunningRef.current = false;
     }
-    
-    return (maxIndex * 22050) / frequencyData.length;
   };
 
-  const calculateHighFrequencyEnergy = (frequencyData: Float32Array): number => {
-    const highFreqStart = Math.floor(frequencyData.length * 0.6);
-    let energy = 0;
-    
-    for (let i = highFreqStart; i < frequencyData.length; i++) {
-      energy += Math.pow(10, frequencyData[i] / 10);
+  const cancelAudioFile = () => {
+    fileRunningRef.current = false;
+  };
+
+  const downmix = (buffer: AudioBuffer): Float32Array => {
+    if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+    const mono = new Float32Array(buffer.length);
+    for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+      const data = buffer.getChannelData(channel);
+      for (let i = 0; i < data.length; i++) mono[i] += data[i] / buffer.numberOfChannels;
     }
-    
-    return Math.min(energy / (frequencyData.length - highFreqStart), 1);
+    return mono;
   };
 
-  const calculateSpectralCentroid = (frequencyData: Float32Array): number => {
-    let weightedSum = 0;
-    let magnitudeSum = 0;
-    
-    for (let i = 0; i < frequencyData.length; i++) {
-      const magnitude = Math.pow(10, frequencyData[i] / 10);
-      weightedSum += i * magnitude;
-      magnitudeSum += magnitude;
+  const startEnrolment = () => {
+    setEnrolmentError('');
+    aggregatorRef.current?.startEnrolment();
+    setEnrolmentFrames(0);
+  };
+
+  const finishEnrolment = () => {
+    const aggregator = aggregatorRef.current;
+    if (!aggregator) return;
+    const profile = aggregator.finishEnrolment();
+    setEnrolmentFrames(null);
+    if (profile) {
+      setInterviewerProfile(profile);
+    } else {
+      setEnrolmentError('Not enough voiced speech in the sample; ask the interviewer to speak for a few seconds.');
     }
-    
-    return magnitudeSum > 0 ? weightedSum / magnitudeSum : 0;
   };
 
-  const calculateJitter = (pitchHistory: number[], currentPitch: number): number => {
-    if (pitchHistory.length < 3) return 0;
-    
-    const recent = [...pitchHistory.slice(-5), currentPitch];
-    let jitterSum = 0;
-    
-    for (let i = 1; i < recent.length; i++) {
-      jitterSum += Math.abs(recent[i] - recent[i-1]);
+  const clearEnrolment = () => {
+    setInterviewerProfile(null);
+    aggregatorRef.current?.setSpeakerProfile(null);
+    cancelCalibration();
+  };
+
+  const applyBaseline = (next: VoiceBaseline | null) => {
+    baselineRef.current = next;
+    setBaseline(next);
+    if (next) setSubjectName(next.subjectName);
+  };
+
+  const refreshSavedBaselines = async () => {
+    try {
+      setSavedBaselines(await listVoiceBaselines<VoiceBaselineStats>());
+    } catch (error) {
+      console.warn('Could not load voice baselines:', error);
     }
-    
-    return Math.min(jitterSum / (recent.length - 1) / 100, 1);
   };
 
-  const calculateShimmer = (volumeHistory: number[], currentVolume: number): number => {
-    if (volumeHistory.length < 3) return 0;
-    
-    const recent = [...volumeHistory.slice(-5), currentVolume];
-    let shimmerSum = 0;
-    
-    for (let i = 1; i < recent.length; i++) {
-      shimmerSum += Math.abs(recent[i] - recent[i-1]);
+  const startCalibration = () => {
+    // Without an enrolled interviewer no speech is attributed to the subject
+    if (!interviewerProfile) {
+      setCalibrationError('Enrol the interviewer voice first, so calibration only uses the subject\'s speech.');
+      return;
+    }
+    applyBaseline(null);
+    calibrationRef.current = [];
+    setCalibrationWindows(0);
+    setCalibrationError('');
+  };
+
+  const cancelCalibration = () => {
+    calibrationRef.current = null;
+    setCalibrationWindows(null);
+  };
+
+  const addCalibrationWindow = (features: VoiceWindowFeatures) => {
+    const samples = calibrationRef.current;
+    if (!samples) return;
+    samples.push(features);
+    setCalibrationWindows(samples.length);
+    if (samples.length >= Math.ceil(CALIBRATION_SECONDS * 1000 / windowMs)) finishCalibration();
+  };
+
+  const finishCalibration = async () => {
+    const samples = calibrationRef.current;
+    cancelCalibration();
+    const stats = samples ? buildVoiceBaseline(samples) : null;
+    if (!samples || !stats) {
+      setCalibrationError('Not enough subject speech for a baseline; let the subject talk a little longer.');
+      return;
     }
     
-    return Math.min(shimmerSum / (recent.length - 1) / 50, 1);
+    const record: VoiceBaseline = {
+      id: `baseline_${Date.now()}`,
+      subjectName: subjectName.trim() || 'Unnamed subject',
+      sessionId,
+      createdAt: new Date().toISOString(),
+      windowMs,
+      windows: samples.length,
+      stats
+    };
+    applyBaseline(record);
+    try {
+      await saveVoiceBaseline(record);
+      await refreshSavedBaselines();
+    } catch (error) {
+      console.warn('Could not save voice baseline:', error);
+    }
+  };
+
+  const toSemitones = (f0: number) => 12 * Math.log2(f0 / 100);
+
+  const standardDeviation = (values: number[]): number => {
+    if (values.length < 2) return 0;
+    const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
+    return Math.sqrt(values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length);
+  };
+
+  const median = (values: number[]): number | null => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+  };
+
+  // Cycle-weighted mean over the window's voiced frames
+  const calculatePerturbation = (history: CycleMeasures[]): { jitter: number; shimmer: number } | null => {
+    const cycles = history.reduce((sum, item) => sum + item.cycles, 0);
+    if (cycles === 0) return null;
+    return {
+      jitter: history.reduce((sum, item) => sum + item.jitter * item.cycles, 0) / cycles,
+      shimmer: history.reduce((sum, item) => sum + item.shimmer * item.cycles, 0) / cycles
+    };
+  };
+
+  // Healthy sustained voice sits near 0.5% jitter and 3% shimmer; scores saturate at about four times that
+  const jitterScore = (jitter: number) => Math.min(jitter / 0.02, 1);
+  const shimmerScore = (shimmer: number) => Math.min(shimmer / 0.12, 1);
+
+  const scoreOnFixedScale = (features: VoiceWindowFeatures) => {
+    const jitter = features.jitter !== null ? jitterScore(features.jitter) : 0;
+    const shimmer = features.shimmer !== null ? shimmerScore(features.shimmer) : 0;
+    return {
+      stressLevel: calculateStressLevel(features.highFrequencyRatio, jitter, shimmer, features.spectralCentroid),
+      confidenceLevel: calculateConfidenceLevel(features.level, jitter, shimmer),
+      pitchVariation: calculatePitchVariation(features.pitchSpread),
+      speechRate: features.speechRate,
+      volumeConsistency: calculateVolumeConsistency(features.levelSpread)
+    };
+  };
+
+  // Same indicators as the fixed scale, each taken as a rise above the speaker's own norm
+  const scoreAgainstBaseline = (deviations: VoiceDeviations) => {
+    const above = (z: number | null) => (z === null ? 0 : Math.min(Math.max(z / 3, 0), 1));
+    const stressScore = (
+      above(deviations.highFrequencyRatio) * 0.25 +
+      above(deviations.jitter) * 0.2 +
+      above(deviations.shimmer) * 0.2 +
+      above(deviations.spectralCentroid) * 0.15 +
+      above(deviations.pitch) * 0.2
+    );
+    const levelShift = deviations.level !== null ? Math.abs(deviations.level) : null;
+    return {
+      stressLevel: Math.min(Math.max(stressScore, 0), 1),
+      confidenceLevel: (1 - above(levelShift)) * 0.4 + (1 - above(deviations.jitter)) * 0.3 + (1 - above(deviations.shimmer)) * 0.3,
+      pitchVariation: above(deviations.pitchSpread),
+      speechRate: deviations.speechRate !== null ? Math.min(Math.max(0.5 + deviations.speechRate / 6, 0), 1) : 0.5,
+      volumeConsistency: 1 - above(deviations.levelSpread)
+    };
   };
 
   const calculateStressLevel = (highFreqEnergy: number, jitter: number, shimmer: number, spectralCentroid: number): number => {
@@ -236,7 +572,7 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, sessionI
       highFreqEnergy * 0.3 +
       jitter * 0.25 +
       shimmer * 0.25 +
-      (spectralCentroid > 0.6 ? 0.2 : 0)
+      (spectralCentroid > HIGH_CENTROID_HZ ? 0.2 : 0)
     );
     
     return Math.min(Math.max(stressScore, 0), 1);
@@ -250,30 +586,13 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, sessionI
     return Math.min(Math.max(volumeScore + stabilityScore, 0), 1);
   };
 
-  const calculatePitchVariation = (pitchHistory: number[]): number => {
-    if (pitchHistory.length < 5) return 0;
-    
-    const mean = pitchHistory.reduce((sum, val) => sum + val, 0) / pitchHistory.length;
-    const variance = pitchHistory.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / pitchHistory.length;
-    
-    return Math.min(Math.sqrt(variance) / 100, 1);
+  // Spread of voiced F0 in semitones, so the scale is the same for low and high voices
+  const calculatePitchVariation = (pitchSpread: number | null): number => {
+    return pitchSpread !== null ? Math.min(pitchSpread / 6, 1) : 0;
   };
 
-  const calculateSpeechRate = (voiceHistory: number[]): number => {
-    if (voiceHistory.length < 10) return 0.5;
-    
-    // Count speech segments (volume above threshold)
-    const speechSegments = voiceHistory.filter(vol => vol > 10).length;
-    return Math.min(speechSegments / voiceHistory.length, 1);
-  };
-
-  const calculateVolumeConsistency = (volumeHistory: number[]): number => {
-    if (volumeHistory.length < 5) return 1;
-    
-    const mean = volumeHistory.reduce((sum, val) => sum + val, 0) / volumeHistory.length;
-    const variance = volumeHistory.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / volumeHistory.length;
-    
-    return Math.max(1 - (Math.sqrt(variance) / 50), 0);
+  const calculateVolumeConsistency = (levelSpread: number): number => {
+    return Math.max(1 - (levelSpread / 50), 0);
   };
 
   const determineEmotionalState = (stress: number, confidence: number, pitchVar: number, speechRate: number): VoiceAnalysis['emotionalState'] => {
@@ -286,23 +605,15 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, sessionI
   };
 
   useEffect(() => {
-    if (isActive && hasAudioPermission && isListening) {
-      analyzeAudio();
-    }
-    
-    return () => {
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-      }
-    };
-  }, [isActive, hasAudioPermission, isListening]);
-
-  useEffect(() => {
+    refreshSavedBaselines();
     return () => {
-      stopAudio();
+      fileRunningRef.current = false;
+      releaseAudio();
     };
   }, []);
 
+  const fileAnalysing = audioFileState === 'decoding' || audioFileState === 'analyzing';
+
   const getStateColor = (state: string) => {
     const colors = {
       calm: 'text-green-600 bg-green-50',
@@ -334,7 +645,8 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, sessionI
         <div className="mb-4">
           <button
             onClick={initializeAudio}
-            className="w-full bg-blue-600 text-white px-4 py-3 rounded-lg hover:bg-blue-700 flex items-center justify-center"
+            disabled={fileAnalysing}
+            className="w-full bg-blue-600 text-white px-4 py-3 rounded-lg hover:bg-blue-700 flex items-center justify-center disabled:opacity-50"
           >
             <Mic className="w-5 h-5 mr-2" />
             Enable Voice Analysis
@@ -369,8 +681,69 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, sessionI
             </div>
           </div>
 
+          <div className="mb-4 bg-gray-50 p-3 rounded-lg">
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-xs text-gray-600 flex items-center">
+                <UserCheck className="w-4 h-4 mr-1" />
+                Speaker
+              </div>
+              <span className={`px-2 py-0.5 rounded text-xs font-medium ${SPEAKER_COLORS[currentSpeaker ?? 'unknown']}`}>
+                {currentSpeaker ?? 'silence'}
+              </span>
+            </div>
+            {enrolmentFrames !== null ? (
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-gray-700">Interviewer speaking: {enrolmentFrames} voiced frames captured</span>
+                <button
+                  onClick={finishEnrolment}
+                  className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                >
+                  Finish enrolment
+                </button>
+              </div>
+            ) : interviewerProfile ? (
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-gray-700">Interviewer enrolled; stress is measured on the subject's speech only</span>
+                <button
+                  onClick={clearEnrolment}
+                  className="px-2 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                >
+                  Clear
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-center justify-between text-xs">
+                <span className="text-gray-500">No interviewer sample; all speech is analysed</span>
+                <button
+                  onClick={startEnrolment}
+                  disabled={!isListening}
+                  className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Enrol interviewer voice
+                </button>
+              </div>
+            )}
+            {enrolmentError && (
+              <div className="mt-1 text-xs text-red-600">{enrolmentError}</div>
+            )}
+            {recentTurns.length > 0 && (
+              <div className="flex flex-wrap gap-1 mt-2">
+                {recentTurns.map(turn => (
+                  <span key={turn.start} className={`px-1.5 py-0.5 rounded text-xs ${SPEAKER_COLORS[turn.speaker]}`}>
+                    {turn.speaker} {(turn.end - turn.start).toFixed(1)}s
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
           {currentAnalysis && (
             <div className="space-y-3">
+              {currentAnalysis.speaker === 'unknown' && (
+                <div className={`px-3 py-2 rounded-lg text-xs ${SPEAKER_COLORS.unknown}`}>
+                  Unattributed speech: kept out of the subject's voice metrics until an interviewer sample is enrolled
+                </div>
+              )}
               <div className="grid grid-cols-2 gap-3">
                 <div className="bg-gray-50 p-3 rounded-lg">
                   <div className="text-xs text-gray-600 mb-1">Stress Level</div>
@@ -406,6 +779,24 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, sessionI
               </div>
 
               <div className="grid grid-cols-3 gap-2 text-xs">
+                <div className="text-center">
+                  <div className="text-gray-600">Pitch (F0)</div>
+                  <div className="font-semibold">
+                    {currentAnalysis.fundamentalFrequency !== null ? `${currentAnalysis.fundamentalFrequency.toFixed(0)} Hz` : 'unvoiced'}
+                  </div>
+                </div>
+                <div className="text-center">
+                  <div className="text-gray-600">Jitter</div>
+                  <div className="font-semibold">
+                    {currentAnalysis.jitter !== null ? `${(currentAnalysis.jitter * 100).toFixed(2)}%` : '--'}
+                  </div>
+                </div>
+                <div className="text-center">
+                  <div className="text-gray-600">Shimmer</div>
+                  <div className="font-semibold">
+                    {currentAnalysis.shimmer !== null ? `${(currentAnalysis.shimmer * 100).toFixed(2)}%` : '--'}
+                  </div>
+                </div>
                 <div className="text-center">
                   <div className="text-gray-600">Pitch Variation</div>
                   <div className="font-semibold">{(currentAnalysis.pitchVariation * 100).toFixed(0)}%</div>
@@ -422,10 +813,34 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, sessionI
             </div>
           )}
 
-          <div className="mt-4 flex justify-center">
+          <div className="mt-4 flex items-center justify-center space-x-3">
+            <label className="flex items-center text-sm text-gray-600">
+              Window
+              <select
+                value={windowMs}
+                onChange={(e) => setWindowMs(Number(e.target.value))}
+                disabled={isListening}
+                className="ml-2 px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+              >
+                {WINDOW_OPTIONS_MS.map(ms => (
+                  <option key={ms} value={ms}>{ms} ms</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center text-sm text-gray-600" title="MFCCs, spectral flux, HNR, formants and loudness per window">
+              <input
+                type="checkbox"
+                checked={extractFeatures}
+                onChange={(e) => setExtractFeatures(e.target.checked)}
+                disabled={isListening}
+                className="mr-1"
+              />
+              Raw features
+            </label>
             <button
               onClick={isListening ? stopAudio : initializeAudio}
-              className={`flex items-center px-4 py-2 rounded-lg text-white font-medium ${
+              disabled={!isListening && fileAnalysing}
+              className={`flex items-center px-4 py-2 rounded-lg text-white font-medium disabled:opacity-50 ${
                 isListening 
                   ? 'bg-red-600 hover:bg-red-700' 
                   : 'bg-green-600 hover:bg-green-700'
@@ -438,6 +853,171 @@ const AudioAnalyzer: React.FC<AudioAnalyzerProps> = ({ onVoiceAnalyzed, sessionI
         </>
       )}
 
+      <div className="mt-4 bg-gray-50 p-3 rounded-lg">
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-sm text-gray-700 flex items-center">
+            <Gauge className="w-4 h-4 mr-2" />
+            Voice Baseline
+          </div>
+          <span className={`px-2 py-0.5 rounded text-xs font-medium ${
+            baseline ? 'text-green-700 bg-green-50' : calibrationWindows !== null ? 'text-yellow-700 bg-yellow-50' : 'text-gray-700 bg-gray-100'
+          }`}>
+            {baseline ? 'Active' : calibrationWindows !== null ? 'Calibrating' : 'Fixed scale'}
+          </span>
+        </div>
+        {calibrationWindows !== null ? (
+          <div className="text-xs">
+            <div className="text-gray-700 mb-1">
+              Keep the subject talking neutrally: {calibrationWindows} / {Math.ceil(CALIBRATION_SECONDS * 1000 / windowMs)} windows of subject speech
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2 mb-2">
+              <div
+                className="h-2 rounded-full bg-yellow-500 transition-all duration-100"
+                style={{ width: `${Math.min(100, calibrationWindows / Math.ceil(CALIBRATION_SECONDS * 1000 / windowMs) * 100)}%` }}
+              ></div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <button
+                onClick={cancelCalibration}
+                className="px-2 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={finishCalibration}
+                disabled={calibrationWindows < MIN_BASELINE_WINDOWS}
+                className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                Finish now
+              </button>
+            </div>
+          </div>
+        ) : baseline ? (
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-gray-700">
+              {baseline.subjectName} · {new Date(baseline.createdAt).toLocaleDateString()} · {baseline.windows} windows; scores are deviations from this norm
+            </span>
+            <div className="flex space-x-2">
+              <button
+                onClick={startCalibration}
+                disabled={!isListening || !isActive}
+                className="px-2 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+              >
+                Recalibrate
+              </button>
+              <button
+                onClick={() => applyBaseline(null)}
+                className="px-2 py-1 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+              >
+                Clear
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2 text-xs">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={subjectName}
+                onChange={(e) => setSubjectName(e.target.value)}
+                placeholder="Subject name"
+                className="flex-1 px-2 py-1 border border-gray-300 rounded"
+              />
+              <button
+                onClick={startCalibration}
+                disabled={!isListening || !isActive}
+                className="px-2 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                Calibrate now
+              </button>
+            </div>
+            {savedBaselines.length > 0 && (
+              <select
+                value=""
+                onChange={(e) => applyBaseline(savedBaselines.find(item => item.id === e.target.value) ?? null)}
+                className="w-full px-2 py-1 border border-gray-300 rounded"
+              >
+                <option value="">Use a saved baseline…</option>
+                {savedBaselines.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.subjectName} · {new Date(item.createdAt).toLocaleString()}
+                  </option>
+                ))}
+              </select>
+            )}
+            <label className="flex items-center text-gray-600">
+              <input
+                type="checkbox"
+                checked={calibrateAtStart}
+                onChange={(e) => setCalibrateAtStart(e.target.checked)}
+                className="mr-2"
+              />
+              Calibrate at the start of each session
+            </label>
+          </div>
+        )}
+        {calibrationError && (
+          <div className="mt-1 text-xs text-red-600">{calibrationError}</div>
+        )}
+      </div>
+
+      <div className="mt-4 bg-gray-50 p-3 rounded-lg">
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-gray-700 flex items-center truncate">
+            <FileAudio className="w-4 h-4 mr-2 flex-shrink-0" />
+            <span className="truncate">{audioFileName || 'Analyze a recorded audio file'}</span>
+          </div>
+          {audioFileState === 'decoding' || audioFileState === 'analyzing' ? (
+            <button
+              onClick={cancelAudioFile}
+              className="px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700"
+            >
+              Cancel
+            </button>
+          ) : (
+            <label className={`px-3 py-1 bg-blue-600 text-white rounded text-sm inline-flex items-center ${
+              isListening ? 'opacity-50 cursor-not-allowed' : 'hover:bg-blue-700 cursor-pointer'
+            }`}>
+              <Upload className="w-4 h-4 mr-1" />
+              Load Audio
+              <input
+                type="file"
+                accept="audio/*,.wav,.flac,.webm,.ogg,.mp3"
+                className="hidden"
+                disabled={isListening}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) analyzeAudioFile(file);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+          )}
+        </div>
+        {audioFileState !== 'idle' && (
+          <div className="mt-2">
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className={`h-2 rounded-full transition-all duration-100 ${audioFileState === 'error' ? 'bg-red-500' : 'bg-blue-500'}`}
+                style={{ width: `${audioFileProgress * 100}%` }}
+              ></div>
+            </div>
+            <div className="flex justify-between mt-1 text-xs text-gray-600">
+              <span>
+                {audioFileState === 'decoding' ? 'Decoding…' :
+                 audioFileState === 'analyzing' ? `Analyzing ${(audioFileProgress * 100).toFixed(0)}%` :
+                 audioFileState === 'cancelled' ? 'Cancelled' :
+                 audioFileState === 'error' ? audioFileError : 'Done'}
+              </span>
+              <span>{audioFileRecords} records</span>
+            </div>
+          </div>
+        )}
+        {isListening && audioFileState === 'idle' && (
+          <div className="mt-1 text-xs text-gray-500">Stop live analysis to analyze a file</div>
+        )}
+      </div>
+
       <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
         <div className="text-xs text-blue-700">
           <strong>Voice Stress Analysis:</strong> Analyzes vocal patterns including pitch variation, 
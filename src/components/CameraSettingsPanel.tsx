@@ -0,0 +1,122 @@
+import React from 'react';
+import { Settings, RefreshCw } from 'lucide-react';
+import { CameraDevice, CameraSettings, RESOLUTION_PRESETS, FRAME_RATE_OPTIONS } from '../capture/cameraSettings';
+
+interface CameraSettingsPanelProps {
+  devices: CameraDevice[];
+  settings: CameraSettings;
+  // What the camera actually delivers, which can differ from the requested "ideal" mode
+  activeTrackSettings: MediaTrackSettings | null;
+  disabled: boolean;
+  onChange: (settings: CameraSettings) => void;
+  onRefreshDevices: () => void;
+}
+
+const CameraSettingsPanel: React.FC<CameraSettingsPanelProps> = ({
+  devices,
+  settings,
+  activeTrackSettings,
+  disabled,
+  onChange,
+  onRefreshDevices
+}) => {
+  const selectedDeviceMissing = settings.deviceId !== null && !devices.some(device => device.deviceId === settings.deviceId);
+
+  return (
+    <div className="bg-gray-50 p-3 rounded-lg mb-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm font-medium text-gray-700 flex items-center">
+          <Settings className="w-4 h-4 mr-2" />
+          Camera Settings
+        </div>
+        <button
+          onClick={onRefreshDevices}
+          className="text-xs text-blue-600 hover:text-blue-700 inline-flex items-center"
+        >
+          <RefreshCw className="w-3 h-3 mr-1" />
+          Rescan devices
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <label className="flex flex-col">
+          <span className="text-gray-600 mb-1">Camera</span>
+          <select
+            value={settings.deviceId ?? ''}
+            onChange={(e) => onChange({ ...settings, deviceId: e.target.value || null })}
+            disabled={disabled}
+            className="border border-gray-300 rounded px-2 py-1 disabled:opacity-50"
+          >
+            <option value="">System default</option>
+            {devices.map(device => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label}
+              </option>
+            ))}
+            {selectedDeviceMissing && (
+              <option value={settings.deviceId ?? ''}>Saved camera (not connected)</option>
+            )}
+          </select>
+        </label>
+
+        <label className="flex flex-col">
+          <span className="text-gray-600 mb-1">Resolution</span>
+          <select
+            value={`${settings.width}x${settings.height}`}
+            onChange={(e) => {
+              const [width, height] = e.target.value.split('x').map(Number);
+              onChange({ ...settings, width, height });
+            }}
+            disabled={disabled}
+            className="border border-gray-300 rounded px-2 py-1 disabled:opacity-50"
+          >
+            {RESOLUTION_PRESETS.map(preset => (
+              <option key={preset.label} value={`${preset.width}x${preset.height}`}>
+                {preset.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex flex-col">
+          <span className="text-gray-600 mb-1">Frame rate</span>
+          <select
+            value={settings.frameRate}
+            onChange={(e) => onChange({ ...settings, frameRate: Number(e.target.value) })}
+            disabled={disabled}
+            className="border border-gray-300 rounded px-2 py-1 disabled:opacity-50"
+          >
+            {FRAME_RATE_OPTIONS.map(rate => (
+              <option key={rate} value={rate}>{rate} fps</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="flex items-center mt-5">
+          <input
+            type="checkbox"
+            checked={settings.mirror}
+            onChange={(e) => onChange({ ...settings, mirror: e.target.checked })}
+            className="mr-2"
+          />
+          <span className="text-gray-600">Mirror image (selfie view)</span>
+        </label>
+      </div>
+
+      {selectedDeviceMissing && (
+        <div className="text-xs text-orange-600">
+          The saved camera is not connected. It will be used again once it is plugged back in.
+        </div>
+      )}
+
+      {activeTrackSettings && (
+        <div className="text-xs text-gray-500">
+          Active: {activeTrackSettings.width} × {activeTrackSettings.height}
+          {activeTrackSettings.frameRate ? ` @ ${Math.round(activeTrackSettings.frameRate)} fps` : ''}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CameraSettingsPanel;
@@ -1,17 +1,80 @@
-import React, { useState } from 'react';
-import { BarChart3, TrendingUp, Clock, Users, Brain, Eye, AlertTriangle, Target, Activity } from 'lucide-react';
+import React, { useMemo, useRef, useState } from 'react';
+import { BarChart3, TrendingUp, Clock, Users, Brain, Eye, AlertTriangle, Target, Activity, User, Compass, Layers, Upload, Download, Save } from 'lucide-react';
+import { createSessionClock, fuseModalities, FUSION_MODALITIES, ModalityAgreement } from '../analysis/multimodalFusion';
+import {
+  clearSavedRuleSet,
+  DEFAULT_RULE_SET,
+  evaluateRiskRules,
+  loadRuleSet,
+  parseRuleSet,
+  RiskAssessment,
+  RiskRuleSet,
+  RuleRecord,
+  saveRuleSetSource
+} from '../analysis/riskRules';
+
+interface ActionUnitReading {
+  present: boolean;
+  intensity: number;
+  unilateral?: boolean;
+}
+
+interface AffectDimensions {
+  valence: number;
+  arousal: number;
+  dominance: number;
+}
+
+interface FrameQuality {
+  score: number;
+  usable: boolean;
+  brightness: number;
+  contrast: number;
+  sharpness: number;
+  pose: number;
+  faceSize: number;
+  issues: string[];
+}
 
 interface EmotionResult {
   id: string;
   timestamp: string;
-  emotion: string;
+  status: 'classified' | 'no_face' | 'low_quality';
+  emotion: string | null;
   confidence: number;
+  probabilities: { [emotion: string]: number } | null;
+  affect: AffectDimensions | null;
+  quality: FrameQuality | null;
   sessionId: string;
+  modelName: string;
+  modelVersion: string;
+  faceDetected: boolean;
+  subjectId: string | null;
+  mediaTime: number | null;
+  actionUnits: { [code: string]: ActionUnitReading } | null;
+}
+
+type ClassifiedEmotion = EmotionResult & { emotion: string };
+
+interface BehavioralSignals {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  subjectId: string;
+  mediaTime: number | null;
+  headPose: { yaw: number; pitch: number; roll: number };
+  gaze: { yaw: number; pitch: number; direction: 'center' | 'left' | 'right' | 'up' | 'down' } | null;
+  downwardGazeRatio: number;
+  eyeAspectRatio: number;
+  blinkCount: number;
+  blinkRate: number | null;
 }
 
 interface VoiceAnalysis {
   id: string;
   timestamp: string;
+  windowStart: string;
+  windowEnd: string;
   stressLevel: number;
   confidenceLevel: number;
   pitchVariation: number;
@@ -19,15 +82,134 @@ interface VoiceAnalysis {
   volumeConsistency: number;
   emotionalState: 'calm' | 'stressed' | 'confident' | 'uncertain' | 'deceptive' | 'anxious';
   sessionId: string;
+  speaker: 'subject' | 'interviewer' | 'unknown';
+  fundamentalFrequency: number | null;
+  jitter: number | null;
+  shimmer: number | null;
+  mediaTime: number | null;
+  baselineId: string | null;
+  deviations: Record<string, number | null> | null;
+}
+
+interface PhysiologicalSignals {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  subjectId: string;
+  mediaTime: number | null;
+  heartRate: number | null;
+  hrv: { rmssd: number; sdnn: number } | null;
+  signalQuality: number;
+  frameRate: number;
+}
+
+type BehaviorSignal = 'rapidBlinking' | 'downwardGaze' | 'headTiltBack';
+
+// An indicator is observed when all of its Action Units are present in the same frame, or
+// when its behavioural signal is active around that frame; indicators with neither are not measured
+interface ThoughtIndicator {
+  label: string;
+  actionUnits: string[];
+  unilateral?: boolean;
+  signal?: BehaviorSignal;
 }
 
+// Resting blink rates are around 15-20 per minute
+const RAPID_BLINK_RATE = 30;
+
+const BEHAVIOR_SIGNALS: Record<BehaviorSignal, { label: string; active: (signals: BehavioralSignals) => boolean }> = {
+  rapidBlinking: {
+    label: `blink rate > ${RAPID_BLINK_RATE}/min`,
+    active: signals => signals.blinkRate !== null && signals.blinkRate > RAPID_BLINK_RATE
+  },
+  downwardGaze: {
+    label: 'gaze down',
+    active: signals => signals.downwardGazeRatio >= 0.5
+  },
+  headTiltBack: {
+    label: 'pitch > 15°',
+    active: signals => signals.headPose.pitch > 15
+  }
+};
+
+const FUSION_LABELS: Record<ModalityAgreement['status'], { label: string; fill: string }> = {
+  agree: { label: 'agrees', fill: '#16a34a' },
+  conflict: { label: 'conflicts', fill: '#dc2626' },
+  single: { label: 'only modality', fill: '#93c5fd' },
+  missing: { label: 'no data', fill: '#e5e7eb' }
+};
+
+const recordTime = (item: { mediaTime: number | null; timestamp: string }) =>
+  item.mediaTime !== null ? item.mediaTime * 1000 : new Date(item.timestamp).getTime();
+
+const behaviorTrackKey = (item: { sessionId: string; subjectId: string | null; mediaTime: number | null }) =>
+  `${item.sessionId}|${item.subjectId}|${item.mediaTime !== null ? 'media' : 'wall'}`;
+
 interface DashboardProps {
   data: EmotionResult[];
   voiceData: VoiceAnalysis[];
+  behaviorData: BehavioralSignals[];
+  physiologicalData: PhysiologicalSignals[];
+  // Assessments recorded so far, each with the rule-set version that produced it
+  assessments: RiskAssessment[];
+  onRecordAssessment: (assessment: RiskAssessment) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
+const Dashboard: React.FC<DashboardProps> = ({
+  data: allData,
+  voiceData: allVoiceData,
+  behaviorData: allBehaviorData,
+  physiologicalData: allPhysiologicalData,
+  assessments,
+  onRecordAssessment
+}) => {
   const [activeTab, setActiveTab] = useState<'overview' | 'analysis' | 'patterns' | 'insights'>('overview');
+  const [ruleSet, setRuleSet] = useState<RiskRuleSet>(loadRuleSet);
+  const [ruleSetError, setRuleSetError] = useState('');
+  const ruleSetInputRef = useRef<HTMLInputElement>(null);
+  const [selectedSession, setSelectedSession] = useState<string>('all');
+  const [selectedSubject, setSelectedSubject] = useState<string>('all');
+
+  const sessions = Array.from(new Set([...allData.map(item => item.sessionId), ...allVoiceData.map(item => item.sessionId)]));
+
+  // "No face" and low-quality records mark gaps in the visual stream and carry no emotion
+  const sessionData = allData.filter((item): item is ClassifiedEmotion =>
+    item.status === 'classified' && item.emotion !== null &&
+    (selectedSession === 'all' || item.sessionId === selectedSession)
+  );
+  // Subject IDs are assigned per session, so subject filtering requires a session
+  const subjects = Array.from(new Set(sessionData.map(item => item.subjectId).filter((id): id is string => id !== null)));
+
+  const data = sessionData.filter(item => selectedSubject === 'all' || item.subjectId === selectedSubject);
+  // Voice is not attributed to a subject, so it follows the session filter only
+  const sessionVoiceData = allVoiceData.filter(item => selectedSession === 'all' || item.sessionId === selectedSession);
+  // Only speech attributed to the subject feeds the subject's voice metrics; unattributed speech
+  // may be the interviewer and is reported on its own
+  const voiceData = sessionVoiceData.filter(item => item.speaker === 'subject');
+  const unattributedVoiceData = sessionVoiceData.filter(item => item.speaker === 'unknown');
+  const behaviorData = allBehaviorData.filter(item =>
+    (selectedSession === 'all' || item.sessionId === selectedSession) &&
+    (selectedSubject === 'all' || item.subjectId === selectedSubject)
+  );
+
+  const physiologicalData = allPhysiologicalData.filter(item =>
+    (selectedSession === 'all' || item.sessionId === selectedSession) &&
+    (selectedSubject === 'all' || item.subjectId === selectedSubject)
+  );
+
+  const subjectBreakdown = subjects.map(subjectId => {
+    const records = sessionData.filter(item => item.subjectId === subjectId);
+    const counts = records.reduce((acc, item) => {
+      acc[item.emotion] = (acc[item.emotion] || 0) + 1;
+      return acc;
+    }, {} as { [key: string]: number });
+    return {
+      subjectId,
+      count: records.length,
+      dominantEmotion: Object.entries(counts).sort(([,a], [,b]) => b - a)[0]?.[0] || 'neutral',
+      averageConfidence: records.reduce((sum, item) => sum + item.confidence, 0) / records.length
+    };
+  });
   
   const totalSessions = new Set(data.map(item => item.sessionId)).size;
   const averageConfidence = data.length > 0 
@@ -38,10 +220,60 @@ const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
     ? voiceData.reduce((sum, item) => sum + item.stressLevel, 0) / voiceData.length
     : 0;
 
+  const unattributedStressLevel = unattributedVoiceData.length > 0
+    ? unattributedVoiceData.reduce((sum, item) => sum + item.stressLevel, 0) / unattributedVoiceData.length
+    : null;
+
   const averageVoiceConfidence = voiceData.length > 0
     ? voiceData.reduce((sum, item) => sum + item.confidenceLevel, 0) / voiceData.length
     : 0;
 
+  // Points in time order; file-mode records carry a media time, live ones only a wall-clock timestamp
+  const affectPoints = data
+    .filter((item): item is ClassifiedEmotion & { affect: AffectDimensions } => item.affect !== null)
+    .map(item => ({
+      ...item.affect,
+      id: item.id,
+      emotion: item.emotion,
+      time: item.mediaTime !== null ? item.mediaTime * 1000 : new Date(item.timestamp).getTime()
+    }))
+    .sort((a, b) => a.time - b.time);
+  // A single path only makes sense for one subject within one session
+  const showAffectTrajectory = selectedSession !== 'all' && (selectedSubject !== 'all' || subjects.length <= 1);
+  const averageValence = affectPoints.length > 0
+    ? affectPoints.reduce((sum, point) => sum + point.valence, 0) / affectPoints.length
+    : 0;
+  const averageArousal = affectPoints.length > 0
+    ? affectPoints.reduce((sum, point) => sum + point.arousal, 0) / affectPoints.length
+    : 0;
+  // Map [-1, 1] onto the 200x200 plot, arousal pointing up
+  const plotX = (valence: number) => 100 + valence * 90;
+  const plotY = (arousal: number) => 100 - arousal * 90;
+
+  const blinkRates = behaviorData.map(item => item.blinkRate).filter((rate): rate is number => rate !== null);
+  const averageBlinkRate = blinkRates.length > 0
+    ? blinkRates.reduce((sum, rate) => sum + rate, 0) / blinkRates.length
+    : null;
+  const downwardGazeShare = behaviorData.length > 0
+    ? behaviorData.reduce((sum, item) => sum + item.downwardGazeRatio, 0) / behaviorData.length
+    : 0;
+  // Records arrive in time order, so the last one per subject is the current state
+  const latestBehavior = Array.from(behaviorData
+    .reduce((latest, item) => latest.set(`${item.sessionId}:${item.subjectId}`, item), new Map<string, BehavioralSignals>())
+    .values());
+
+  // Streams are only joined on one timeline for one subject within one session
+  const sessionClock = createSessionClock([...data, ...voiceData, ...behaviorData, ...physiologicalData]);
+  const fusedWindows = showAffectTrajectory
+    ? fuseModalities({ face: data, voice: voiceData, behavior: behaviorData, physio: physiologicalData }, sessionClock)
+    : [];
+  const fusionStart = fusedWindows[0]?.start ?? 0;
+  const fusionSpan = Math.max(1, (fusedWindows[fusedWindows.length - 1]?.end ?? 1) - fusionStart);
+  const fusionX = (time: number) => ((time - fusionStart) / fusionSpan) * 1000;
+  const conflictShare = fusedWindows.length > 0
+    ? fusedWindows.filter(window => window.conflict).length / fusedWindows.length
+    : 0;
+
   const recentData = data.slice(-10);
   const recentVoiceData = voiceData.slice(-10);
   const emotionCounts = data.reduce((acc, item) => {
@@ -61,55 +293,146 @@ const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
     .sort(([,a], [,b]) => b - a)[0]?.[0] || 'calm';
 
   // Emotion-to-Thought Analysis Data
-  const emotionToThoughtMapping = {
-    fear: {
+  const emotionToThoughtMapping: { [emotion: string]: {
+    microExpression: string;
+    thoughtInference: string;
+    riskLevel: string;
+    indicators: ThoughtIndicator[];
+  } } = {
+    fearful: {
       microExpression: 'Eye widening',
       thoughtInference: 'Hiding something, worried about exposure',
       riskLevel: 'high',
-      indicators: ['Rapid blinking', 'Pupil dilation', 'Eyebrow flash']
+      indicators: [
+        { label: 'Rapid blinking', actionUnits: [], signal: 'rapidBlinking' },
+        { label: 'Pupil dilation', actionUnits: [] },
+        { label: 'Eyebrow flash', actionUnits: ['AU1', 'AU2'] }
+      ]
     },
     disgusted: {
       microExpression: 'Nose wrinkle',
       thoughtInference: 'Rejecting idea, disagreeing internally',
       riskLevel: 'medium',
-      indicators: ['Upper lip raise', 'Nostril flare', 'Mouth corner down']
+      indicators: [
+        { label: 'Nose wrinkle', actionUnits: ['AU9'] },
+        { label: 'Upper lip raise', actionUnits: ['AU10'] },
+        { label: 'Nostril flare', actionUnits: [] },
+        { label: 'Mouth corner down', actionUnits: ['AU15'] }
+      ]
     },
     contempt: {
       microExpression: 'Half-smile/sneer',
       thoughtInference: "Believes they're smarter, dismissive",
       riskLevel: 'high',
-      indicators: ['Unilateral lip corner raise', 'Eye roll', 'Head tilt back']
+      indicators: [
+        { label: 'Unilateral lip corner raise', actionUnits: ['AU12'], unilateral: true },
+        { label: 'Eye roll', actionUnits: [] },
+        { label: 'Head tilt back', actionUnits: [], signal: 'headTiltBack' }
+      ]
     },
     guilt: {
       microExpression: 'Downward gaze, sigh',
       thoughtInference: 'Regret or knowledge of wrongdoing',
       riskLevel: 'very-high',
-      indicators: ['Shoulder shrug', 'Hand to face', 'Lip compression']
+      indicators: [
+        { label: 'Downward gaze', actionUnits: [], signal: 'downwardGaze' },
+        { label: 'Shoulder shrug', actionUnits: [] },
+        { label: 'Hand to face', actionUnits: [] },
+        { label: 'Lip compression', actionUnits: ['AU24'] }
+      ]
     },
     angry: {
       microExpression: 'Brow tension, jaw clench',
       thoughtInference: 'Defensive, frustrated, possibly lying',
       riskLevel: 'high',
-      indicators: ['Furrowed brow', 'Tight lips', 'Nostril flare']
+      indicators: [
+        { label: 'Furrowed brow', actionUnits: ['AU4'] },
+        { label: 'Tight lips', actionUnits: ['AU23'] },
+        { label: 'Nostril flare', actionUnits: [] }
+      ]
     },
     surprised: {
       microExpression: 'Eyebrow raise, mouth open',
       thoughtInference: 'Unexpected question, caught off guard',
       riskLevel: 'medium',
-      indicators: ['Wide eyes', 'Dropped jaw', 'Forehead wrinkles']
+      indicators: [
+        { label: 'Wide eyes', actionUnits: ['AU5'] },
+        { label: 'Dropped jaw', actionUnits: ['AU26'] },
+        { label: 'Forehead wrinkles', actionUnits: ['AU1', 'AU2'] }
+      ]
     },
     happy: {
       microExpression: 'Genuine smile, eye crinkles',
       thoughtInference: 'Confident, truthful, comfortable',
       riskLevel: 'low',
-      indicators: ['Duchenne smile', 'Eye crinkles', 'Raised cheeks']
+      indicators: [
+        { label: 'Duchenne smile', actionUnits: ['AU6', 'AU12'] },
+        { label: 'Eye crinkles', actionUnits: ['AU6'] },
+        { label: 'Raised cheeks', actionUnits: ['AU6'] }
+      ]
     },
     sad: {
       microExpression: 'Lip corner down, brow furrow',
       thoughtInference: 'Remorse, disappointment, emotional stress',
       riskLevel: 'medium',
-      indicators: ['Drooping eyelids', 'Lip tremor', 'Chin raise']
+      indicators: [
+        { label: 'Drooping eyelids', actionUnits: [] },
+        { label: 'Lip tremor', actionUnits: [] },
+        { label: 'Chin raise', actionUnits: ['AU17'] }
+      ]
+    }
+  };
+
+  // Behaviour per subject and clock, in time order, so each lookup is a binary search;
+  // media and wall-clock times are not comparable, so they never share a track
+  const behaviorTracks = useMemo(() => {
+    const tracks = new Map<string, { time: number; signals: BehavioralSignals }[]>();
+    allBehaviorData.forEach(signals => {
+      const key = behaviorTrackKey(signals);
+      const track = tracks.get(key) ?? [];
+      track.push({ time: recordTime(signals), signals });
+      tracks.set(key, track);
+    });
+    tracks.forEach(track => track.sort((a, b) => a.time - b.time));
+    return tracks;
+  }, [allBehaviorData]);
+
+  // Behaviour summaries cover about a second each; take the nearest one for the same subject
+  const behaviorNear = (item: EmotionResult) => {
+    const track = behaviorTracks.get(behaviorTrackKey(item));
+    if (!track) return null;
+    const time = recordTime(item);
+    // First entry at or after the record's time; the nearest is it or the one before
+    let low = 0;
+    let high = track.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (track[middle].time < time) low = middle + 1;
+      else high = middle;
     }
+    const nearest = [track[low - 1], track[low]]
+      .filter(entry => entry !== undefined && Math.abs(entry.time - time) <= 1500)
+      .sort((a, b) => Math.abs(a.time - time) - Math.abs(b.time - time))[0];
+    return nearest?.signals ?? null;
+  };
+
+  const observeIndicator = (emotion: string, indicator: ThoughtIndicator) => {
+    const signal = indicator.signal;
+    if (signal) {
+      const records = data.filter(item => item.emotion === emotion);
+      const observed = records.filter(item => {
+        const signals = behaviorNear(item);
+        return signals !== null && BEHAVIOR_SIGNALS[signal].active(signals);
+      }).length;
+      return { observed, total: records.length };
+    }
+
+    const records = data.filter(item => item.emotion === emotion && item.actionUnits);
+    const observed = records.filter(item => indicator.actionUnits.every(code => {
+      const reading = item.actionUnits?.[code];
+      return reading?.present && (!indicator.unilateral || reading.unilateral);
+    })).length;
+    return { observed, total: records.length };
   };
 
   const getEmotionColor = (emotion: string) => {
@@ -150,49 +473,88 @@ const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
     return colors[level as keyof typeof colors] || 'text-gray-600 bg-gray-50';
   };
 
-  const calculateDeceptionRisk = () => {
-    const recentEmotions = data.slice(-5);
-    const recentVoice = voiceData.slice(-3);
-    
-    let riskScore = 0;
-    let factors = [];
-
-    // Analyze recent emotions
-    const highRiskEmotions = recentEmotions.filter(e => 
-      ['fear', 'guilt', 'contempt', 'angry'].includes(e.emotion)
-    );
-    if (highRiskEmotions.length > 2) {
-      riskScore += 30;
-      factors.push('Multiple stress emotions detected');
-    }
-
-    // Analyze voice patterns
-    const highStress = recentVoice.filter(v => v.stressLevel > 0.7);
-    if (highStress.length > 1) {
-      riskScore += 25;
-      factors.push('Elevated voice stress patterns');
-    }
-
-    const deceptiveVoice = recentVoice.filter(v => v.emotionalState === 'deceptive');
-    if (deceptiveVoice.length > 0) {
-      riskScore += 35;
-      factors.push('Deceptive voice patterns detected');
-    }
+  // Rules see every stream on one clock: the session clock for a single subject, wall-clock
+  // seconds when sessions or subjects are pooled. Voice windows are placed at their start
+  const toRuleRecords = (items: (EmotionResult | VoiceAnalysis | BehavioralSignals | PhysiologicalSignals)[]): RuleRecord[] =>
+    items.flatMap(item => {
+      const timed = 'windowStart' in item ? { ...item, timestamp: item.windowStart } : item;
+      const time = showAffectTrajectory ? sessionClock(timed) : new Date(timed.timestamp).getTime() / 1000;
+      return time === null ? [] : [{ id: item.id, time, record: item }];
+    });
+  const riskAssessment = evaluateRiskRules(ruleSet, {
+    face: toRuleRecords(data),
+    voice: toRuleRecords(voiceData),
+    behavior: toRuleRecords(behaviorData),
+    physio: toRuleRecords(physiologicalData),
+    fusion: fusedWindows.map(window => ({ id: `fused_${window.start}`, time: window.start, record: window }))
+  }, {
+    sessionId: selectedSession === 'all' ? null : selectedSession,
+    subjectId: selectedSubject === 'all' ? null : selectedSubject,
+    clock: showAffectTrajectory ? 'session' : 'wall'
+  });
+  const firedRules = riskAssessment.trace.filter(rule => rule.fired);
 
-    // Low confidence patterns
-    const lowConfidence = recentVoice.filter(v => v.confidenceLevel < 0.4);
-    if (lowConfidence.length > 1) {
-      riskScore += 20;
-      factors.push('Low confidence indicators');
+  const loadRuleSetFile = async (file: File) => {
+    setRuleSetError('');
+    try {
+      const source = await file.text();
+      setRuleSet(parseRuleSet(source, file.name));
+      saveRuleSetSource(source, file.name);
+    } catch (error) {
+      setRuleSetError(error instanceof Error ? error.message : 'Could not read rule set');
     }
+  };
 
-    return { riskScore: Math.min(riskScore, 100), factors };
+  const resetRuleSet = () => {
+    clearSavedRuleSet();
+    setRuleSet(DEFAULT_RULE_SET);
+    setRuleSetError('');
   };
 
-  const deceptionAnalysis = calculateDeceptionRisk();
+  const exportAssessments = () => {
+    const blob = new Blob([JSON.stringify({ exportedAt: new Date().toISOString(), notes: 'Non-evidence data', assessments }, null, 2)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `risk_assessments_${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
 
   return (
     <div className="space-y-6">
+      {/* Session / Subject Filters */}
+      <div className="flex items-center space-x-4">
+        <select
+          value={selectedSession}
+          onChange={(e) => {
+            setSelectedSession(e.target.value);
+            setSelectedSubject('all');
+          }}
+          className="border border-gray-300 rounded px-3 py-1 text-sm"
+        >
+          <option value="all">All Sessions</option>
+          {sessions.map(session => (
+            <option key={session} value={session}>
+              {session.slice(-8)}
+            </option>
+          ))}
+        </select>
+        <select
+          value={selectedSubject}
+          onChange={(e) => setSelectedSubject(e.target.value)}
+          disabled={selectedSession === 'all'}
+          className="border border-gray-300 rounded px-3 py-1 text-sm disabled:opacity-50"
+        >
+          <option value="all">All Subjects</option>
+          {subjects.map(subject => (
+            <option key={subject} value={subject}>
+              Subject {subject}
+            </option>
+          ))}
+        </select>
+      </div>
+
       {/* Navigation Tabs */}
       <div className="border-b border-gray-200">
         <nav className="-mb-px flex space-x-8">
@@ -280,7 +642,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
               <div className="flex items-center">
                 <AlertTriangle className="w-8 h-8 text-purple-600 mr-3" />
                 <div>
-                  <div className="text-2xl font-bold text-gray-800">{deceptionAnalysis.riskScore}%</div>
+                  <div className="text-2xl font-bold text-gray-800">{riskAssessment.score.toFixed(0)}%</div>
                   <div className="text-sm text-gray-600">Risk Score</div>
                 </div>
               </div>
@@ -336,6 +698,12 @@ const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
                   );
                 })}
               </div>
+              {unattributedStressLevel !== null && (
+                <div className="mt-4 pt-3 border-t text-xs text-gray-600">
+                  Unattributed speech: {unattributedVoiceData.length} windows, {(unattributedStressLevel * 100).toFixed(1)}% avg stress.
+                  Not counted toward the subject until an interviewer sample is enrolled.
+                </div>
+              )}
             </div>
 
             <div className="bg-white p-6 rounded-lg shadow">
@@ -375,6 +743,96 @@ const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
               </div>
             </div>
           </div>
+
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+              <Compass className="w-5 h-5 mr-2 text-blue-600" />
+              Valence–Arousal Space
+            </h3>
+            {affectPoints.length > 0 ? (
+              <div className="flex flex-col md:flex-row md:items-start md:space-x-6">
+                <svg viewBox="0 0 200 200" className="w-full max-w-sm border border-gray-200 rounded bg-gray-50">
+                  <line x1="10" y1="100" x2="190" y2="100" stroke="#d1d5db" strokeWidth="0.5" />
+                  <line x1="100" y1="10" x2="100" y2="190" stroke="#d1d5db" strokeWidth="0.5" />
+                  <text x="188" y="96" fontSize="6" textAnchor="end" fill="#6b7280">pleasant</text>
+                  <text x="12" y="96" fontSize="6" fill="#6b7280">unpleasant</text>
+                  <text x="104" y="16" fontSize="6" fill="#6b7280">activated</text>
+                  <text x="104" y="188" fontSize="6" fill="#6b7280">deactivated</text>
+                  {showAffectTrajectory && affectPoints.length > 1 && (
+                    <polyline
+                      points={affectPoints.map(point => `${plotX(point.valence)},${plotY(point.arousal)}`).join(' ')}
+                      fill="none"
+                      stroke="#93c5fd"
+                      strokeWidth="0.75"
+                    />
+                  )}
+                  {affectPoints.map((point, index) => (
+                    <circle
+                      key={point.id}
+                      cx={plotX(point.valence)}
+                      cy={plotY(point.arousal)}
+                      r="2"
+                      fill="#2563eb"
+                      fillOpacity={0.2 + 0.8 * ((index + 1) / affectPoints.length)}
+                    >
+                      <title>{`${point.emotion}: V ${point.valence.toFixed(2)}, A ${point.arousal.toFixed(2)}, D ${point.dominance.toFixed(2)}`}</title>
+                    </circle>
+                  ))}
+                </svg>
+                <div className="mt-4 md:mt-0 space-y-2 text-sm text-gray-600">
+                  <div>Points: <span className="font-semibold text-gray-800">{affectPoints.length}</span></div>
+                  <div>Mean valence: <span className="font-semibold text-gray-800">{averageValence.toFixed(2)}</span></div>
+                  <div>Mean arousal: <span className="font-semibold text-gray-800">{averageArousal.toFixed(2)}</span></div>
+                  <div className="text-xs text-gray-500 max-w-xs">
+                    {showAffectTrajectory
+                      ? 'The line follows the session in time order; darker points are more recent.'
+                      : 'Select a session (and subject) to draw the trajectory over time.'}
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="text-center py-4 text-gray-500 text-sm">
+                No dimensional affect data yet
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white p-6 rounded-lg shadow">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+              <User className="w-5 h-5 mr-2 text-blue-600" />
+              Per-Subject Breakdown
+            </h3>
+            {selectedSession === 'all' ? (
+              <div className="text-center py-4 text-gray-500 text-sm">
+                Select a session to split results by subject
+              </div>
+            ) : subjectBreakdown.length > 0 ? (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {subjectBreakdown.map(subject => (
+                  <button
+                    key={subject.subjectId}
+                    onClick={() => setSelectedSubject(subject.subjectId)}
+                    className={`text-left p-4 rounded-lg border ${
+                      selectedSubject === subject.subjectId ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="font-semibold text-gray-800 mb-2">Subject {subject.subjectId}</div>
+                    <div className="flex items-center mb-1">
+                      <div className={`w-3 h-3 rounded-full mr-2 ${getEmotionColor(subject.dominantEmotion)}`}></div>
+                      <span className="text-sm text-gray-700 capitalize">{subject.dominantEmotion}</span>
+                    </div>
+                    <div className="text-xs text-gray-600">
+                      {subject.count} detections · {(subject.averageConfidence * 100).toFixed(1)}% avg confidence
+                    </div>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <div className="text-center py-4 text-gray-500 text-sm">
+                No subjects detected in this session
+              </div>
+            )}
+          </div>
         </>
       )}
 
@@ -432,7 +890,7 @@ const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
                   <h4 className="font-medium text-gray-700 mb-3">Detected Emotions & Inferences</h4>
                   <div className="space-y-3">
                     {Object.entries(emotionCounts).map(([emotion, count]) => {
-                      const mapping = emotionToThoughtMapping[emotion as keyof typeof emotionToThoughtMapping];
+                      const mapping = emotionToThoughtMapping[emotion];
                       if (!mapping) return null;
                       
                       return (
@@ -457,20 +915,45 @@ const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
                 <div>
                   <h4 className="font-medium text-gray-700 mb-3">Micro-Expression Indicators</h4>
                   <div className="space-y-3">
-                    {Object.entries(emotionCounts).map(([emotion, count]) => {
-                      const mapping = emotionToThoughtMapping[emotion as keyof typeof emotionToThoughtMapping];
+                    {Object.keys(emotionCounts).map(emotion => {
+                      const mapping = emotionToThoughtMapping[emotion];
                       if (!mapping) return null;
                       
                       return (
                         <div key={emotion} className="p-3 border border-gray-200 rounded-lg">
                           <div className="font-medium capitalize mb-2">{emotion}</div>
                           <div className="space-y-1">
-                            {mapping.indicators.map((indicator, index) => (
-                              <div key={index} className="flex items-center text-sm text-gray-600">
-                                <div className="w-2 h-2 bg-blue-500 rounded-full mr-2"></div>
-                                {indicator}
-                              </div>
-                            ))}
+                            {mapping.indicators.map((indicator, index) => {
+                              if (indicator.actionUnits.length === 0 && !indicator.signal) {
+                                return (
+                                  <div key={index} className="flex items-center justify-between text-sm text-gray-400">
+                                    <div className="flex items-center">
+                                      <div className="w-2 h-2 bg-gray-300 rounded-full mr-2"></div>
+                                      {indicator.label}
+                                    </div>
+                                    <span className="text-xs italic">not measured</span>
+                                  </div>
+                                );
+                              }
+
+                              const { observed, total } = observeIndicator(emotion, indicator);
+                              return (
+                                <div key={index} className={`flex items-center justify-between text-sm ${observed > 0 ? 'text-gray-800' : 'text-gray-400'}`}>
+                                  <div className="flex items-center">
+                                    <div className={`w-2 h-2 rounded-full mr-2 ${observed > 0 ? 'bg-green-500' : 'bg-gray-300'}`}></div>
+                                    {indicator.label}
+                                    <span className="ml-2 text-xs text-gray-500">
+                                      {indicator.signal
+                                        ? BEHAVIOR_SIGNALS[indicator.signal].label
+                                        : `${indicator.unilateral ? 'unilateral ' : ''}${indicator.actionUnits.join('+')}`}
+                                    </span>
+                                  </div>
+                                  <span className="text-xs">
+                                    {observed > 0 ? `observed ${observed}/${total}` : 'not observed'}
+                                  </span>
+                                </div>
+                              );
+                            })}
                           </div>
                         </div>
                       );
@@ -491,6 +974,71 @@ const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
       {/* Behavior Patterns Tab */}
       {activeTab === 'patterns' && (
         <div className="space-y-6">
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+              <Eye className="mr-2 text-indigo-600" />
+              Head Pose, Gaze & Blinking
+            </h3>
+            {behaviorData.length > 0 ? (
+              <>
+                <div className="grid grid-cols-3 gap-4 mb-4">
+                  <div className="text-center p-3 bg-gray-50 rounded-lg">
+                    <div className={`text-2xl font-bold ${
+                      averageBlinkRate !== null && averageBlinkRate > RAPID_BLINK_RATE ? 'text-red-600' : 'text-gray-800'
+                    }`}>
+                      {averageBlinkRate !== null ? averageBlinkRate.toFixed(0) : '--'}
+                    </div>
+                    <div className="text-xs text-gray-600">Blinks / min</div>
+                  </div>
+                  <div className="text-center p-3 bg-gray-50 rounded-lg">
+                    <div className="text-2xl font-bold text-gray-800">{(downwardGazeShare * 100).toFixed(0)}%</div>
+                    <div className="text-xs text-gray-600">Downward gaze</div>
+                  </div>
+                  <div className="text-center p-3 bg-gray-50 rounded-lg">
+                    <div className="text-2xl font-bold text-gray-800">{behaviorData.length}</div>
+                    <div className="text-xs text-gray-600">Samples (~1 s each)</div>
+                  </div>
+                </div>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500 border-b">
+                      <th className="py-2">Subject</th>
+                      <th className="py-2">Yaw</th>
+                      <th className="py-2">Pitch</th>
+                      <th className="py-2">Roll</th>
+                      <th className="py-2">Gaze</th>
+                      <th className="py-2">Blink rate</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {latestBehavior.map(item => (
+                      <tr key={item.id} className="border-b border-gray-100">
+                        <td className="py-2 font-medium">
+                          {item.subjectId}
+                          <span className="ml-2 text-xs text-gray-400">{item.sessionId.slice(-8)}</span>
+                        </td>
+                        <td className="py-2 font-mono">{item.headPose.yaw.toFixed(0)}°</td>
+                        <td className="py-2 font-mono">{item.headPose.pitch.toFixed(0)}°</td>
+                        <td className="py-2 font-mono">{item.headPose.roll.toFixed(0)}°</td>
+                        <td className="py-2 capitalize">{item.gaze?.direction ?? '--'}</td>
+                        <td className="py-2 font-mono">
+                          {item.blinkRate !== null ? `${item.blinkRate.toFixed(0)}/min` : 'collecting'}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <p className="text-xs text-gray-500 mt-3">
+                  Estimated from 2D landmarks and iris position; left/right are as seen on screen.
+                </p>
+              </>
+            ) : (
+              <div className="text-center py-6 text-gray-500 text-sm">
+                No behavioural signals yet. They are recorded while the detector tracks a face.
+              </div>
+            )}
+          </div>
+
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
             <div className="bg-white rounded-lg shadow-lg p-6">
               <h3 className="text-lg font-semibold text-gray-800 mb-4">Emotional Patterns</h3>
@@ -535,30 +1083,90 @@ const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
       {activeTab === 'insights' && (
         <div className="space-y-6">
           <div className="bg-white rounded-lg shadow-lg p-6">
-            <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
-              <Target className="mr-2 text-red-600" />
-              Deception Risk Assessment
-            </h3>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-800 flex items-center">
+                <Target className="mr-2 text-red-600" />
+                Deception Risk Assessment
+              </h3>
+              <div className="flex items-center space-x-2">
+                <span className="text-xs text-gray-600">
+                  Rules: {ruleSet.name} v{ruleSet.version}
+                </span>
+                <input
+                  ref={ruleSetInputRef}
+                  type="file"
+                  accept=".json,.yaml,.yml,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadRuleSetFile(file);
+                    e.target.value = '';
+                  }}
+                />
+                <button
+                  onClick={() => ruleSetInputRef.current?.click()}
+                  className="flex items-center px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+                >
+                  <Upload className="w-4 h-4 mr-1" />
+                  Load rules
+                </button>
+                {ruleSet !== DEFAULT_RULE_SET && (
+                  <button
+                    onClick={resetRuleSet}
+                    className="px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+                  >
+                    Use default
+                  </button>
+                )}
+                <button
+                  onClick={() => onRecordAssessment(riskAssessment)}
+                  className="flex items-center px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                >
+                  <Save className="w-4 h-4 mr-1" />
+                  Record
+                </button>
+              </div>
+            </div>
+
+            {ruleSetError && (
+              <div className="mb-4 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+                {ruleSetError}
+              </div>
+            )}
             
             <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
               <div className="text-center">
                 <div className={`text-4xl font-bold mb-2 ${
-                  deceptionAnalysis.riskScore > 70 ? 'text-red-600' :
-                  deceptionAnalysis.riskScore > 40 ? 'text-yellow-600' : 'text-green-600'
+                  riskAssessment.score > 70 ? 'text-red-600' :
+                  riskAssessment.score > 40 ? 'text-yellow-600' : 'text-green-600'
                 }`}>
-                  {deceptionAnalysis.riskScore}%
+                  {riskAssessment.score.toFixed(0)}%
                 </div>
                 <div className="text-sm text-gray-600">Overall Risk Score</div>
+                {riskAssessment.uncappedScore > riskAssessment.score && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    capped from {riskAssessment.uncappedScore.toFixed(0)}
+                  </div>
+                )}
               </div>
               
               <div className="col-span-2">
                 <h4 className="font-medium text-gray-700 mb-3">Risk Factors Detected:</h4>
                 <div className="space-y-2">
-                  {deceptionAnalysis.factors.length > 0 ? (
-                    deceptionAnalysis.factors.map((factor, index) => (
-                      <div key={index} className="flex items-center p-2 bg-red-50 rounded-lg">
-                        <AlertTriangle className="w-4 h-4 text-red-600 mr-2" />
-                        <span className="text-sm text-red-700">{factor}</span>
+                  {firedRules.length > 0 ? (
+                    firedRules.map(rule => (
+                      <div key={rule.ruleId} className="p-2 bg-red-50 rounded-lg">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center">
+                            <AlertTriangle className="w-4 h-4 text-red-600 mr-2" />
+                            <span className="text-sm text-red-700">{rule.description}</span>
+                          </div>
+                          <span className="text-sm font-medium text-red-700">+{rule.contribution.toFixed(0)}</span>
+                        </div>
+                        <div className="text-xs text-red-600 mt-1 ml-6" title={rule.matchedIds.join('\n')}>
+                          {rule.ruleId}: {rule.matchedIds.length} of {rule.considered} {rule.modality} records matched
+                          {rule.from !== null && rule.to !== null && ` (${rule.from.toFixed(1)}–${rule.to.toFixed(1)} s)`}
+                        </div>
                       </div>
                     ))
                   ) : (
@@ -568,8 +1176,141 @@ const Dashboard: React.FC<DashboardProps> = ({ data, voiceData }) => {
                     </div>
                   )}
                 </div>
+                {riskAssessment.trace.length > firedRules.length && (
+                  <div className="text-xs text-gray-500 mt-2">
+                    Not fired: {riskAssessment.trace
+                      .filter(rule => !rule.fired)
+                      .map(rule => `${rule.ruleId} (${rule.matchedIds.length}/${rule.considered})`)
+                      .join(', ')}
+                  </div>
+                )}
               </div>
             </div>
+
+            {assessments.length > 0 && (
+              <div className="mt-6 border-t border-gray-100 pt-4">
+                <div className="flex items-center justify-between mb-2">
+                  <h4 className="font-medium text-gray-700">Recorded Assessments</h4>
+                  <button
+                    onClick={exportAssessments}
+                    className="flex items-center px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+                  >
+                    <Download className="w-4 h-4 mr-1" />
+                    Export JSON
+                  </button>
+                </div>
+                <div className="space-y-1 max-h-40 overflow-y-auto">
+                  {[...assessments].reverse().map(assessment => (
+                    <div key={assessment.id} className="flex items-center justify-between text-sm text-gray-700">
+                      <span>{new Date(assessment.assessedAt).toLocaleTimeString()}</span>
+                      <span className="text-xs text-gray-500">
+                        {assessment.scope.sessionId ? `Session ${assessment.scope.sessionId.slice(-8)}` : 'All sessions'}
+                        {assessment.scope.subjectId ? ` · ${assessment.scope.subjectId}` : ''}
+                      </span>
+                      <span className="font-medium">{assessment.score.toFixed(0)}%</span>
+                      <span className="text-xs text-gray-500">
+                        {assessment.trace.filter(rule => rule.fired).map(rule => rule.ruleId).join(', ') || 'no rules fired'}
+                      </span>
+                      <span className="text-xs text-gray-500">{assessment.ruleSet.name} v{assessment.ruleSet.version}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h3 className="text-lg font-semibold text-gray-800 mb-4 flex items-center">
+              <Layers className="mr-2 text-indigo-600" />
+              Multimodal Fusion
+            </h3>
+
+            {fusedWindows.length > 0 ? (
+              <>
+                <div className="grid grid-cols-3 gap-4 mb-4 text-center">
+                  <div>
+                    <div className="text-2xl font-bold text-gray-800">{fusedWindows.length}</div>
+                    <div className="text-xs text-gray-600">windows ({(fusedWindows[0].end - fusedWindows[0].start).toFixed(0)} s)</div>
+                  </div>
+                  <div>
+                    <div className="text-2xl font-bold text-gray-800">
+                      {fusedWindows[fusedWindows.length - 1].arousal.toFixed(2)}
+                    </div>
+                    <div className="text-xs text-gray-600">latest fused arousal</div>
+                  </div>
+                  <div>
+                    <div className={`text-2xl font-bold ${conflictShare > 0.3 ? 'text-red-600' : 'text-gray-800'}`}>
+                      {(conflictShare * 100).toFixed(0)}%
+                    </div>
+                    <div className="text-xs text-gray-600">windows with conflicting modalities</div>
+                  </div>
+                </div>
+
+                <div className="flex">
+                  <div className="w-20 shrink-0 text-xs text-gray-500">
+                    <div className="h-10 flex items-center">Arousal</div>
+                    {FUSION_MODALITIES.map(modality => (
+                      <div key={modality} className="h-4 flex items-center capitalize">{modality}</div>
+                    ))}
+                  </div>
+                  <div className="flex-1">
+                    <svg viewBox="0 0 1000 40" preserveAspectRatio="none" className="block w-full h-10 bg-gray-50">
+                      <line x1={0} x2={1000} y1={20} y2={20} stroke="#d1d5db" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+                      {fusedWindows.map(window => (
+                        <rect
+                          key={window.start}
+                          x={fusionX(window.start)}
+                          width={Math.max(1, fusionX(window.end) - fusionX(window.start))}
+                          y={window.arousal >= 0 ? 20 - window.arousal * 18 : 20}
+                          height={Math.max(0.5, Math.abs(window.arousal) * 18)}
+                          fill={window.arousal >= 0 ? '#f97316' : '#3b82f6'}
+                          opacity={0.3 + 0.7 * window.confidence}
+                        >
+                          <title>{`${window.start.toFixed(0)}–${window.end.toFixed(0)} s: arousal ${window.arousal.toFixed(2)}${window.valence !== null ? `, valence ${window.valence.toFixed(2)}` : ''}, confidence ${(window.confidence * 100).toFixed(0)}%`}</title>
+                        </rect>
+                      ))}
+                    </svg>
+                    {FUSION_MODALITIES.map(modality => (
+                      <svg key={modality} viewBox="0 0 1000 16" preserveAspectRatio="none" className="block w-full h-4 bg-gray-50 border-t border-white">
+                        {fusedWindows.map(window => {
+                          const { status, divergence } = window.agreement[modality];
+                          return (
+                            <rect
+                              key={window.start}
+                              x={fusionX(window.start)}
+                              width={Math.max(1, fusionX(window.end) - fusionX(window.start))}
+                              y={2}
+                              height={12}
+                              fill={FUSION_LABELS[status].fill}
+                            >
+                              <title>{`${modality} ${FUSION_LABELS[status].label}${divergence !== null ? ` (${divergence >= 0 ? '+' : ''}${divergence.toFixed(2)})` : ''}`}</title>
+                            </rect>
+                          );
+                        })}
+                      </svg>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-3 mt-3 text-xs text-gray-600">
+                  {Object.values(FUSION_LABELS).map(({ label, fill }) => (
+                    <div key={label} className="flex items-center">
+                      <span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: fill }} />
+                      {label}
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="text-center py-8 text-gray-500">
+                <Layers className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                <p>
+                  {showAffectTrajectory
+                    ? 'No records to fuse yet'
+                    : 'Select a session and subject to fuse face, voice, behaviour and pulse on one timeline'}
+                </p>
+              </div>
+            )}
           </div>
 
           <div className="bg-red-50 border border-red-200 rounded-lg p-4">
@@ -1,17 +1,80 @@
-import React, { useState, useEffect } from 'react';
-import { Database, Download, Trash2, Eye, Shield } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Database, Download, Trash2, Eye, Shield, Zap, HeartPulse, FileText, Upload } from 'lucide-react';
+import { overlapsInterval, parseTranscript, SessionTranscript } from '../analysis/transcript';
+import { formatMediaTime } from '../analysis/timeline';
+
+interface ActionUnitReading {
+  present: boolean;
+  intensity: number;
+  unilateral?: boolean;
+}
+
+interface AffectDimensions {
+  valence: number;
+  arousal: number;
+  dominance: number;
+}
+
+interface FrameQuality {
+  score: number;
+  usable: boolean;
+  brightness: number;
+  contrast: number;
+  sharpness: number;
+  pose: number;
+  faceSize: number;
+  issues: string[];
+}
 
 interface EmotionResult {
   id: string;
   timestamp: string;
-  emotion: string;
+  status: 'classified' | 'no_face' | 'low_quality';
+  emotion: string | null;
   confidence: number;
+  probabilities: { [emotion: string]: number } | null;
+  affect: AffectDimensions | null;
+  quality: FrameQuality | null;
+  sessionId: string;
+  modelName: string;
+  modelVersion: string;
+  faceDetected: boolean;
+  subjectId: string | null;
+  mediaTime: number | null;
+  actionUnits: { [code: string]: ActionUnitReading } | null;
+}
+
+interface MicroExpressionEvent {
+  id: string;
+  timestamp: string;
   sessionId: string;
+  subjectId: string;
+  clock: 'epoch' | 'media';
+  onsetTime: number;
+  apexTime: number;
+  offsetTime: number;
+  durationMs: number;
+  peakIntensity: number;
+  region: 'brows' | 'eyes' | 'nose' | 'mouth';
+}
+
+interface PhysiologicalSignals {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  subjectId: string;
+  mediaTime: number | null;
+  heartRate: number | null;
+  hrv: { rmssd: number; sdnn: number } | null;
+  signalQuality: number;
+  frameRate: number;
 }
 
 interface VoiceAnalysis {
   id: string;
   timestamp: string;
+  windowStart: string;
+  windowEnd: string;
   stressLevel: number;
   confidenceLevel: number;
   pitchVariation: number;
@@ -19,49 +82,244 @@ interface VoiceAnalysis {
   volumeConsistency: number;
   emotionalState: 'calm' | 'stressed' | 'confident' | 'uncertain' | 'deceptive' | 'anxious';
   sessionId: string;
+  speaker: 'subject' | 'interviewer' | 'unknown';
+  fundamentalFrequency: number | null;
+  jitter: number | null;
+  shimmer: number | null;
+  mediaTime: number | null;
+  baselineId: string | null;
+  deviations: Record<string, number | null> | null;
+}
+
+interface AcousticFeatureRecord {
+  id: string;
+  voiceAnalysisId: string;
+  timestamp: string;
+  windowStart: string;
+  windowEnd: string;
+  sessionId: string;
+  speaker: 'subject' | 'interviewer' | 'unknown';
+  mediaTime: number | null;
+  frames: number;
+  fundamentalFrequency: number | null;
+  jitter: number | null;
+  shimmer: number | null;
+  hnr: number | null;
+  formants: (number | null)[];
+  loudness: number;
+  spectralFlux: number;
+  mfcc: number[];
 }
 
 interface DataLoggerProps {
   data: EmotionResult[];
   voiceData: VoiceAnalysis[];
-  onClearData: () => void;
+  microExpressionData: MicroExpressionEvent[];
+  physiologicalData: PhysiologicalSignals[];
+  // Raw acoustic parameters, exported separately as a wide per-window table
+  acousticData?: AcousticFeatureRecord[];
+  transcripts?: SessionTranscript[];
+  // Omitted for read-only views; imports attach to the selected session
+  onImportTranscript?: (transcript: SessionTranscript) => void;
+  // Omitted for read-only views such as the review player
+  onClearData?: () => void;
+  // Row to highlight and keep in view, e.g. the record under the playhead
+  highlightedId?: string | null;
 }
 
-const DataLogger: React.FC<DataLoggerProps> = ({ data, voiceData, onClearData }) => {
+// Same line the review player draws on its stress track
+const HIGH_STRESS = 0.7;
+
+const DataLogger: React.FC<DataLoggerProps> = ({
+  data,
+  voiceData,
+  microExpressionData,
+  physiologicalData,
+  acousticData,
+  transcripts,
+  onImportTranscript,
+  onClearData,
+  highlightedId
+}) => {
+  const rowRefs = useRef(new Map<string, HTMLDivElement>());
+  const transcriptInputRef = useRef<HTMLInputElement>(null);
   const [selectedSession, setSelectedSession] = useState<string>('all');
+  const [selectedSubject, setSelectedSubject] = useState<string>('all');
   const [filteredData, setFilteredData] = useState<EmotionResult[]>([]);
   const [filteredVoiceData, setFilteredVoiceData] = useState<VoiceAnalysis[]>([]);
-  const [activeDataType, setActiveDataType] = useState<'emotion' | 'voice' | 'combined'>('combined');
+  const [filteredMicroData, setFilteredMicroData] = useState<MicroExpressionEvent[]>([]);
+  const [filteredPhysioData, setFilteredPhysioData] = useState<PhysiologicalSignals[]>([]);
+  const [activeDataType, setActiveDataType] = useState<'emotion' | 'voice' | 'micro' | 'physio' | 'combined'>('combined');
+  // Seconds added to every cue, for transcripts timed from a different origin than the recording
+  const [transcriptOffset, setTranscriptOffset] = useState(0);
+  const [transcriptError, setTranscriptError] = useState('');
 
   const sessions = Array.from(new Set([...data.map(item => item.sessionId), ...voiceData.map(item => item.sessionId)]));
+  // Subject IDs are assigned per session, so they are only listed once a session is selected
+  const subjects = selectedSession === 'all' ? [] : Array.from(new Set(
+    data
+      .filter(item => item.sessionId === selectedSession)
+      .map(item => item.subjectId)
+      .filter((id): id is string => id !== null)
+  ));
 
   useEffect(() => {
     if (selectedSession === 'all') {
       setFilteredData(data);
       setFilteredVoiceData(voiceData);
+      setFilteredMicroData(microExpressionData);
+      setFilteredPhysioData(physiologicalData);
     } else {
-      setFilteredData(data.filter(item => item.sessionId === selectedSession));
+      setFilteredData(data.filter(item =>
+        item.sessionId === selectedSession &&
+        (selectedSubject === 'all' || item.subjectId === selectedSubject)
+      ));
       setFilteredVoiceData(voiceData.filter(item => item.sessionId === selectedSession));
+      setFilteredMicroData(microExpressionData.filter(item =>
+        item.sessionId === selectedSession &&
+        (selectedSubject === 'all' || item.subjectId === selectedSubject)
+      ));
+      setFilteredPhysioData(physiologicalData.filter(item =>
+        item.sessionId === selectedSession &&
+        (selectedSubject === 'all' || item.subjectId === selectedSubject)
+      ));
+    }
+  }, [data, voiceData, microExpressionData, physiologicalData, selectedSession, selectedSubject]);
+
+  useEffect(() => {
+    if (highlightedId) {
+      rowRefs.current.get(highlightedId)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
     }
-  }, [data, voiceData, selectedSession]);
+  }, [highlightedId]);
+
+  const filteredAcousticData = (acousticData ?? []).filter(item => selectedSession === 'all' || item.sessionId === selectedSession);
+  const transcript = (transcripts ?? []).find(item => item.sessionId === selectedSession) ?? null;
+
+  const importTranscript = async (file: File) => {
+    setTranscriptError('');
+    try {
+      const { format, cues } = parseTranscript(await file.text(), file.name);
+      if (cues.length === 0) {
+        setTranscriptError(`No transcript segments found in ${file.name}`);
+        return;
+      }
+      onImportTranscript?.({
+        id: `transcript_${Date.now()}`,
+        sessionId: selectedSession,
+        fileName: file.name,
+        format,
+        importedAt: new Date().toISOString(),
+        cues
+      });
+      setTranscriptOffset(0);
+    } catch (error) {
+      setTranscriptError(error instanceof Error ? error.message : 'Could not read transcript');
+    }
+  };
+
+  // Cues are timed against the recording, so records are placed by media time; sessions without
+  // a recording fall back to seconds since their first record
+  const alignedCues = useMemo(() => {
+    const cues = transcript?.cues ?? [];
+    if (cues.length === 0) return [];
+
+    const timed = [...filteredData, ...filteredVoiceData];
+    const hasMediaTime = timed.some(item => item.mediaTime !== null);
+    const sessionStart = Math.min(...timed.map(item => new Date(item.timestamp).getTime()));
+    const sessionTime = (item: { mediaTime: number | null; timestamp: string }) =>
+      hasMediaTime ? item.mediaTime : (new Date(item.timestamp).getTime() - sessionStart) / 1000;
+
+    const timedEmotions = filteredData.flatMap(item => {
+      const time = sessionTime(item);
+      return time === null || item.emotion === null ? [] : [{ start: time, end: time, emotion: item.emotion }];
+    });
+    const timedStress = filteredVoiceData
+      .filter(item => item.speaker === 'subject')
+      .flatMap(item => {
+        // timestamp is the window end; the interval starts at the window start
+        const time = sessionTime({ ...item, timestamp: item.windowStart });
+        const duration = (new Date(item.windowEnd).getTime() - new Date(item.windowStart).getTime()) / 1000;
+        return time === null ? [] : [{ start: time, end: time + duration, stress: item.stressLevel }];
+      });
+
+    return cues.map(cue => {
+      const start = cue.start + transcriptOffset;
+      const end = cue.end + transcriptOffset;
+      const emotions = timedEmotions.filter(record => overlapsInterval(record, start, end));
+      const stress = timedStress.filter(record => overlapsInterval(record, start, end)).map(record => record.stress);
+      const emotionCounts = emotions.reduce((acc, record) => {
+        acc[record.emotion] = (acc[record.emotion] || 0) + 1;
+        return acc;
+      }, {} as { [key: string]: number });
+
+      return {
+        ...cue,
+        start,
+        end,
+        emotions: Object.entries(emotionCounts).sort((a, b) => b[1] - a[1]),
+        meanStress: stress.length > 0 ? stress.reduce((sum, value) => sum + value, 0) / stress.length : null,
+        peakStress: stress.length > 0 ? Math.max(...stress) : null,
+        // Words move with their cue, so exports and tooltips carry the shifted times
+        words: cue.words.map(word => {
+          const wordStart = word.start + transcriptOffset;
+          const wordEnd = word.end + transcriptOffset;
+          const wordStress = timedStress
+            .filter(record => overlapsInterval(record, wordStart, wordEnd))
+            .map(record => record.stress);
+          return { ...word, start: wordStart, end: wordEnd, stressed: wordStress.length > 0 && Math.max(...wordStress) >= HIGH_STRESS };
+        })
+      };
+    });
+  }, [transcript, transcriptOffset, filteredData, filteredVoiceData]);
+
+  // Semicolons keep the z-scores in one CSV cell
+  const formatDeviations = (deviations: VoiceAnalysis['deviations']) => deviations
+    ? Object.entries(deviations).filter(([, z]) => z !== null).map(([feature, z]) => `${feature}=${(z as number).toFixed(2)}`).join(';')
+    : '';
 
   const exportData = () => {
     let csvContent = '';
     
     if (activeDataType === 'emotion' || activeDataType === 'combined') {
-      csvContent += 'Type,Timestamp,Session ID,Emotion,Confidence,Notes\n';
+      // One column per class seen in the exported records, so mixed model taxonomies stay aligned
+      const probabilityLabels = Array.from(new Set(filteredData.flatMap(item => Object.keys(item.probabilities ?? {}))));
+      csvContent += `Type,Timestamp,Media Time (s),Session ID,Subject ID,Status,Emotion,Confidence,${probabilityLabels.map(label => `P(${label}),`).join('')}Valence,Arousal,Dominance,Quality,Quality Issues,Model,Model Version,Action Units,Notes\n`;
       csvContent += filteredData.map(item => 
-        `Emotion,${item.timestamp},${item.sessionId},${item.emotion},${(item.confidence * 100).toFixed(1)}%,Non-evidence data`
+        `Emotion,${item.timestamp},${item.mediaTime !== null ? item.mediaTime.toFixed(3) : ''},${item.sessionId},${item.subjectId ?? ''},${item.status},${item.emotion ?? ''},${(item.confidence * 100).toFixed(1)}%,${probabilityLabels.map(label => `${item.probabilities?.[label]?.toFixed(4) ?? ''},`).join('')}${item.affect?.valence.toFixed(4) ?? ''},${item.affect?.arousal.toFixed(4) ?? ''},${item.affect?.dominance.toFixed(4) ?? ''},${item.quality?.score.toFixed(3) ?? ''},${item.quality?.issues.join(';') ?? ''},${item.modelName},${item.modelVersion},${formatActionUnits(item.actionUnits)},Non-evidence data`
       ).join('\n');
     }
     
     if (activeDataType === 'voice' || activeDataType === 'combined') {
       if (csvContent) csvContent += '\n';
       if (activeDataType === 'voice') {
-        csvContent += 'Type,Timestamp,Session ID,Emotional State,Stress Level,Confidence Level,Pitch Variation,Speech Rate,Volume Consistency,Notes\n';
+        csvContent += 'Type,Timestamp,Window Start,Window End,Media Time (s),Session ID,Speaker,Emotional State,Stress Level,Confidence Level,Pitch Variation,F0 (Hz),Jitter,Shimmer,Speech Rate,Volume Consistency,Baseline ID,Deviations (z),Notes\n';
       }
       csvContent += filteredVoiceData.map(item => 
-        `Voice,${item.timestamp},${item.sessionId},${item.emotionalState},${(item.stressLevel * 100).toFixed(1)}%,${(item.confidenceLevel * 100).toFixed(1)}%,${(item.pitchVariation * 100).toFixed(1)}%,${(item.speechRate * 100).toFixed(1)}%,${(item.volumeConsistency * 100).toFixed(1)}%,Non-evidence data`
+        `Voice,${item.timestamp},${item.windowStart},${item.windowEnd},${item.mediaTime !== null ? item.mediaTime.toFixed(3) : ''},${item.sessionId},${item.speaker},${item.emotionalState},${(item.stressLevel * 100).toFixed(1)}%,${(item.confidenceLevel * 100).toFixed(1)}%,${(item.pitchVariation * 100).toFixed(1)}%,${item.fundamentalFrequency !== null ? item.fundamentalFrequency.toFixed(1) : ''},${item.jitter !== null ? (item.jitter * 100).toFixed(2) + '%' : ''},${item.shimmer !== null ? (item.shimmer * 100).toFixed(2) + '%' : ''},${(item.speechRate * 100).toFixed(1)}%,${(item.volumeConsistency * 100).toFixed(1)}%,${item.baselineId ?? ''},${formatDeviations(item.deviations)},Non-evidence data`
+      ).join('\n');
+    }
+
+    if (activeDataType === 'micro' || activeDataType === 'combined') {
+      if (csvContent) csvContent += '\n';
+      csvContent += 'Type,Timestamp,Clock,Session ID,Subject ID,Onset (ms),Apex (ms),Offset (ms),Duration (ms),Peak Intensity,Region,Notes\n';
+      csvContent += filteredMicroData.map(item =>
+        `MicroExpression,${item.timestamp},${item.clock},${item.sessionId},${item.subjectId},${item.onsetTime.toFixed(0)},${item.apexTime.toFixed(0)},${item.offsetTime.toFixed(0)},${item.durationMs.toFixed(0)},${item.peakIntensity.toFixed(4)},${item.region},Non-evidence data`
+      ).join('\n');
+    }
+
+    if (activeDataType === 'physio' || activeDataType === 'combined') {
+      if (csvContent) csvContent += '\n';
+      csvContent += 'Type,Timestamp,Media Time (s),Session ID,Subject ID,Heart Rate (bpm),RMSSD (ms),SDNN (ms),Signal Quality,Frame Rate (fps),Notes\n';
+      csvContent += filteredPhysioData.map(item =>
+        `Physiological,${item.timestamp},${item.mediaTime !== null ? item.mediaTime.toFixed(3) : ''},${item.sessionId},${item.subjectId},${item.heartRate?.toFixed(1) ?? ''},${item.hrv?.rmssd.toFixed(1) ?? ''},${item.hrv?.sdnn.toFixed(1) ?? ''},${item.signalQuality.toFixed(3)},${item.frameRate.toFixed(1)},Non-evidence data`
+      ).join('\n');
+    }
+
+    if (activeDataType === 'combined' && transcript) {
+      if (csvContent) csvContent += '\n';
+      csvContent += 'Type,Start (s),End (s),Session ID,Speaker,Text,Emotions,Mean Stress,Peak Stress,Notes\n';
+      csvContent += alignedCues.map(cue =>
+        `Transcript,${cue.start.toFixed(3)},${cue.end.toFixed(3)},${transcript.sessionId},${cue.speaker ?? ''},"${cue.text.replace(/"/g, '""')}",${cue.emotions.map(([emotion, count]) => `${emotion}:${count}`).join(';')},${cue.meanStress !== null ? (cue.meanStress * 100).toFixed(1) + '%' : ''},${cue.peakStress !== null ? (cue.peakStress * 100).toFixed(1) + '%' : ''},Non-evidence data`
       ).join('\n');
     }
 
@@ -74,6 +332,73 @@ const DataLogger: React.FC<DataLoggerProps> = ({ data, voiceData, onClearData })
     window.URL.revokeObjectURL(url);
   };
 
+  const exportJson = () => {
+    const payload = {
+      exportedAt: new Date().toISOString(),
+      notes: 'Non-evidence data',
+      emotion: activeDataType === 'emotion' || activeDataType === 'combined' ? filteredData : [],
+      voice: activeDataType === 'voice' || activeDataType === 'combined' ? filteredVoiceData : [],
+      microExpressions: activeDataType === 'micro' || activeDataType === 'combined' ? filteredMicroData : [],
+      physiological: activeDataType === 'physio' || activeDataType === 'combined' ? filteredPhysioData : [],
+      acousticFeatures: activeDataType === 'voice' || activeDataType === 'combined' ? filteredAcousticData : [],
+      transcript: activeDataType === 'combined' && transcript
+        ? { ...transcript, offset: transcriptOffset, cues: alignedCues }
+        : null
+    };
+
+    const blob = new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `multimodal_analysis_${new Date().toISOString().split('T')[0]}.json`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  // One row per speaker window and one column per parameter, ready for external modelling tools
+  const exportAcousticFeatures = () => {
+    const mfccCount = Math.max(0, ...filteredAcousticData.map(item => item.mfcc.length));
+    const formantCount = Math.max(0, ...filteredAcousticData.map(item => item.formants.length));
+    const number = (value: number | null, digits: number) => (value !== null ? value.toFixed(digits) : '');
+    const header = [
+      'voice_analysis_id', 'window_start', 'window_end', 'media_time_s', 'session_id', 'speaker', 'frames',
+      'f0_hz', 'jitter_local', 'shimmer_local', 'hnr_db',
+      ...Array.from({ length: formantCount }, (_, i) => `f${i + 1}_hz`),
+      'loudness', 'spectral_flux',
+      ...Array.from({ length: mfccCount }, (_, i) => `mfcc_${i}`)
+    ];
+    const rows = filteredAcousticData.map(item => [
+      item.voiceAnalysisId, item.windowStart, item.windowEnd, number(item.mediaTime, 3), item.sessionId, item.speaker, item.frames,
+      number(item.fundamentalFrequency, 2), number(item.jitter, 5), number(item.shimmer, 5), number(item.hnr, 2),
+      ...Array.from({ length: formantCount }, (_, i) => number(item.formants[i] ?? null, 1)),
+      item.loudness.toFixed(5), item.spectralFlux.toFixed(6),
+      ...Array.from({ length: mfccCount }, (_, i) => number(item.mfcc[i] ?? null, 4))
+    ].join(','));
+
+    const blob = new Blob([[header.join(','), ...rows].join('\n')], { type: 'text/csv' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `acoustic_features_${new Date().toISOString().split('T')[0]}.csv`;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  // Present AUs only, e.g. "AU6:2.1;AU12U:3.4" (U = unilateral)
+  const formatActionUnits = (actionUnits: EmotionResult['actionUnits']) => {
+    if (!actionUnits) return '';
+    return Object.entries(actionUnits)
+      .filter(([, reading]) => reading.present)
+      .map(([code, reading]) => `${code}${reading.unilateral ? 'U' : ''}:${reading.intensity.toFixed(1)}`)
+      .join(';');
+  };
+
+  const formatEventTime = (time: number, clock: MicroExpressionEvent['clock']) => {
+    if (clock === 'media') return `@ ${formatMediaTime(time / 1000)}`;
+    const date = new Date(time);
+    return `${date.toLocaleTimeString()}.${String(date.getMilliseconds()).padStart(3, '0')}`;
+  };
+
   const getEmotionColor = (emotion: string) => {
     const colors: { [key: string]: string } = {
       happy: 'text-green-600 bg-green-50',
@@ -82,7 +407,9 @@ const DataLogger: React.FC<DataLoggerProps> = ({ data, voiceData, onClearData })
       fearful: 'text-purple-600 bg-purple-50',
       surprised: 'text-yellow-600 bg-yellow-50',
       disgusted: 'text-orange-600 bg-orange-50',
-      neutral: 'text-gray-600 bg-gray-50'
+      neutral: 'text-gray-600 bg-gray-50',
+      no_face: 'text-gray-400 bg-gray-100',
+      low_quality: 'text-amber-700 bg-amber-50'
     };
     return colors[emotion] || 'text-gray-600 bg-gray-50';
   };
@@ -100,7 +427,8 @@ const DataLogger: React.FC<DataLoggerProps> = ({ data, voiceData, onClearData })
   };
 
   const emotionStats = filteredData.reduce((acc, item) => {
-    acc[item.emotion] = (acc[item.emotion] || 0) + 1;
+    const key = item.emotion ?? item.status;
+    acc[key] = (acc[key] || 0) + 1;
     return acc;
   }, {} as { [key: string]: number });
 
@@ -132,6 +460,8 @@ const DataLogger: React.FC<DataLoggerProps> = ({ data, voiceData, onClearData })
             <option value="combined">Combined Data</option>
             <option value="emotion">Emotion Only</option>
             <option value="voice">Voice Only</option>
+            <option value="micro">Micro-Expressions Only</option>
+            <option value="physio">Physiological Only</option>
           </select>
         </div>
       </div>
@@ -140,7 +470,11 @@ const DataLogger: React.FC<DataLoggerProps> = ({ data, voiceData, onClearData })
         <div className="flex items-center space-x-4">
           <select
             value={selectedSession}
-            onChange={(e) => setSelectedSession(e.target.value)}
+            onChange={(e) => {
+              setSelectedSession(e.target.value);
+              setSelectedSubject('all');
+              setTranscriptOffset(0);
+            }}
             className="border border-gray-300 rounded px-3 py-1 text-sm"
           >
             <option value="all">All Sessions</option>
@@ -150,29 +484,86 @@ const DataLogger: React.FC<DataLoggerProps> = ({ data, voiceData, onClearData })
               </option>
             ))}
           </select>
+          <select
+            value={selectedSubject}
+            onChange={(e) => setSelectedSubject(e.target.value)}
+            disabled={selectedSession === 'all'}
+            className="border border-gray-300 rounded px-3 py-1 text-sm disabled:opacity-50"
+          >
+            <option value="all">All Subjects</option>
+            {subjects.map(subject => (
+              <option key={subject} value={subject}>
+                Subject {subject}
+              </option>
+            ))}
+          </select>
           <span className="text-sm text-gray-600">
             {activeDataType === 'emotion' ? filteredData.length :
              activeDataType === 'voice' ? filteredVoiceData.length :
-             filteredData.length + filteredVoiceData.length} records
+             activeDataType === 'micro' ? filteredMicroData.length :
+             filteredData.length + filteredVoiceData.length + filteredMicroData.length} records
           </span>
         </div>
         
         <div className="flex space-x-2">
           <button
             onClick={exportData}
-            disabled={filteredData.length === 0 && filteredVoiceData.length === 0}
+            disabled={filteredData.length === 0 && filteredVoiceData.length === 0 && filteredMicroData.length === 0 && filteredPhysioData.length === 0}
             className="flex items-center px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
           >
             <Download className="w-4 h-4 mr-1" />
             Export CSV
           </button>
           <button
-            onClick={onClearData}
-            className="flex items-center px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700"
+            onClick={exportJson}
+            disabled={filteredData.length === 0 && filteredVoiceData.length === 0 && filteredMicroData.length === 0 && filteredPhysioData.length === 0}
+            className="flex items-center px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
           >
-            <Trash2 className="w-4 h-4 mr-1" />
-            Clear
+            <Download className="w-4 h-4 mr-1" />
+            Export JSON
           </button>
+          {filteredAcousticData.length > 0 && (
+            <button
+              onClick={exportAcousticFeatures}
+              className="flex items-center px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              Export Features ({filteredAcousticData.length})
+            </button>
+          )}
+          {onImportTranscript && (
+            <>
+              <input
+                ref={transcriptInputRef}
+                type="file"
+                accept=".vtt,.srt,.txt,text/vtt,text/plain"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importTranscript(file);
+                  e.target.value = '';
+                }}
+              />
+              <button
+                onClick={() => transcriptInputRef.current?.click()}
+                disabled={selectedSession === 'all'}
+                title={selectedSession === 'all' ? 'Select a session to attach a transcript to' : 'Import a WebVTT, SRT or plain-text transcript'}
+                className="flex items-center px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200 disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4 mr-1" />
+                Transcript
+              </button>
+            </>
+          )}
+          {onClearData && (
+            <button
+              onClick={onClearData}
+              className="flex items-center px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Clear
+            </button>
+          )}
         </div>
       </div>
 
@@ -202,8 +593,74 @@ const DataLogger: React.FC<DataLoggerProps> = ({ data, voiceData, onClearData })
         </div>
       )}
 
+      {transcriptError && (
+        <div className="mb-4 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+          {transcriptError}
+        </div>
+      )}
+
+      {transcript && (
+        <div className="mb-4 p-4 bg-gray-50 rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold text-gray-700 flex items-center">
+              <FileText className="w-4 h-4 mr-1" />
+              Transcript
+              <span className="ml-2 text-xs font-normal text-gray-500">
+                {transcript.fileName} ({transcript.format}, {transcript.cues.length} segments)
+              </span>
+            </h3>
+            <label className="flex items-center text-xs text-gray-600">
+              Offset (s)
+              <input
+                type="number"
+                step={0.1}
+                value={transcriptOffset}
+                onChange={(e) => setTranscriptOffset(Number(e.target.value) || 0)}
+                className="ml-2 w-20 px-2 py-1 border border-gray-300 rounded text-xs"
+              />
+            </label>
+          </div>
+          <div className="max-h-64 overflow-y-auto space-y-2">
+            {alignedCues.map(cue => (
+              <div key={cue.id} className="p-2 bg-white border border-gray-200 rounded">
+                <div className="flex items-center space-x-2 text-xs text-gray-500 mb-1">
+                  <span>{formatMediaTime(Math.max(0, cue.start))} – {formatMediaTime(Math.max(0, cue.end))}</span>
+                  {cue.speaker && (
+                    <span className="text-gray-700 bg-gray-100 px-2 py-0.5 rounded">{cue.speaker}</span>
+                  )}
+                  {cue.emotions.slice(0, 3).map(([emotion, count]) => (
+                    <span key={emotion} className={`px-2 py-0.5 rounded ${getEmotionColor(emotion)}`}>
+                      {emotion} ×{count}
+                    </span>
+                  ))}
+                  {cue.peakStress !== null && cue.meanStress !== null && (
+                    <span className={cue.peakStress >= HIGH_STRESS ? 'text-red-600 font-medium' : ''}>
+                      Stress {(cue.meanStress * 100).toFixed(0)}% (peak {(cue.peakStress * 100).toFixed(0)}%)
+                    </span>
+                  )}
+                </div>
+                <p className="text-sm text-gray-800">
+                  {cue.words.map((word, i) => (
+                    <span
+                      key={i}
+                      title={`@ ${formatMediaTime(Math.max(0, word.start))}`}
+                      className={word.stressed ? 'text-red-600 font-medium' : undefined}
+                    >
+                      {word.text}{' '}
+                    </span>
+                  ))}
+                </p>
+              </div>
+            ))}
+          </div>
+          <div className="text-xs text-gray-500 mt-2">
+            Words in red overlap subject speech scored at {(HIGH_STRESS * 100).toFixed(0)}% stress or more.
+          </div>
+        </div>
+      )}
+
       <div className="max-h-64 overflow-y-auto">
-        {filteredData.length === 0 && filteredVoiceData.length === 0 ? (
+        {filteredData.length === 0 && filteredVoiceData.length === 0 && filteredMicroData.length === 0 && filteredPhysioData.length === 0 ? (
           <div className="text-center py-8 text-gray-500">
             <Eye className="w-8 h-8 mx-auto mb-2 opacity-50" />
             <p>No analysis data available</p>
@@ -221,22 +678,94 @@ const DataLogger: React.FC<DataLoggerProps> = ({ data, voiceData, onClearData })
               if (activeDataType === 'voice' || activeDataType === 'combined') {
                 combinedData = [...combinedData, ...filteredVoiceData.map(item => ({...item, type: 'voice'}))];
               }
+
+              if (activeDataType === 'micro' || activeDataType === 'combined') {
+                combinedData = [...combinedData, ...filteredMicroData.map(item => ({...item, type: 'micro'}))];
+              }
+
+              if (activeDataType === 'physio' || activeDataType === 'combined') {
+                combinedData = [...combinedData, ...filteredPhysioData.map(item => ({...item, type: 'physio'}))];
+              }
               
               return combinedData
                 .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
                 .map((item) => (
-              <div key={item.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+              <div
+                key={item.id}
+                ref={element => {
+                  if (element) rowRefs.current.set(item.id, element);
+                  else rowRefs.current.delete(item.id);
+                }}
+                className={`flex items-center justify-between p-3 border rounded-lg ${
+                  item.id === highlightedId ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                }`}
+              >
                 <div className="flex items-center space-x-4">
                   <div className="text-xs text-gray-500">
-                    {new Date(item.timestamp).toLocaleTimeString()}
+                    {(item.type === 'emotion' || item.type === 'voice' || item.type === 'physio') && item.mediaTime !== null
+                      ? `@ ${formatMediaTime(item.mediaTime)}`
+                      : item.type === 'micro'
+                        ? formatEventTime(item.onsetTime, item.clock)
+                        : new Date(item.timestamp).toLocaleTimeString()}
                   </div>
                   {item.type === 'emotion' ? (
                     <>
-                      <div className={`px-2 py-1 rounded text-sm font-medium ${getEmotionColor(item.emotion)}`}>
-                        {item.emotion}
+                      <div className={`px-2 py-1 rounded text-sm font-medium ${getEmotionColor(item.emotion ?? item.status)}`}>
+                        {item.emotion ?? item.status.replace('_', ' ')}
+                      </div>
+                      {item.status === 'low_quality' && item.quality && (
+                        <div className="text-xs text-amber-700">
+                          {item.quality.issues.join(', ')} ({(item.quality.score * 100).toFixed(0)}%)
+                        </div>
+                      )}
+                      {item.status === 'classified' && (
+                        <div className="text-sm text-gray-600">
+                          {(item.confidence * 100).toFixed(1)}% confidence
+                        </div>
+                      )}
+                      {item.subjectId && (
+                        <div className="text-xs text-blue-700 bg-blue-50 px-2 py-1 rounded">
+                          {item.subjectId}
+                        </div>
+                      )}
+                      {formatActionUnits(item.actionUnits) && (
+                        <div className="text-xs text-indigo-700">
+                          {formatActionUnits(item.actionUnits).split(';').join(' ')}
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-500">
+                        {item.modelName} v{item.modelVersion}
+                      </div>
+                    </>
+                  ) : item.type === 'physio' ? (
+                    <>
+                      <div className="px-2 py-1 rounded text-sm font-medium text-red-600 bg-red-50 inline-flex items-center">
+                        <HeartPulse className="w-3 h-3 mr-1" />
+                        {item.heartRate !== null ? `${item.heartRate.toFixed(0)} bpm` : 'weak signal'}
+                      </div>
+                      {item.hrv && (
+                        <div className="text-sm text-gray-600">
+                          RMSSD {item.hrv.rmssd.toFixed(0)} ms | SDNN {item.hrv.sdnn.toFixed(0)} ms
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-500">
+                        SQI {(item.signalQuality * 100).toFixed(0)}%
+                      </div>
+                      <div className="text-xs text-blue-700 bg-blue-50 px-2 py-1 rounded">
+                        {item.subjectId}
+                      </div>
+                    </>
+                  ) : item.type === 'micro' ? (
+                    <>
+                      <div className="px-2 py-1 rounded text-sm font-medium text-pink-600 bg-pink-50 inline-flex items-center">
+                        <Zap className="w-3 h-3 mr-1" />
+                        {item.region}
                       </div>
                       <div className="text-sm text-gray-600">
-                        {(item.confidence * 100).toFixed(1)}% confidence
+                        {item.durationMs.toFixed(0)} ms | Apex +{(item.apexTime - item.onsetTime).toFixed(0)} ms | Peak {item.peakIntensity.toFixed(3)}
+                      </div>
+                      <div className="text-xs text-blue-700 bg-blue-50 px-2 py-1 rounded">
+                        {item.subjectId}
                       </div>
                     </>
                   ) : (
@@ -247,10 +776,13 @@ const DataLogger: React.FC<DataLoggerProps> = ({ data, voiceData, onClearData })
                       <div className="text-sm text-gray-600">
                         Stress: {(item.stressLevel * 100).toFixed(1)}% | Conf: {(item.confidenceLevel * 100).toFixed(1)}%
                       </div>
+                      <div className="text-xs text-gray-700 bg-gray-100 px-2 py-1 rounded">
+                        {item.speaker}
+                      </div>
                     </>
                   )}
                   <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
-                    {item.type === 'emotion' ? 'Visual' : 'Voice'}
+                    {item.type === 'emotion' ? 'Visual' : item.type === 'micro' ? 'Micro' : item.type === 'physio' ? 'Pulse' : 'Voice'}
                   </span>
                 </div>
                 <div className="text-xs text-gray-400">
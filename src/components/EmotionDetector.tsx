@@ -1,18 +1,98 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Camera, Square, Play, Pause, AlertTriangle, Shield, Database, RefreshCw } from 'lucide-react';
+import { Camera, Square, Play, Pause, AlertTriangle, Shield, Database, RefreshCw, Film, Upload, Settings, Video, EyeOff, HeartPulse } from 'lucide-react';
 import AudioAnalyzer from './AudioAnalyzer';
+import CameraSettingsPanel from './CameraSettingsPanel';
+// Not '../models': its provider registration pulls face-api into the bundle, and only the worker needs it
+import { EMOTION_TAXONOMY, EmotionLabel } from '../models/emotionModel';
+import { DEFAULT_EMOTION_MODEL, EMOTION_MODEL_CATALOG } from '../models/catalog';
+import { createFaceTracker, TrackedFace } from '../tracking/faceTracker';
+import { createMicroExpressionDetector } from '../analysis/microExpressionDetector';
+import { ACTION_UNITS, ActionUnitCode, ActionUnitFrame, createActionUnitEstimator } from '../analysis/actionUnits';
+import { AffectDimensions, estimateAffectDimensions } from '../analysis/affectDimensions';
+import { createBehaviorTracker } from '../analysis/behavioralSignals';
+import { createPulseEstimator } from '../analysis/pulseEstimator';
+import { formatMediaTime } from '../analysis/timeline';
+import { DEFAULT_QUALITY_THRESHOLD, FrameQuality } from '../analysis/frameQuality';
+import { CameraDevice, CameraSettings, buildVideoConstraints, listCameraDevices, loadCameraSettings, saveCameraSettings } from '../capture/cameraSettings';
+import { createSessionRecorder } from '../capture/sessionRecorder';
+import { createFaceAnonymizer, PRIVACY_MODES, PrivacyMode } from '../capture/faceAnonymizer';
+import { listVoiceBaselines, saveRecording } from '../storage/recordingStore';
+import { createInferenceClient, InferenceClient } from '../workers/inferenceClient';
+import { FaceInference, FrameInference, ModelInfo } from '../workers/inferenceProtocol';
 
 interface EmotionResult {
   id: string;
   timestamp: string;
-  emotion: string;
+  // Frames without a face or below the quality threshold are logged as gaps and carry no emotion
+  status: 'classified' | 'no_face' | 'low_quality';
+  emotion: string | null;
   confidence: number;
+  // Full distribution over EMOTION_TAXONOMY; null for "no face" results
+  probabilities: Record<EmotionLabel, number> | null;
+  // Dimensional reading of the same frame; null for "no face" results
+  affect: AffectDimensions | null;
+  // Null for "no face" results
+  quality: FrameQuality | null;
   sessionId: string;
+  modelName: string;
+  modelVersion: string;
+  faceDetected: boolean;
+  subjectId: string | null;
+  // Seconds into the analysed media file; null for live camera input
+  mediaTime: number | null;
+  // Null when there is no face or the subject's neutral baseline is still being collected
+  actionUnits: ActionUnitFrame | null;
+}
+
+interface MicroExpressionEvent {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  subjectId: string;
+  // onset/apex/offset are milliseconds: epoch time for live camera, media offset for files
+  clock: 'epoch' | 'media';
+  onsetTime: number;
+  apexTime: number;
+  offsetTime: number;
+  durationMs: number;
+  peakIntensity: number;
+  region: 'brows' | 'eyes' | 'nose' | 'mouth';
+}
+
+interface BehavioralSignals {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  subjectId: string;
+  mediaTime: number | null;
+  // Degrees; yaw and gaze left/right are as seen in the displayed frame
+  headPose: { yaw: number; pitch: number; roll: number };
+  gaze: { yaw: number; pitch: number; direction: 'center' | 'left' | 'right' | 'up' | 'down' } | null;
+  downwardGazeRatio: number;
+  eyeAspectRatio: number;
+  blinkCount: number;
+  blinkRate: number | null;
+}
+
+interface PhysiologicalSignals {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  subjectId: string;
+  mediaTime: number | null;
+  // Remote photoplethysmography from facial skin colour; null when the signal is too weak
+  heartRate: number | null;
+  hrv: { rmssd: number; sdnn: number } | null;
+  signalQuality: number;
+  // Camera frames per second the estimate was based on
+  frameRate: number;
 }
 
 interface VoiceAnalysis {
   id: string;
   timestamp: string;
+  windowStart: string;
+  windowEnd: string;
   stressLevel: number;
   confidenceLevel: number;
   pitchVariation: number;
@@ -20,40 +100,180 @@ interface VoiceAnalysis {
   volumeConsistency: number;
   emotionalState: 'calm' | 'stressed' | 'confident' | 'uncertain' | 'deceptive' | 'anxious';
   sessionId: string;
+  speaker: 'subject' | 'interviewer' | 'unknown';
+  fundamentalFrequency: number | null;
+  jitter: number | null;
+  shimmer: number | null;
+  mediaTime: number | null;
+  baselineId: string | null;
+  deviations: Record<string, number | null> | null;
+}
+
+interface AcousticFeatureRecord {
+  id: string;
+  voiceAnalysisId: string;
+  timestamp: string;
+  windowStart: string;
+  windowEnd: string;
+  sessionId: string;
+  speaker: 'subject' | 'interviewer' | 'unknown';
+  mediaTime: number | null;
+  frames: number;
+  fundamentalFrequency: number | null;
+  jitter: number | null;
+  shimmer: number | null;
+  hnr: number | null;
+  formants: (number | null)[];
+  loudness: number;
+  spectralFlux: number;
+  mfcc: number[];
 }
 
 interface EmotionDetectorProps {
   onEmotionDetected: (result: EmotionResult) => void;
   onVoiceAnalyzed?: (result: VoiceAnalysis) => void;
+  onMicroExpressionDetected?: (event: MicroExpressionEvent) => void;
+  onBehavioralSignals?: (signals: BehavioralSignals) => void;
+  onPhysiologicalSignals?: (signals: PhysiologicalSignals) => void;
+  onAcousticFeatures?: (record: AcousticFeatureRecord) => void;
+  onRecordingSaved?: (sessionId: string) => void;
 }
 
-const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, onVoiceAnalyzed }) => {
+// A seek that neither lands nor fails within this long is treated as stuck
+const SEEK_TIMEOUT_MS = 5000;
+// Micro-expressions can last 1/25 s, so files are stepped at typical camera rates by default
+const DEFAULT_ANALYSIS_FPS = 30;
+
+const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, onVoiceAnalyzed, onMicroExpressionDetected, onBehavioralSignals, onPhysiologicalSignals, onAcousticFeatures, onRecordingSaved }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const animationRef = useRef<number>();
+  // Detection and classification run in a worker; the main thread only tracks and draws
+  const inferenceClientRef = useRef<InferenceClient | null>(null);
+  const modelRef = useRef<ModelInfo | null>(null);
+  // Clean copy of the displayed frame; the visible canvas also carries the overlay
+  const frameCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const facesRef = useRef<TrackedFace[]>([]);
+  // Capture time (epoch ms) of the frame facesRef was detected on; live frames are drawn before their result
+  const facesCapturedAtRef = useRef(0);
+  const trackerRef = useRef(createFaceTracker());
+  const microDetectorRef = useRef(createMicroExpressionDetector());
+  const actionUnitEstimatorRef = useRef(createActionUnitEstimator());
+  const behaviorTrackerRef = useRef(createBehaviorTracker());
+  const pulseEstimatorRef = useRef(createPulseEstimator());
+  const latestActionUnitsRef = useRef<Map<string, ActionUnitFrame | null>>(new Map());
+  const latestQualityRef = useRef<Map<string, FrameQuality | null>>(new Map());
+  const qualityThresholdRef = useRef(DEFAULT_QUALITY_THRESHOLD);
+  const qualityUpdatedAtRef = useRef(0);
+  const classifyRequestedAtRef = useRef(0);
+  const resultTimesRef = useRef<number[]>([]);
+  const inferenceMsRef = useRef(0);
+  const statsUpdatedAtRef = useRef(0);
+  const overlayLabelsRef = useRef<Map<string, { emotion: string; confidence: number }>>(new Map());
+  const videoCleanupRef = useRef<(() => void) | null>(null);
+  const fileUrlRef = useRef<string | null>(null);
+  const filePlayingRef = useRef(false);
+  const fileNextTimeRef = useRef(0);
+  // Read by the render loop and device-change listener, which outlive the render that created them
+  const cameraSettingsRef = useRef<CameraSettings>(loadCameraSettings());
+  const deviceLostRef = useRef(false);
+  const restartCameraRef = useRef<() => void>(() => {});
+  const sessionRecorderRef = useRef(createSessionRecorder());
+  const micStreamRef = useRef<MediaStream | null>(null);
+  const anonymizerRef = useRef(createFaceAnonymizer());
+  const privacyModeRef = useRef<PrivacyMode>('off');
+  // Receives the anonymized frame (without overlays) when recording in privacy mode
+  const recordingCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // Set while footage is being recorded; live results then carry media time relative to it
+  const recordingStartedAtRef = useRef<number | null>(null);
+  const recordingSessionIdRef = useRef<string | null>(null);
+  const recordedEmotionsRef = useRef<EmotionResult[]>([]);
+  const recordedVoiceRef = useRef<VoiceAnalysis[]>([]);
+  const recordedMicroRef = useRef<MicroExpressionEvent[]>([]);
+  const recordedBehaviorRef = useRef<BehavioralSignals[]>([]);
+  const recordedPhysioRef = useRef<PhysiologicalSignals[]>([]);
   
   const [isRecording, setIsRecording] = useState(false);
   const [currentEmotion, setCurrentEmotion] = useState<string>('neutral');
   const [confidence, setConfidence] = useState<number>(0);
-  const [sessionId] = useState(() => `session_${Date.now()}`);
+  const [visibleSubjects, setVisibleSubjects] = useState<number>(0);
+  const [currentActionUnits, setCurrentActionUnits] = useState<ActionUnitFrame | null>(null);
+  const [currentProbabilities, setCurrentProbabilities] = useState<Record<EmotionLabel, number> | null>(null);
+  const [currentAffect, setCurrentAffect] = useState<AffectDimensions | null>(null);
+  const [currentQuality, setCurrentQuality] = useState<FrameQuality | null>(null);
+  const [currentPulse, setCurrentPulse] = useState<PhysiologicalSignals | null>(null);
+  const [pulseLowFrameRate, setPulseLowFrameRate] = useState(false);
+  const [qualityThreshold, setQualityThreshold] = useState(DEFAULT_QUALITY_THRESHOLD);
+  const [recordingRequested, setRecordingRequested] = useState(false);
+  // Opt-in is given for one session ID and lapses when a new session starts
+  const [recordingOptInSession, setRecordingOptInSession] = useState<string | null>(null);
+  const [sessionRecordingState, setSessionRecordingState] = useState<'idle' | 'recording' | 'saving'>('idle');
+  const [recordingError, setRecordingError] = useState<string>('');
+  const [privacyMode, setPrivacyMode] = useState<PrivacyMode>('off');
+  const [pipelineStats, setPipelineStats] = useState<{ fps: number; inferenceMs: number; dropped: number } | null>(null);
+  const [sessionId, setSessionId] = useState(() => `session_${Date.now()}`);
   const [hasConsent, setHasConsent] = useState(false);
   const [cameraState, setCameraState] = useState<'idle' | 'requesting' | 'active' | 'error'>('idle');
   const [errorMessage, setErrorMessage] = useState<string>('');
   const [videoReady, setVideoReady] = useState(false);
+  const [sourceMode, setSourceMode] = useState<'camera' | 'file'>('camera');
+  const [fileName, setFileName] = useState<string>('');
+  const [filePlaying, setFilePlaying] = useState(false);
+  const [fileTime, setFileTime] = useState(0);
+  const [fileDuration, setFileDuration] = useState(0);
+  const [fileError, setFileError] = useState('');
+  const [analysisFps, setAnalysisFps] = useState(DEFAULT_ANALYSIS_FPS);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(() => cameraSettingsRef.current);
+  const [cameraDevices, setCameraDevices] = useState<CameraDevice[]>([]);
+  const [activeTrackSettings, setActiveTrackSettings] = useState<MediaTrackSettings | null>(null);
+  const [showCameraSettings, setShowCameraSettings] = useState(false);
+  const [modelId, setModelId] = useState(DEFAULT_EMOTION_MODEL);
+  const [modelState, setModelState] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [modelError, setModelError] = useState<string>('');
 
-  // Mock emotion detection
-  const detectEmotion = (): { emotion: string; confidence: number } => {
-    const emotions = ['neutral', 'happy', 'sad', 'angry', 'surprised', 'fearful', 'disgusted'];
-    const randomEmotion = emotions[Math.floor(Math.random() * emotions.length)];
-    const randomConfidence = Math.random() * 0.4 + 0.6;
-    return { emotion: randomEmotion, confidence: randomConfidence };
+  const getInferenceClient = () => {
+    if (!inferenceClientRef.current) {
+      inferenceClientRef.current = createInferenceClient();
+    }
+    return inferenceClientRef.current;
   };
 
+  useEffect(() => {
+    let cancelled = false;
+    modelRef.current = null;
+    setModelState('loading');
+    setModelError('');
+
+    getInferenceClient().load(modelId)
+      .then(model => {
+        if (cancelled) return;
+        modelRef.current = model;
+        setModelState('ready');
+      })
+      .catch((error: Error) => {
+        if (cancelled) return;
+        console.error('Emotion model load error:', error);
+        setModelError(error.message || 'Failed to load emotion model');
+        setModelState('error');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [modelId]);
+
   const stopCamera = () => {
+    stopSessionRecording();
+
     if (animationRef.current) {
       cancelAnimationFrame(animationRef.current);
     }
+
+    if (videoCleanupRef.current) {
+      videoCleanupRef.current();
+      videoCleanupRef.current = null;
+    }
     
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => {
@@ -71,33 +291,437 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
     setCameraState('idle');
     setIsRecording(false);
     setVideoReady(false);
+    setActiveTrackSettings(null);
   };
 
-  const drawVideoToCanvas = () => {
-    if (!videoRef.current || !canvasRef.current || !videoReady) return;
-    
+  const refreshCameraDevices = async () => {
+    try {
+      const devices = await listCameraDevices();
+      setCameraDevices(devices);
+      return devices;
+    } catch (error) {
+      console.error('Device enumeration error:', error);
+      return [];
+    }
+  };
+
+  const updateCameraSettings = (next: CameraSettings) => {
+    const needsRestart = next.deviceId !== cameraSettings.deviceId ||
+      next.width !== cameraSettings.width ||
+      next.height !== cameraSettings.height ||
+      next.frameRate !== cameraSettings.frameRate;
+
+    // Flipping the image moves every face, so tracks and baselines start over
+    if (next.mirror !== cameraSettings.mirror) {
+      resetTracking();
+    }
+
+    cameraSettingsRef.current = next;
+    setCameraSettings(next);
+    saveCameraSettings(next);
+
+    if (needsRestart && sourceMode === 'camera' && (cameraState === 'active' || cameraState === 'error')) {
+      initializeCamera(next);
+    }
+  };
+
+  const recordingMediaTime = (epochMs: number) => {
+    const startedAt = recordingStartedAtRef.current;
+    return startedAt === null ? null : Math.max(0, (epochMs - startedAt) / 1000);
+  };
+
+  const emitEmotion = (result: EmotionResult) => {
+    if (recordingStartedAtRef.current !== null) recordedEmotionsRef.current.push(result);
+    onEmotionDetected(result);
+  };
+
+  const emitMicroExpression = (event: MicroExpressionEvent) => {
+    if (recordingStartedAtRef.current !== null) recordedMicroRef.current.push(event);
+    onMicroExpressionDetected?.(event);
+  };
+
+  const emitBehavior = (signals: BehavioralSignals) => {
+    if (recordingStartedAtRef.current !== null) recordedBehaviorRef.current.push(signals);
+    onBehavioralSignals?.(signals);
+  };
+
+  const emitPhysiological = (signals: PhysiologicalSignals) => {
+    if (recordingStartedAtRef.current !== null) recordedPhysioRef.current.push(signals);
+    onPhysiologicalSignals?.(signals);
+  };
+
+  const startSessionRecording = async () => {
+    const cameraStream = streamRef.current;
+    if (!cameraStream || sessionRecorderRef.current.isRecording) return;
+
+    setRecordingError('');
+    try {
+      // The analyser's microphone stream is private to it, so the recording opens its own
+      let mic: MediaStream | null = null;
+      try {
+        mic = await navigator.mediaDevices.getUserMedia({ audio: true });
+      } catch (error) {
+        console.warn('Recording without audio:', error);
+        setRecordingError('Microphone unavailable - recording video only');
+      }
+      micStreamRef.current = mic;
+
+      // In privacy mode the raw camera track is never recorded; frames come from the anonymized render
+      let videoTracks = cameraStream.getVideoTracks();
+      if (privacyModeRef.current !== 'off') {
+        const recordingCanvas = document.createElement('canvas');
+        recordingCanvasRef.current = recordingCanvas;
+        videoTracks = recordingCanvas.captureStream(cameraSettingsRef.current.frameRate).getVideoTracks();
+      }
+
+      const stream = new MediaStream([...videoTracks, ...(mic?.getAudioTracks() ?? [])]);
+      recordedEmotionsRef.current = [];
+      recordedVoiceRef.current = [];
+      recordedMicroRef.current = [];
+      recordedBehaviorRef.current = [];
+      recordedPhysioRef.current = [];
+      recordingSessionIdRef.current = sessionId;
+      recordingStartedAtRef.current = await sessionRecorderRef.current.start(stream);
+      setSessionRecordingState('recording');
+    } catch (error) {
+      console.error('Session recording error:', error);
+      micStreamRef.current?.getTracks().forEach(track => track.stop());
+      micStreamRef.current = null;
+      releaseRecordingCanvas();
+      setRecordingError(`Recording failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setSessionRecordingState('idle');
+    }
+  };
+
+  const releaseRecordingCanvas = () => {
+    const canvas = recordingCanvasRef.current;
+    recordingCanvasRef.current = null;
+    if (!canvas) return;
+    canvas.width = 0;
+    canvas.height = 0;
+  };
+
+  const updatePrivacyMode = (mode: PrivacyMode) => {
+    privacyModeRef.current = mode;
+    setPrivacyMode(mode);
+
+    // Repaint a paused display so the change takes effect immediately
     const video = videoRef.current;
+    if (video && !isRecording && !filePlayingRef.current) {
+      const frame = captureFrame(video, sourceMode === 'camera' && cameraSettingsRef.current.mirror);
+      if (frame) renderFrame(frame, null);
+    }
+  };
+
+  const stopSessionRecording = async () => {
+    const startedAt = recordingStartedAtRef.current;
+    const recordingSessionId = recordingSessionIdRef.current;
+    if (!sessionRecorderRef.current.isRecording || startedAt === null || !recordingSessionId) return;
+
+    recordingStartedAtRef.current = null;
+    setSessionRecordingState('saving');
+    try {
+      const media = await sessionRecorderRef.current.stop();
+      const hasAudio = (micStreamRef.current?.getAudioTracks().length ?? 0) > 0;
+      micStreamRef.current?.getTracks().forEach(track => track.stop());
+      micStreamRef.current = null;
+      releaseRecordingCanvas();
+
+      const baselineIds = new Set(recordedVoiceRef.current.flatMap(item => (item.baselineId ? [item.baselineId] : [])));
+      const voiceBaselines = baselineIds.size > 0
+        ? (await listVoiceBaselines()).filter(baseline => baselineIds.has(baseline.id))
+        : [];
+
+      await saveRecording({
+        id: `recording_${Date.now()}`,
+        sessionId: recordingSessionId,
+        createdAt: new Date().toISOString(),
+        startedAt,
+        durationMs: media.durationMs,
+        mimeType: media.mimeType,
+        hasAudio,
+        video: media.blob,
+        emotions: recordedEmotionsRef.current,
+        voice: recordedVoiceRef.current,
+        microExpressions: recordedMicroRef.current,
+        behavior: recordedBehaviorRef.current,
+        physiological: recordedPhysioRef.current,
+        voiceBaselines
+      });
+      onRecordingSaved?.(recordingSessionId);
+    } catch (error) {
+      console.error('Saving session recording failed:', error);
+      setRecordingError(`Saving recording failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setSessionRecordingState('idle');
+    }
+  };
+
+  const resetTracking = (newSession = false) => {
+    if (newSession) trackerRef.current.restart();
+    else trackerRef.current.reset();
+    microDetectorRef.current.reset();
+    behaviorTrackerRef.current.reset();
+    pulseEstimatorRef.current.reset();
+    actionUnitEstimatorRef.current.reset();
+    latestActionUnitsRef.current.clear();
+    latestQualityRef.current.clear();
+    overlayLabelsRef.current.clear();
+  };
+
+  // Assign subject IDs and feed every detected frame to the micro-expression detector,
+  // which needs the full detection rate rather than the 1 Hz classification tick
+  const trackFaces = (faces: FaceInference[], time: number, clock: MicroExpressionEvent['clock'], mediaTime: number | null): TrackedFace[] => {
+    const tracked = trackerRef.current.update(faces.map(({ face }) => face), time);
+    const activeSubjects = trackerRef.current.activeSubjects();
+    microDetectorRef.current.retain(activeSubjects);
+    behaviorTrackerRef.current.retain(activeSubjects);
+    actionUnitEstimatorRef.current.retain(activeSubjects);
+    [latestActionUnitsRef.current, latestQualityRef.current].forEach(latest => {
+      Array.from(latest.keys()).forEach(subjectId => {
+        if (!activeSubjects.includes(subjectId)) latest.delete(subjectId);
+      });
+    });
+    pulseEstimatorRef.current.retain(activeSubjects);
+
+    // The tracker keeps input order, so index i is the same face in both arrays
+    tracked.forEach((face, index) => {
+      const { quality } = faces[index];
+      latestQualityRef.current.set(face.subjectId, quality);
+
+      // Landmarks from a dark, blurred or turned face would skew the AU baseline and fake motion
+      if (quality && !quality.usable) {
+        latestActionUnitsRef.current.set(face.subjectId, null);
+        return;
+      }
+
+      latestActionUnitsRef.current.set(face.subjectId, actionUnitEstimatorRef.current.estimate(face.subjectId, face.landmarks));
+
+      const segment = microDetectorRef.current.push(face.subjectId, face.landmarks, time);
+      if (segment) {
+        emitMicroExpression({
+          id: `micro_${Date.now()}_${Math.random()}`,
+          timestamp: new Date().toISOString(),
+          sessionId,
+          clock,
+          ...segment
+        });
+      }
+
+      const behavior = behaviorTrackerRef.current.push(face.subjectId, face.landmarks, faces[index].eyeGaze, time);
+      if (behavior) {
+        emitBehavior({
+          id: `behavior_${Date.now()}_${Math.random()}`,
+          timestamp: new Date().toISOString(),
+          sessionId,
+          subjectId: behavior.subjectId,
+          mediaTime,
+          headPose: behavior.headPose,
+          gaze: behavior.gaze,
+          downwardGazeRatio: behavior.downwardGazeRatio,
+          eyeAspectRatio: behavior.eyeAspectRatio,
+          blinkCount: behavior.blinkCount,
+          blinkRate: behavior.blinkRate
+        });
+      }
+
+      const { skinColor } = faces[index];
+      const pulse = skinColor ? pulseEstimatorRef.current.push(face.subjectId, skinColor, time) : null;
+      if (pulse) {
+        const signals: PhysiologicalSignals = {
+          id: `physio_${Date.now()}_${Math.random()}`,
+          timestamp: new Date().toISOString(),
+          sessionId,
+          subjectId: pulse.subjectId,
+          mediaTime,
+          heartRate: pulse.heartRate,
+          hrv: pulse.hrv,
+          signalQuality: pulse.signalQuality,
+          frameRate: pulse.frameRate
+        };
+        setCurrentPulse(signals);
+        setPulseLowFrameRate(pulse.lowFrameRate);
+        emitPhysiological(signals);
+      }
+    });
+
+    // Quality feedback follows the largest face, throttled to keep re-renders off the detection path
+    if (time - qualityUpdatedAtRef.current > 250 || time < qualityUpdatedAtRef.current) {
+      qualityUpdatedAtRef.current = time;
+      const primary = [...tracked].sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height)[0];
+      setCurrentQuality(primary ? latestQualityRef.current.get(primary.subjectId) ?? null : null);
+    }
+
+    return tracked;
+  };
+
+  const recordPipelineStats = (inferenceMs: number) => {
+    const now = performance.now();
+    const times = resultTimesRef.current;
+    times.push(now);
+    while (now - times[0] > 1000) times.shift();
+    inferenceMsRef.current = inferenceMsRef.current === 0 ? inferenceMs : inferenceMsRef.current * 0.8 + inferenceMs * 0.2;
+
+    if (now - statsUpdatedAtRef.current > 500) {
+      statsUpdatedAtRef.current = now;
+      setPipelineStats({
+        fps: times.length,
+        inferenceMs: inferenceMsRef.current,
+        dropped: inferenceClientRef.current?.droppedFrames ?? 0
+      });
+    }
+  };
+
+  const handleInference = (model: ModelInfo, inference: FrameInference, time: number, clock: MicroExpressionEvent['clock'], mediaTime: number | null) => {
+    const tracked = trackFaces(inference.faces, time, clock, mediaTime);
+    facesRef.current = tracked;
+    recordPipelineStats(inference.inferenceMs);
+    if (inference.classified) {
+      reportClassifications(model, tracked, inference.faces, mediaTime);
+    }
+    return tracked;
+  };
+
+  // Hand the newest camera frame to the worker. While it is busy, newer frames replace the
+  // waiting one, so results never fall behind the live video.
+  const submitLiveFrame = async (video: HTMLVideoElement) => {
+    const client = inferenceClientRef.current;
+    const model = modelRef.current;
+    if (!client || !model) return;
+
+    // Timestamp at capture, not at result, so micro-expression timing excludes worker latency
+    const capturedAt = performance.timeOrigin + performance.now();
+    const classify = capturedAt - classifyRequestedAtRef.current >= 1000;
+    if (classify) classifyRequestedAtRef.current = capturedAt;
+
+    try {
+      const bitmap = await createImageBitmap(video);
+      const inference = await client.inferLatest(bitmap, {
+        mirror: cameraSettingsRef.current.mirror,
+        classify,
+        qualityThreshold: qualityThresholdRef.current
+      });
+      if (!inference) {
+        // Dropped as stale; let the next frame carry the classification request
+        if (classify) classifyRequestedAtRef.current = 0;
+        return;
+      }
+      handleInference(model, inference, capturedAt, 'epoch', recordingMediaTime(capturedAt));
+      facesCapturedAtRef.current = capturedAt;
+    } catch (error) {
+      console.error('Inference error:', error);
+    }
+  };
+
+  const drawFaceOverlay = (ctx: CanvasRenderingContext2D, faces: TrackedFace[]) => {
+    faces.forEach(face => {
+      const label = overlayLabelsRef.current.get(face.subjectId);
+      const quality = latestQualityRef.current.get(face.subjectId);
+      const lowQuality = quality ? !quality.usable : false;
+      const { x, y, width, height } = face.box;
+
+      ctx.strokeStyle = lowQuality ? '#f59e0b' : '#22c55e';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, width, height);
+
+      ctx.fillStyle = '#38bdf8';
+      face.landmarks.forEach(point => {
+        ctx.beginPath();
+        ctx.arc(point.x, point.y, 1.5, 0, Math.PI * 2);
+        ctx.fill();
+      });
+
+      const text = lowQuality && quality
+        ? `${face.subjectId} · ${quality.issues.join(', ')}`
+        : label
+          ? `${face.subjectId} · ${label.emotion} ${(label.confidence * 100).toFixed(0)}%`
+          : `${face.subjectId} · face ${(face.score * 100).toFixed(0)}%`;
+      ctx.font = '14px sans-serif';
+      const textWidth = ctx.measureText(text).width;
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.fillRect(x, Math.max(y - 20, 0), textWidth + 8, 20);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillText(text, x + 4, Math.max(y - 6, 14));
+    });
+
+    if (faces.length === 0) {
+      ctx.font = '16px sans-serif';
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.fillRect(8, 8, 130, 26);
+      ctx.fillStyle = '#fbbf24';
+      ctx.fillText('No face detected', 14, 26);
+    }
+  };
+
+  // Copy the current video frame into the analysis canvas; camera input is mirrored like a selfie view
+  const captureFrame = (video: HTMLVideoElement, mirror: boolean): HTMLCanvasElement | null => {
+    if (video.videoWidth === 0 || video.videoHeight === 0) return null;
+
+    if (!frameCanvasRef.current) {
+      frameCanvasRef.current = document.createElement('canvas');
+    }
+    const frame = frameCanvasRef.current;
+    const frameCtx = frame.getContext('2d');
+    if (!frameCtx) return null;
+
+    frame.width = video.videoWidth;
+    frame.height = video.videoHeight;
+
+    frameCtx.save();
+    if (mirror) {
+      frameCtx.scale(-1, 1);
+      frameCtx.drawImage(video, -frame.width, 0, frame.width, frame.height);
+    } else {
+      frameCtx.drawImage(video, 0, 0, frame.width, frame.height);
+    }
+    frameCtx.restore();
+
+    return frame;
+  };
+
+  // `faceAgeMs`: how long before this frame the faces were detected (0 when detected on it)
+  const renderFrame = (frame: HTMLCanvasElement, faces: TrackedFace[] | null, faceAgeMs = 0) => {
     const canvas = canvasRef.current;
-    const ctx = canvas.getContext('2d');
-    
-    if (!ctx || video.videoWidth === 0 || video.videoHeight === 0) return;
-    
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
     // Set canvas size to match video
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
-    
-    // Draw video frame to canvas (mirrored)
-    ctx.save();
-    ctx.scale(-1, 1);
-    ctx.drawImage(video, -canvas.width, 0, canvas.width, canvas.height);
-    ctx.restore();
+    canvas.width = frame.width;
+    canvas.height = frame.height;
+    ctx.drawImage(frame, 0, 0);
+    // Only the displayed copy is anonymized; the worker analyses its own raw bitmap
+    anonymizerRef.current.apply(ctx, faces, privacyModeRef.current, faceAgeMs);
+
+    const recordingCanvas = recordingCanvasRef.current;
+    const recordingCtx = recordingCanvas?.getContext('2d');
+    if (recordingCanvas && recordingCtx) {
+      if (recordingCanvas.width !== canvas.width || recordingCanvas.height !== canvas.height) {
+        recordingCanvas.width = canvas.width;
+        recordingCanvas.height = canvas.height;
+      }
+      recordingCtx.drawImage(canvas, 0, 0);
+    }
+
+    if (faces) {
+      drawFaceOverlay(ctx, faces);
+    }
+  };
+
+  const drawVideoToCanvas = () => {
+    if (!videoRef.current || !canvasRef.current || !videoReady) return;
     
+    const frame = captureFrame(videoRef.current, cameraSettingsRef.current.mirror);
+    if (!frame) return;
+
+    const faceAgeMs = performance.timeOrigin + performance.now() - facesCapturedAtRef.current;
+    renderFrame(frame, isRecording ? facesRef.current : null, faceAgeMs);
     if (isRecording) {
+      submitLiveFrame(videoRef.current);
       animationRef.current = requestAnimationFrame(drawVideoToCanvas);
     }
   };
 
-  const initializeCamera = async () => {
+  const initializeCamera = async (settings: CameraSettings = cameraSettingsRef.current) => {
     try {
       setCameraState('requesting');
       setErrorMessage('');
@@ -109,17 +733,17 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
       console.log('Requesting camera access...');
       
       const constraints = {
-        video: {
-          width: { ideal: 640, max: 1280 },
-          height: { ideal: 480, max: 720 },
-          facingMode: 'user',
-          frameRate: { ideal: 30, max: 60 }
-        },
+        video: buildVideoConstraints(settings),
         audio: false
       };
 
       const stream = await navigator.mediaDevices.getUserMedia(constraints);
       streamRef.current = stream;
+      deviceLostRef.current = false;
+      const [videoTrack] = stream.getVideoTracks();
+      setActiveTrackSettings(videoTrack?.getSettings() ?? null);
+      // Device labels only become available once permission has been granted
+      refreshCameraDevices();
       
       console.log('Camera stream obtained:', stream);
       console.log('Video tracks:', stream.getVideoTracks().map(t => ({
@@ -176,21 +800,32 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
           setErrorMessage('Video playback error');
           setCameraState('error');
         };
+
+        // Fires when the camera is unplugged or taken away by the OS
+        const handleTrackEnded = () => {
+          console.warn('Camera track ended:', videoTrack?.label);
+          stopCamera();
+          deviceLostRef.current = true;
+          setErrorMessage('Camera disconnected. It will restart automatically when reconnected, or choose another camera in Camera Settings.');
+          setCameraState('error');
+        };
         
         // Add event listeners
         video.addEventListener('loadedmetadata', handleLoadedMetadata);
         video.addEventListener('canplay', handleCanPlay);
         video.addEventListener('error', handleError);
+        videoTrack?.addEventListener('ended', handleTrackEnded);
         
         // Cleanup function
         const cleanup = () => {
           video.removeEventListener('loadedmetadata', handleLoadedMetadata);
           video.removeEventListener('canplay', handleCanPlay);
           video.removeEventListener('error', handleError);
+          videoTrack?.removeEventListener('ended', handleTrackEnded);
         };
         
         // Store cleanup function for later use
-        (video as any)._cleanup = cleanup;
+        videoCleanupRef.current = cleanup;
         
         // Force load if already ready
         if (video.readyState >= 1) {
@@ -204,11 +839,15 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
     } catch (error: any) {
       console.error('Camera initialization error:', error);
       setCameraState('error');
+      // A missing camera may still be plugged in; the device-change listener then retries
+      deviceLostRef.current = error.name === 'NotFoundError' || error.name === 'OverconstrainedError';
       
       if (error.name === 'NotAllowedError') {
         setErrorMessage('Camera access denied. Please allow camera permissions and try again.');
       } else if (error.name === 'NotFoundError') {
-        setErrorMessage('No camera found. Please connect a camera and try again.');
+        setErrorMessage('No camera found. Connect a camera and it will start automatically.');
+      } else if (error.name === 'OverconstrainedError') {
+        setErrorMessage('The selected camera is not available. It will start automatically when reconnected, or choose another camera in Camera Settings.');
       } else if (error.name === 'NotReadableError') {
         setErrorMessage('Camera is being used by another application. Please close other apps and try again.');
       } else {
@@ -217,31 +856,255 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
     }
   };
 
-  const processFrame = () => {
-    if (!isRecording || cameraState !== 'active') return;
+  restartCameraRef.current = () => initializeCamera();
+
+  // Emit one result per classified subject, or a single "no face" result when nobody is visible
+  const reportClassifications = (model: ModelInfo, trackedFaces: TrackedFace[], inferences: FaceInference[], mediaTime: number | null) => {
+    // Largest face first so it drives the "Current Emotion" panel
+    const faces = trackedFaces
+      .map((face, index) => ({ ...face, prediction: inferences[index].prediction }))
+      .sort((a, b) => b.box.width * b.box.height - a.box.width * a.box.height);
+    const timestamp = new Date().toISOString();
+    setVisibleSubjects(faces.length);
+
+    if (faces.length === 0) {
+      overlayLabelsRef.current.clear();
+      setCurrentEmotion('no face');
+      setConfidence(0);
+      setCurrentActionUnits(null);
+      setCurrentProbabilities(null);
+      setCurrentAffect(null);
+
+      emitEmotion({
+        id: `${Date.now()}_${Math.random()}`,
+        timestamp,
+        status: 'no_face',
+        emotion: null,
+        confidence: 0,
+        probabilities: null,
+        affect: null,
+        quality: null,
+        sessionId,
+        modelName: model.name,
+        modelVersion: model.version,
+        faceDetected: false,
+        subjectId: null,
+        mediaTime,
+        actionUnits: null
+      });
+      return;
+    }
+
+    for (const [index, face] of faces.entries()) {
+      const quality = latestQualityRef.current.get(face.subjectId) ?? null;
+
+      // Unusable faces are logged so gaps stay visible, but never reach the classifier
+      if (quality && !quality.usable) {
+        overlayLabelsRef.current.delete(face.subjectId);
+        if (index === 0) {
+          setCurrentEmotion('low quality');
+          setConfidence(0);
+          setCurrentActionUnits(null);
+          setCurrentProbabilities(null);
+          setCurrentAffect(null);
+        }
+
+        emitEmotion({
+          id: `${Date.now()}_${Math.random()}`,
+          timestamp,
+          status: 'low_quality',
+          emotion: null,
+          confidence: 0,
+          probabilities: null,
+          affect: null,
+          quality,
+          sessionId,
+          modelName: model.name,
+          modelVersion: model.version,
+          faceDetected: true,
+          subjectId: face.subjectId,
+          mediaTime,
+          actionUnits: null
+        });
+        continue;
+      }
+
+      const result = face.prediction;
+      if (!result) continue;
+      const actionUnits = latestActionUnitsRef.current.get(face.subjectId) ?? null;
+      const affect = estimateAffectDimensions(result.probabilities);
+      overlayLabelsRef.current.set(face.subjectId, result);
 
-    const result = detectEmotion();
-    setCurrentEmotion(result.emotion);
-    setConfidence(result.confidence);
+      if (index === 0) {
+        setCurrentEmotion(result.emotion);
+        setConfidence(result.confidence);
+        setCurrentActionUnits(actionUnits);
+        setCurrentProbabilities(result.probabilities);
+        setCurrentAffect(affect);
+      }
 
-    const emotionResult: EmotionResult = {
-      id: `${Date.now()}_${Math.random()}`,
-      timestamp: new Date().toISOString(),
-      emotion: result.emotion,
-      confidence: result.confidence,
-      sessionId
+      const emotionResult: EmotionResult = {
+        id: `${Date.now()}_${Math.random()}`,
+        timestamp,
+        status: 'classified',
+        emotion: result.emotion,
+        confidence: result.confidence,
+        probabilities: result.probabilities,
+        affect,
+        quality,
+        sessionId,
+        modelName: model.name,
+        modelVersion: model.version,
+        faceDetected: true,
+        subjectId: face.subjectId,
+        mediaTime,
+        actionUnits
+      };
+
+      emitEmotion(emotionResult);
+    }
+  };
+
+  const seekVideo = (video: HTMLVideoElement, time: number) => new Promise<void>((resolve, reject) => {
+    const settle = (error: Error | null) => {
+      clearTimeout(timeout);
+      video.removeEventListener('seeked', handleSeeked);
+      video.removeEventListener('error', handleError);
+      if (error) reject(error);
+      else resolve();
     };
+    const handleSeeked = () => settle(null);
+    const handleError = () => settle(new Error(video.error?.message || 'The video could not be decoded'));
+    const timeout = setTimeout(() => settle(new Error(`Seeking to ${formatMediaTime(time)} timed out`)), SEEK_TIMEOUT_MS);
+    video.addEventListener('seeked', handleSeeked);
+    video.addEventListener('error', handleError);
+    video.currentTime = time;
+  });
 
-    onEmotionDetected(emotionResult);
+  const releaseVideoFile = () => {
+    filePlayingRef.current = false;
+    setFilePlaying(false);
+    if (fileUrlRef.current) {
+      URL.revokeObjectURL(fileUrlRef.current);
+      fileUrlRef.current = null;
+    }
+    if (videoRef.current) {
+      videoRef.current.removeAttribute('src');
+      videoRef.current.load();
+    }
+    setFileName('');
+    setFileTime(0);
+    setFileDuration(0);
+    setFileError('');
   };
 
-  useEffect(() => {
-    let interval: NodeJS.Timeout;
-    if (isRecording && cameraState === 'active') {
-      interval = setInterval(processFrame, 1000);
+  const loadVideoFile = (file: File) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    releaseVideoFile();
+    resetTracking(true);
+    fileNextTimeRef.current = 0;
+
+    // Each imported file is analysed as its own session
+    setSessionId(`session_${Date.now()}`);
+    setFileName(file.name);
+
+    fileUrlRef.current = URL.createObjectURL(file);
+    video.srcObject = null;
+    video.muted = true;
+    video.src = fileUrlRef.current;
+
+    video.addEventListener('loadeddata', async () => {
+      setFileDuration(video.duration);
+      try {
+        await seekVideo(video, 0);
+        const frame = captureFrame(video, false);
+        if (frame) renderFrame(frame, null);
+      } catch (error) {
+        setFileError(error instanceof Error ? error.message : 'The video could not be read');
+      }
+    }, { once: true });
+  };
+
+  // Step through the file at a fixed analysis rate; results are keyed to media time,
+  // so analysis may run slower or faster than real time
+  const playVideoFile = async () => {
+    const video = videoRef.current;
+    if (!video || !modelRef.current || filePlayingRef.current) return;
+
+    filePlayingRef.current = true;
+    setFilePlaying(true);
+    setFileError('');
+    const step = 1 / analysisFps;
+
+    try {
+      while (filePlayingRef.current && fileNextTimeRef.current <= video.duration) {
+        const mediaTime = fileNextTimeRef.current;
+        await seekVideo(video, mediaTime);
+
+        const frame = captureFrame(video, false);
+        const client = inferenceClientRef.current;
+        const model = modelRef.current;
+        if (frame && client && model) {
+          // File frames are never dropped: each one waits for its result before the next seek
+          const inference = await client.infer(await createImageBitmap(video), {
+            mirror: false,
+            classify: true,
+            qualityThreshold: qualityThresholdRef.current
+          });
+          renderFrame(frame, handleInference(model, inference, mediaTime * 1000, 'media', mediaTime));
+        }
+
+        setFileTime(mediaTime);
+        fileNextTimeRef.current = mediaTime + step;
+      }
+    } catch (error) {
+      console.error('Video file analysis error:', error);
+      setFileError(`Analysis stopped: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      filePlayingRef.current = false;
+      setFilePlaying(false);
+    }
+  };
+
+  const pauseVideoFile = () => {
+    filePlayingRef.current = false;
+  };
+
+  const seekVideoFile = async (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+
+    // The tracker cannot follow subjects across a jump in media time
+    resetTracking();
+    fileNextTimeRef.current = time;
+    setFileTime(time);
+
+    if (!filePlayingRef.current) {
+      try {
+        await seekVideo(video, time);
+        setFileError('');
+        const frame = captureFrame(video, false);
+        if (frame) renderFrame(frame, null);
+      } catch (error) {
+        setFileError(error instanceof Error ? error.message : 'Seeking failed');
+      }
     }
-    return () => clearInterval(interval);
-  }, [isRecording, cameraState]);
+  };
+
+  const switchSourceMode = (mode: 'camera' | 'file') => {
+    if (mode === sourceMode) return;
+
+    if (mode === 'file') {
+      stopCamera();
+      deviceLostRef.current = false;
+    } else {
+      releaseVideoFile();
+    }
+    resetTracking();
+    setSourceMode(mode);
+  };
 
   useEffect(() => {
     if (isRecording && videoReady) {
@@ -251,30 +1114,80 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
 
   const toggleRecording = () => {
     if (cameraState !== 'active') return;
+    if (isRecording) {
+      stopSessionRecording();
+    } else if (recordingOptInSession === sessionId) {
+      startSessionRecording();
+    }
     setIsRecording(!isRecording);
   };
 
+  // Keep the device list current and bring a lost camera back when it is plugged in again
+  useEffect(() => {
+    if (!navigator.mediaDevices?.addEventListener) return;
+
+    const handleDeviceChange = async () => {
+      const devices = await refreshCameraDevices();
+      const wantedId = cameraSettingsRef.current.deviceId;
+      const available = wantedId === null ? devices.length > 0 : devices.some(device => device.deviceId === wantedId);
+      if (deviceLostRef.current && available) {
+        restartCameraRef.current();
+      }
+    };
+
+    refreshCameraDevices();
+    navigator.mediaDevices.addEventListener('devicechange', handleDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', handleDeviceChange);
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
       stopCamera();
-      if (videoRef.current && (videoRef.current as any)._cleanup) {
-        (videoRef.current as any)._cleanup();
+      filePlayingRef.current = false;
+      inferenceClientRef.current?.terminate();
+      inferenceClientRef.current = null;
+      if (fileUrlRef.current) {
+        URL.revokeObjectURL(fileUrlRef.current);
       }
     };
   }, []);
 
   const handleConsentAndStart = () => {
     setHasConsent(true);
+    setRecordingOptInSession(recordingRequested ? sessionId : null);
     initializeCamera();
   };
 
+  // Recording can be withdrawn here, but only the consent dialog can grant it
+  const handleRecordingOptInChange = (checked: boolean) => {
+    if (!checked) {
+      setRecordingOptInSession(null);
+      return;
+    }
+    setRecordingRequested(true);
+    setHasConsent(false);
+  };
+
   const handleVoiceAnalyzed = (result: VoiceAnalysis) => {
+    // Records from an imported audio file already carry their file offset
+    if (result.mediaTime !== null) {
+      if (onVoiceAnalyzed) onVoiceAnalyzed(result);
+      return;
+    }
+    const stamped = { ...result, mediaTime: recordingMediaTime(new Date(result.windowStart).getTime()) };
+    if (recordingStartedAtRef.current !== null) recordedVoiceRef.current.push(stamped);
     if (onVoiceAnalyzed) {
-      onVoiceAnalyzed(result);
+      onVoiceAnalyzed(stamped);
     }
   };
 
+  const handleAcousticFeatures = (record: AcousticFeatureRecord) => {
+    onAcousticFeatures?.(record.mediaTime !== null
+      ? record
+      : { ...record, mediaTime: recordingMediaTime(new Date(record.windowStart).getTime()) });
+  };
+
   return (
     <div className="space-y-6">
       <div className="bg-white rounded-lg shadow-lg p-6">
@@ -285,16 +1198,26 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
           </h2>
           <div className="flex items-center space-x-2">
             <div className={`w-3 h-3 rounded-full ${
-              cameraState === 'active' && isRecording ? 'bg-red-500 animate-pulse' : 
-              cameraState === 'active' ? 'bg-green-500' : 
+              (cameraState === 'active' && isRecording) || filePlaying ? 'bg-red-500 animate-pulse' : 
+              cameraState === 'active' || fileName ? 'bg-green-500' : 
               'bg-gray-400'
             }`}></div>
             <span className="text-sm text-gray-600">
-              {cameraState === 'active' && isRecording ? 'Recording' : 
+              {filePlaying ? 'Analyzing File' :
+               fileName ? 'File Loaded' :
+               cameraState === 'active' && isRecording ? 'Recording' : 
                cameraState === 'active' ? 'Camera Active' :
                cameraState === 'requesting' ? 'Requesting...' :
                'Stopped'}
             </span>
+            {(isRecording || filePlaying) && pipelineStats && (
+              <span
+                className="text-xs text-gray-500 font-mono bg-gray-100 px-2 py-0.5 rounded"
+                title={`Stale frames dropped: ${pipelineStats.dropped}`}
+              >
+                {pipelineStats.fps} fps · {pipelineStats.inferenceMs.toFixed(0)} ms
+              </span>
+            )}
           </div>
         </div>
 
@@ -308,6 +1231,16 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
                   This system processes facial micro-expressions for AI-assisted analysis. 
                   Do you have legal authority and subject consent to proceed?
                 </p>
+                <label className="flex items-start text-sm text-yellow-800 mb-3">
+                  <input
+                    type="checkbox"
+                    checked={recordingRequested}
+                    onChange={(e) => setRecordingRequested(e.target.checked)}
+                    className="mr-2 mt-0.5"
+                  />
+                  The subject also consents to camera and microphone recording of this session,
+                  stored only in this browser for later review.
+                </label>
                 <button
                   onClick={handleConsentAndStart}
                   className="bg-yellow-600 text-white px-4 py-2 rounded text-sm hover:bg-yellow-700"
@@ -328,7 +1261,7 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
                 <p className="text-red-700 text-sm mb-3">{errorMessage}</p>
                 <div className="space-x-2">
                   <button
-                    onClick={initializeCamera}
+                    onClick={() => initializeCamera()}
                     className="bg-red-600 text-white px-4 py-2 rounded text-sm hover:bg-red-700 inline-flex items-center"
                   >
                     <RefreshCw className="w-4 h-4 mr-1" />
@@ -346,6 +1279,103 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
           </div>
         )}
 
+        {hasConsent && (
+          <div className="flex space-x-2 mb-4">
+            {[
+              { id: 'camera', label: 'Live Camera', icon: Camera },
+              { id: 'file', label: 'Video File', icon: Film }
+            ].map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => switchSourceMode(id as 'camera' | 'file')}
+                disabled={isRecording || filePlaying}
+                className={`flex items-center px-3 py-2 rounded-lg text-sm font-medium disabled:opacity-50 ${
+                  sourceMode === id
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <Icon className="w-4 h-4 mr-2" />
+                {label}
+              </button>
+            ))}
+            {sourceMode === 'camera' && (
+              <button
+                onClick={() => setShowCameraSettings(!showCameraSettings)}
+                className={`flex items-center px-3 py-2 rounded-lg text-sm font-medium ml-auto ${
+                  showCameraSettings
+                    ? 'bg-gray-700 text-white'
+                    : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <Settings className="w-4 h-4 mr-2" />
+                Camera Settings
+              </button>
+            )}
+          </div>
+        )}
+
+        {hasConsent && sourceMode === 'camera' && showCameraSettings && (
+          <CameraSettingsPanel
+            devices={cameraDevices}
+            settings={cameraSettings}
+            activeTrackSettings={activeTrackSettings}
+            disabled={isRecording}
+            onChange={updateCameraSettings}
+            onRefreshDevices={refreshCameraDevices}
+          />
+        )}
+
+        {hasConsent && (
+          <div className="flex items-center justify-between bg-gray-50 p-3 rounded-lg mb-4 text-sm">
+            <label className="flex items-center text-gray-700">
+              <EyeOff className="w-4 h-4 mr-1" />
+              <span className="mr-2">Privacy mode</span>
+              <select
+                value={privacyMode}
+                onChange={(e) => updatePrivacyMode(e.target.value as PrivacyMode)}
+                disabled={sessionRecordingState !== 'idle'}
+                className="px-2 py-1 border border-gray-300 rounded text-sm disabled:opacity-50"
+              >
+                {PRIVACY_MODES.map(mode => (
+                  <option key={mode.id} value={mode.id}>{mode.label}</option>
+                ))}
+              </select>
+            </label>
+            <span className="text-xs text-gray-500">
+              {privacyMode === 'off'
+                ? 'Faces shown and recorded unmodified'
+                : 'Faces obscured on screen and in recordings; analysis uses the raw frame'}
+            </span>
+          </div>
+        )}
+
+        {hasConsent && sourceMode === 'camera' && (
+          <div className="flex items-center justify-between bg-gray-50 p-3 rounded-lg mb-4 text-sm">
+            <label className="flex items-center text-gray-700">
+              <input
+                type="checkbox"
+                checked={recordingOptInSession === sessionId}
+                onChange={(e) => handleRecordingOptInChange(e.target.checked)}
+                disabled={isRecording}
+                className="mr-2"
+              />
+              <Video className="w-4 h-4 mr-1" />
+              Record camera and microphone for session {sessionId.slice(-8)} (subject consent required)
+            </label>
+            <span className="text-xs text-gray-500">
+              {sessionRecordingState === 'recording' ? 'Recording while analysis runs' :
+               sessionRecordingState === 'saving' ? 'Saving recording...' :
+               recordingOptInSession === sessionId ? 'Starts with analysis' :
+               'Not recording; ticking asks for consent again'}
+            </span>
+          </div>
+        )}
+
+        {hasConsent && recordingError && (
+          <div className="text-sm text-orange-600 mb-4">{recordingError}</div>
+        )}
+
         <div className="relative mb-4">
           {/* Hidden video element for stream capture */}
           <video
@@ -379,11 +1409,11 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
             </div>
           )}
           
-          {cameraState === 'idle' && hasConsent && (
+          {cameraState === 'idle' && hasConsent && sourceMode === 'camera' && (
             <div className="absolute inset-0 bg-gray-900 bg-opacity-75 rounded-lg flex items-center justify-center">
               <div className="text-center text-white">
                 <button
-                  onClick={initializeCamera}
+                  onClick={() => initializeCamera()}
                   className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg inline-flex items-center"
                 >
                   <Camera className="w-5 h-5 mr-2" />
@@ -393,6 +1423,28 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
             </div>
           )}
           
+          {hasConsent && sourceMode === 'file' && !fileName && (
+            <div className="absolute inset-0 bg-gray-900 bg-opacity-75 rounded-lg flex items-center justify-center">
+              <div className="text-center text-white">
+                <label className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg inline-flex items-center cursor-pointer">
+                  <Upload className="w-5 h-5 mr-2" />
+                  Load Video File
+                  <input
+                    type="file"
+                    accept="video/mp4,video/webm,.mp4,.webm"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) loadVideoFile(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                <p className="text-sm text-gray-300 mt-2">MP4 or WebM, analysed locally</p>
+              </div>
+            </div>
+          )}
+          
           {!hasConsent && (
             <div className="absolute inset-0 bg-gray-900 bg-opacity-75 rounded-lg flex items-center justify-center">
               <div className="text-center text-white">
@@ -417,13 +1469,140 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
                 {isRecording ? 'Stop' : 'Start'} Analysis
               </button>
               
-              <div className="bg-black bg-opacity-70 text-white px-3 py-1 rounded">
+              <div className="bg-black bg-opacity-70 text-white px-3 py-1 rounded flex items-center">
+                {sessionRecordingState === 'recording' && (
+                  <span className="flex items-center text-red-400 mr-2">
+                    <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse mr-1"></span>
+                    REC
+                  </span>
+                )}
                 Session: {sessionId.slice(-8)}
+                {isRecording && ` · ${visibleSubjects} subject${visibleSubjects === 1 ? '' : 's'} in frame`}
               </div>
             </div>
           )}
         </div>
 
+        {sourceMode === 'file' && fileName && (
+          <div className="bg-gray-50 p-3 rounded-lg mb-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center text-sm text-gray-700 truncate">
+                <Film className="w-4 h-4 mr-2 flex-shrink-0" />
+                <span className="truncate">{fileName}</span>
+              </div>
+              <div className="text-xs text-gray-500">
+                Session: {sessionId.slice(-8)}
+                {` · ${visibleSubjects} subject${visibleSubjects === 1 ? '' : 's'} in frame`}
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={filePlaying ? pauseVideoFile : playVideoFile}
+                disabled={modelState !== 'ready'}
+                className={`flex items-center px-4 py-2 rounded-lg text-white font-medium disabled:opacity-50 ${
+                  filePlaying ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+                }`}
+              >
+                {filePlaying ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+                {filePlaying ? 'Pause' : 'Play'}
+              </button>
+              <input
+                type="range"
+                min={0}
+                max={fileDuration || 0}
+                step={1 / analysisFps}
+                value={fileTime}
+                onChange={(e) => seekVideoFile(Number(e.target.value))}
+                className="flex-1"
+              />
+              <span className="text-sm text-gray-600 font-mono w-28 text-right">
+                {formatMediaTime(fileTime)} / {formatMediaTime(fileDuration)}
+              </span>
+            </div>
+
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="h-2 rounded-full bg-blue-500 transition-all duration-100"
+                style={{ width: `${fileDuration > 0 ? (fileTime / fileDuration) * 100 : 0}%` }}
+              ></div>
+            </div>
+
+            {fileError && (
+              <div className="text-sm text-red-600">{fileError}</div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm text-gray-600">Analysis Rate</span>
+                <select
+                  value={analysisFps}
+                  onChange={(e) => setAnalysisFps(Number(e.target.value))}
+                  disabled={filePlaying}
+                  className="border border-gray-300 rounded px-3 py-1 text-sm disabled:opacity-50"
+                >
+                  {[1, 5, 10, 15, 25, 30].map(fps => (
+                    <option key={fps} value={fps}>{fps} fps</option>
+                  ))}
+                </select>
+              </div>
+              <label className="text-sm text-blue-600 hover:text-blue-700 cursor-pointer inline-flex items-center">
+                <Upload className="w-4 h-4 mr-1" />
+                Load Another File
+                <input
+                  type="file"
+                  accept="video/mp4,video/webm,.mp4,.webm"
+                  className="hidden"
+                  disabled={filePlaying}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadVideoFile(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between bg-gray-50 p-3 rounded-lg mb-4">
+          <div className="flex items-center space-x-3">
+            <span className="text-sm text-gray-600">Detection Model</span>
+            <select
+              value={modelId}
+              onChange={(e) => setModelId(e.target.value)}
+              disabled={isRecording || filePlaying}
+              className="border border-gray-300 rounded px-3 py-1 text-sm disabled:opacity-50"
+            >
+              {EMOTION_MODEL_CATALOG.map(model => (
+                <option key={model.id} value={model.id}>
+                  {model.name}{modelRef.current?.id === model.id ? ` v${modelRef.current.version}` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+          <span className={`text-xs px-2 py-1 rounded ${
+            modelState === 'ready' ? 'text-green-700 bg-green-100' :
+            modelState === 'loading' ? 'text-yellow-700 bg-yellow-100' :
+            'text-red-700 bg-red-100'
+          }`}>
+            {modelState === 'ready' ? 'Model Ready' :
+             modelState === 'loading' ? 'Loading Model...' :
+             `Model Error: ${modelError}`}
+          </span>
+        </div>
+
+        {modelId === 'demo' && (
+          <div className="bg-orange-50 border border-orange-200 rounded-lg p-3 mb-4">
+            <div className="flex items-center">
+              <AlertTriangle className="w-4 h-4 text-orange-600 mr-2" />
+              <span className="text-sm text-orange-700">
+                {EMOTION_MODEL_CATALOG.find(model => model.id === 'demo')?.description}
+              </span>
+            </div>
+          </div>
+        )}
+
         {hasConsent && (
           <div className="grid grid-cols-2 gap-4 mb-4">
             <div className="bg-gray-50 p-3 rounded-lg">
@@ -431,12 +1610,161 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
               <div className="text-lg font-semibold capitalize text-gray-800">
                 {currentEmotion}
               </div>
+              {currentProbabilities && (
+                <div className="mt-2 space-y-1">
+                  {EMOTION_TAXONOMY.map(label => (
+                    <div key={label} className="flex items-center text-xs">
+                      <div className="w-16 text-gray-600 capitalize">{label}</div>
+                      <div className="flex-1 mx-2 bg-gray-200 rounded-full h-1.5">
+                        <div
+                          className={`h-1.5 rounded-full ${label === currentEmotion ? 'bg-blue-600' : 'bg-blue-300'}`}
+                          style={{ width: `${currentProbabilities[label] * 100}%` }}
+                        ></div>
+                      </div>
+                      <div className="w-10 text-right text-gray-600">
+                        {(currentProbabilities[label] * 100).toFixed(0)}%
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
             <div className="bg-gray-50 p-3 rounded-lg">
               <div className="text-sm text-gray-600 mb-1">Confidence Score</div>
               <div className="text-lg font-semibold text-gray-800">
                 {(confidence * 100).toFixed(1)}%
               </div>
+              {currentAffect && (
+                <div className="mt-2 space-y-1 text-xs text-gray-600">
+                  {(['valence', 'arousal', 'dominance'] as const).map(axis => (
+                    <div key={axis} className="flex justify-between">
+                      <span className="capitalize">{axis}</span>
+                      <span className="font-mono">{currentAffect[axis] >= 0 ? '+' : ''}{currentAffect[axis].toFixed(2)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {hasConsent && (
+          <div className="bg-gray-50 p-3 rounded-lg mb-4">
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm text-gray-600">Frame Quality</div>
+              <label className="flex items-center text-xs text-gray-600">
+                Threshold
+                <input
+                  type="range"
+                  min={0}
+                  max={0.9}
+                  step={0.05}
+                  value={qualityThreshold}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    qualityThresholdRef.current = value;
+                    setQualityThreshold(value);
+                  }}
+                  className="mx-2 w-24"
+                />
+                <span className="font-mono w-8">{qualityThreshold.toFixed(2)}</span>
+              </label>
+            </div>
+            {currentQuality ? (
+              <>
+                <div className="flex items-center mb-2">
+                  <div className="flex-1 bg-gray-200 rounded-full h-2 mr-3">
+                    <div
+                      className={`h-2 rounded-full ${
+                        !currentQuality.usable ? 'bg-red-500' :
+                        currentQuality.score < 0.75 ? 'bg-yellow-500' :
+                        'bg-green-500'
+                      }`}
+                      style={{ width: `${currentQuality.score * 100}%` }}
+                    ></div>
+                  </div>
+                  <span className={`text-sm font-semibold ${currentQuality.usable ? 'text-gray-800' : 'text-red-600'}`}>
+                    {currentQuality.usable ? 'Usable' : 'Unusable'} ({(currentQuality.score * 100).toFixed(0)}%)
+                  </span>
+                </div>
+                <div className="grid grid-cols-5 gap-2 text-xs text-gray-600">
+                  {([
+                    ['Lighting', currentQuality.brightness],
+                    ['Contrast', currentQuality.contrast],
+                    ['Sharpness', currentQuality.sharpness],
+                    ['Pose', currentQuality.pose],
+                    ['Face size', currentQuality.faceSize]
+                  ] as [string, number][]).map(([label, value]) => (
+                    <div key={label} className={value < qualityThreshold ? 'text-red-600' : ''}>
+                      {label}: {(value * 100).toFixed(0)}%
+                    </div>
+                  ))}
+                </div>
+                {currentQuality.issues.length > 0 && (
+                  <div className="text-xs text-orange-600 mt-2">
+                    Frames excluded from analysis: {currentQuality.issues.join(', ')}
+                  </div>
+                )}
+              </>
+            ) : (
+              <div className="text-xs text-gray-500">No face in view</div>
+            )}
+          </div>
+        )}
+
+        {hasConsent && currentPulse && (
+          <div className="bg-gray-50 p-3 rounded-lg mb-4">
+            <div className="flex items-center justify-between mb-2">
+              <div className="text-sm text-gray-600 flex items-center">
+                <HeartPulse className="w-4 h-4 mr-1 text-red-500" />
+                Pulse (rPPG) · {currentPulse.subjectId}
+              </div>
+              <div className="text-xs text-gray-500">
+                Signal quality {(currentPulse.signalQuality * 100).toFixed(0)}%
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              <div>
+                <span className="text-lg font-semibold text-gray-800">
+                  {currentPulse.heartRate !== null ? currentPulse.heartRate.toFixed(0) : '--'}
+                </span>
+                <span className="text-xs text-gray-600 ml-1">bpm</span>
+              </div>
+              <div className="text-xs text-gray-600">
+                RMSSD: {currentPulse.hrv ? `${currentPulse.hrv.rmssd.toFixed(0)} ms` : '--'}
+              </div>
+              <div className="text-xs text-gray-600">
+                SDNN: {currentPulse.hrv ? `${currentPulse.hrv.sdnn.toFixed(0)} ms` : '--'}
+              </div>
+            </div>
+            {currentPulse.heartRate === null && (
+              <div className="text-xs text-orange-600 mt-2">
+                {pulseLowFrameRate
+                  ? `Frame rate too low for pulse (${currentPulse.frameRate.toFixed(1)} fps): raise the camera frame rate or close other tabs`
+                  : 'Pulse signal too weak: keep still, face the camera and use steady lighting'}
+              </div>
+            )}
+          </div>
+        )}
+
+        {hasConsent && currentActionUnits && (
+          <div className="bg-gray-50 p-3 rounded-lg mb-4">
+            <div className="text-sm text-gray-600 mb-2">Active Action Units</div>
+            <div className="flex flex-wrap gap-2">
+              {(Object.entries(currentActionUnits) as [ActionUnitCode, ActionUnitFrame[ActionUnitCode]][])
+                .filter(([, reading]) => reading.present)
+                .map(([code, reading]) => (
+                  <span
+                    key={code}
+                    title={ACTION_UNITS[code]}
+                    className="text-xs px-2 py-1 rounded bg-indigo-100 text-indigo-700 font-medium"
+                  >
+                    {code}{reading.unilateral ? ' (U)' : ''} · {reading.intensity.toFixed(1)}
+                  </span>
+                ))}
+              {Object.values(currentActionUnits).every(reading => !reading.present) && (
+                <span className="text-xs text-gray-500">None above trace level</span>
+              )}
             </div>
           </div>
         )}
@@ -464,6 +1792,7 @@ const EmotionDetector: React.FC<EmotionDetectorProps> = ({ onEmotionDetected, on
       {hasConsent && (
         <AudioAnalyzer 
           onVoiceAnalyzed={handleVoiceAnalyzed}
+          onAcousticFeatures={handleAcousticFeatures}
           sessionId={sessionId}
           isActive={isRecording}
         />
@@ -0,0 +1,347 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Film, Flag, X } from 'lucide-react';
+import DataLogger from './DataLogger';
+import { buildEmotionSegments, findActiveRecord, formatMediaTime } from '../analysis/timeline';
+
+type LoggerProps = React.ComponentProps<typeof DataLogger>;
+type EmotionResult = LoggerProps['data'][number];
+type VoiceAnalysis = LoggerProps['voiceData'][number];
+type MicroExpressionEvent = LoggerProps['microExpressionData'][number];
+type PhysiologicalSignals = LoggerProps['physiologicalData'][number];
+
+interface BehavioralSignals {
+  id: string;
+  timestamp: string;
+  sessionId: string;
+  subjectId: string;
+  mediaTime: number | null;
+  headPose: { yaw: number; pitch: number; roll: number };
+  gaze: { yaw: number; pitch: number; direction: 'center' | 'left' | 'right' | 'up' | 'down' } | null;
+  downwardGazeRatio: number;
+  eyeAspectRatio: number;
+  blinkCount: number;
+  blinkRate: number | null;
+}
+
+interface ReviewMarker {
+  id: string;
+  time: number;
+  label: string;
+  source: 'micro' | 'operator';
+}
+
+interface ReviewPlayerProps {
+  title: string;
+  videoUrl: string;
+  // Seconds; MediaRecorder output often reports an unknown duration until fully read
+  durationHint?: number;
+  emotions: EmotionResult[];
+  voice: VoiceAnalysis[];
+  microExpressions: MicroExpressionEvent[];
+  behavior: BehavioralSignals[];
+  physiological: PhysiologicalSignals[];
+  // Epoch ms at which the video starts, used to place wall-clock micro-expression events
+  startedAt: number | null;
+  onClose: () => void;
+}
+
+const EMOTION_FILLS: Record<string, string> = {
+  happy: '#16a34a',
+  sad: '#2563eb',
+  angry: '#dc2626',
+  fearful: '#9333ea',
+  surprised: '#ca8a04',
+  disgusted: '#ea580c',
+  neutral: '#6b7280',
+  no_face: '#e5e7eb',
+  low_quality: '#fcd34d'
+};
+
+const TIMELINE_WIDTH = 1000;
+// Blinks per minute at the top of the blink track; resting rates sit around 15-20
+const MAX_BLINK_RATE = 60;
+
+const ReviewPlayer: React.FC<ReviewPlayerProps> = ({
+  title,
+  videoUrl,
+  durationHint,
+  emotions,
+  voice,
+  microExpressions,
+  behavior,
+  physiological,
+  startedAt,
+  onClose
+}) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [videoDuration, setVideoDuration] = useState<number | null>(null);
+  const [operatorMarkers, setOperatorMarkers] = useState<ReviewMarker[]>([]);
+  const [markerLabel, setMarkerLabel] = useState('');
+
+  const subjects = useMemo(() => {
+    const counts = new Map<string, number>();
+    emotions.forEach(item => {
+      if (item.subjectId) counts.set(item.subjectId, (counts.get(item.subjectId) ?? 0) + 1);
+    });
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([id]) => id);
+  }, [emotions]);
+  const [selectedSubject, setSelectedSubject] = useState<string | null>(null);
+  const subject = selectedSubject ?? subjects[0] ?? null;
+
+  // Frames without a face carry no subject, so they belong to every subject's track
+  const timedEmotions = useMemo(() => emotions
+    .filter(item => item.mediaTime !== null && (item.subjectId === null || item.subjectId === subject))
+    .map(item => ({ id: item.id, time: item.mediaTime as number, emotion: item.emotion ?? item.status })),
+  [emotions, subject]);
+
+  // The stress track follows the subject; interviewer and unattributed speech are left out
+  const timedVoice = useMemo(() => voice
+    .filter(item => item.mediaTime !== null && item.speaker === 'subject')
+    .map(item => ({ id: item.id, time: item.mediaTime as number, stress: item.stressLevel })),
+  [voice]);
+
+  const timedHeartRate = useMemo(() => physiological
+    .filter(item => item.mediaTime !== null && item.heartRate !== null && (item.subjectId === subject || subject === null))
+    .map(item => ({ id: item.id, time: item.mediaTime as number, heartRate: item.heartRate as number })),
+  [physiological, subject]);
+
+  const timedBlinkRate = useMemo(() => behavior
+    .filter(item => item.mediaTime !== null && item.blinkRate !== null && (item.subjectId === subject || subject === null))
+    .map(item => ({ id: item.id, time: item.mediaTime as number, blinkRate: item.blinkRate as number })),
+  [behavior, subject]);
+
+  const microMarkers = useMemo(() => microExpressions
+    .filter(event => event.subjectId === subject || subject === null)
+    .flatMap<ReviewMarker>(event => {
+      const time = event.clock === 'media'
+        ? event.onsetTime / 1000
+        : startedAt !== null ? (event.onsetTime - startedAt) / 1000 : null;
+      return time === null || time < 0 ? [] : [{ id: event.id, time, label: `${event.region} micro-expression`, source: 'micro' }];
+    }),
+  [microExpressions, startedAt, subject]);
+
+  const segments = useMemo(() => buildEmotionSegments(timedEmotions), [timedEmotions]);
+  const markers = [...microMarkers, ...operatorMarkers];
+
+  const lastRecordTime = Math.max(0, ...timedEmotions.map(item => item.time), ...timedVoice.map(item => item.time),
+    ...timedHeartRate.map(item => item.time), ...timedBlinkRate.map(item => item.time));
+  const duration = videoDuration ?? durationHint ?? lastRecordTime + 1;
+  const toX = (time: number) => (Math.min(time, duration) / duration) * TIMELINE_WIDTH;
+
+  const activeRecord = findActiveRecord([...timedEmotions, ...timedVoice, ...microMarkers], currentTime);
+
+  const seek = (time: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = Math.max(0, Math.min(time, duration));
+    setCurrentTime(video.currentTime);
+  };
+
+  const handleTimelineClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    const bounds = event.currentTarget.getBoundingClientRect();
+    seek(((event.clientX - bounds.left) / bounds.width) * duration);
+  };
+
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (video && Number.isFinite(video.duration)) setVideoDuration(video.duration);
+  };
+
+  const addMarker = () => {
+    setOperatorMarkers(prev => [...prev, {
+      id: `marker_${Date.now()}`,
+      time: currentTime,
+      label: markerLabel.trim() || `Marker ${prev.length + 1}`,
+      source: 'operator'
+    }]);
+    setMarkerLabel('');
+  };
+
+  const stressPoints = timedVoice
+    .map(item => `${toX(item.time).toFixed(1)},${(40 - item.stress * 36).toFixed(1)}`)
+    .join(' ');
+
+  // Heart rate spans its own range in the session, so small changes stay visible
+  const heartRates = timedHeartRate.map(item => item.heartRate);
+  const minHeartRate = Math.min(...heartRates);
+  const heartRateSpan = Math.max(10, Math.max(...heartRates) - minHeartRate);
+  const heartRatePoints = timedHeartRate
+    .map(item => `${toX(item.time).toFixed(1)},${(30 - (item.heartRate - minHeartRate) / heartRateSpan * 26).toFixed(1)}`)
+    .join(' ');
+  const blinkPoints = timedBlinkRate
+    .map(item => `${toX(item.time).toFixed(1)},${(30 - Math.min(item.blinkRate / MAX_BLINK_RATE, 1) * 26).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-800 flex items-center">
+            <Film className="mr-2" />
+            Review: {title}
+          </h2>
+          <button
+            onClick={onClose}
+            className="flex items-center px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Close
+          </button>
+        </div>
+
+        <video
+          ref={videoRef}
+          src={videoUrl}
+          controls
+          className="w-full max-h-[480px] bg-black rounded-lg"
+          onLoadedMetadata={handleLoadedMetadata}
+          onDurationChange={handleLoadedMetadata}
+          onTimeUpdate={() => setCurrentTime(videoRef.current?.currentTime ?? 0)}
+          onSeeked={() => setCurrentTime(videoRef.current?.currentTime ?? 0)}
+        />
+
+        <div className="flex items-center justify-between mt-4 mb-2 text-sm">
+          <div className="font-mono text-gray-700">
+            {formatMediaTime(currentTime)} / {formatMediaTime(duration)}
+          </div>
+          {subjects.length > 1 && (
+            <select
+              value={subject ?? ''}
+              onChange={(e) => setSelectedSubject(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm"
+            >
+              {subjects.map(id => (
+                <option key={id} value={id}>{id}</option>
+              ))}
+            </select>
+          )}
+        </div>
+
+        <div className="flex">
+          <div className="w-20 shrink-0 text-xs text-gray-500">
+            <div className="h-6 flex items-center">Emotion</div>
+            <div className="h-10 flex items-center">Voice stress</div>
+            <div className="h-8 flex items-center">Pulse</div>
+            <div className="h-8 flex items-center">Blink rate</div>
+            <div className="h-5 flex items-center">Markers</div>
+          </div>
+          <div className="relative flex-1 cursor-pointer select-none" onClick={handleTimelineClick}>
+            <svg viewBox={`0 0 ${TIMELINE_WIDTH} 24`} preserveAspectRatio="none" className="block w-full h-6 bg-gray-50">
+              {segments.map(segment => (
+                <rect
+                  key={segment.id}
+                  x={toX(segment.start)}
+                  width={Math.max(1, toX(segment.end) - toX(segment.start))}
+                  y={0}
+                  height={24}
+                  fill={EMOTION_FILLS[segment.emotion] ?? '#9ca3af'}
+                >
+                  <title>{`${segment.emotion} @ ${formatMediaTime(segment.start)}`}</title>
+                </rect>
+              ))}
+            </svg>
+            <svg viewBox={`0 0 ${TIMELINE_WIDTH} 40`} preserveAspectRatio="none" className="block w-full h-10 bg-gray-50 border-t border-white">
+              <line x1={0} x2={TIMELINE_WIDTH} y1={40 - 0.7 * 36} y2={40 - 0.7 * 36} stroke="#fca5a5" strokeDasharray="4 4" vectorEffect="non-scaling-stroke" />
+              {timedVoice.length > 1 && (
+                <polyline points={stressPoints} fill="none" stroke="#dc2626" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+              )}
+            </svg>
+            <svg viewBox={`0 0 ${TIMELINE_WIDTH} 32`} preserveAspectRatio="none" className="block w-full h-8 bg-gray-50 border-t border-white">
+              {timedHeartRate.length > 1 && (
+                <polyline points={heartRatePoints} fill="none" stroke="#e11d48" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+              )}
+            </svg>
+            <svg viewBox={`0 0 ${TIMELINE_WIDTH} 32`} preserveAspectRatio="none" className="block w-full h-8 bg-gray-50 border-t border-white">
+              {timedBlinkRate.length > 1 && (
+                <polyline points={blinkPoints} fill="none" stroke="#0891b2" strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+              )}
+            </svg>
+            <svg viewBox={`0 0 ${TIMELINE_WIDTH} 20`} preserveAspectRatio="none" className="block w-full h-5 bg-gray-50 border-t border-white">
+              {markers.map(marker => (
+                <rect
+                  key={marker.id}
+                  x={toX(marker.time) - 1}
+                  width={3}
+                  y={2}
+                  height={16}
+                  fill={marker.source === 'micro' ? '#db2777' : '#2563eb'}
+                >
+                  <title>{`${marker.label} @ ${formatMediaTime(marker.time)}`}</title>
+                </rect>
+              ))}
+            </svg>
+            <div
+              className="absolute top-0 bottom-0 w-0.5 bg-gray-900 pointer-events-none"
+              style={{ left: `${(toX(currentTime) / TIMELINE_WIDTH) * 100}%` }}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-3 mt-3 text-xs text-gray-600">
+          {Object.entries(EMOTION_FILLS).map(([emotion, fill]) => (
+            <div key={emotion} className="flex items-center">
+              <span className="inline-block w-3 h-3 rounded-sm mr-1" style={{ backgroundColor: fill }} />
+              {emotion.replace('_', ' ')}
+            </div>
+          ))}
+          <div className="flex items-center">
+            <span className="inline-block w-3 h-0.5 bg-red-600 mr-1" />
+            stress (dashed: 70%)
+          </div>
+          <div className="flex items-center">
+            <span className="inline-block w-3 h-0.5 bg-rose-600 mr-1" />
+            heart rate
+          </div>
+          <div className="flex items-center">
+            <span className="inline-block w-3 h-0.5 bg-cyan-600 mr-1" />
+            blinks (top: {MAX_BLINK_RATE}/min)
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2 mt-4">
+          <input
+            type="text"
+            value={markerLabel}
+            onChange={(e) => setMarkerLabel(e.target.value)}
+            placeholder="Marker label"
+            className="px-2 py-1 border border-gray-300 rounded text-sm"
+          />
+          <button
+            onClick={addMarker}
+            className="flex items-center px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+          >
+            <Flag className="w-4 h-4 mr-1" />
+            Add marker at {formatMediaTime(currentTime)}
+          </button>
+        </div>
+
+        {markers.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {[...markers].sort((a, b) => a.time - b.time).map(marker => (
+              <button
+                key={marker.id}
+                onClick={() => seek(marker.time)}
+                className={`px-2 py-1 rounded text-xs ${
+                  marker.source === 'micro' ? 'text-pink-700 bg-pink-50' : 'text-blue-700 bg-blue-50'
+                } hover:opacity-80`}
+              >
+                {formatMediaTime(marker.time)} {marker.label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <DataLogger
+        data={emotions}
+        voiceData={voice}
+        microExpressionData={microExpressions}
+        physiologicalData={physiological}
+        highlightedId={activeRecord?.id ?? null}
+      />
+    </div>
+  );
+};
+
+export default ReviewPlayer;
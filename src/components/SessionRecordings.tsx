@@ -0,0 +1,282 @@
+import React, { useEffect, useState } from 'react';
+import { Video, Download, Trash2, Mic, MicOff, RefreshCw, Play, Upload } from 'lucide-react';
+import { SessionRecording, deleteRecording, listRecordings } from '../storage/recordingStore';
+import ReviewPlayer from './ReviewPlayer';
+
+type ReviewProps = React.ComponentProps<typeof ReviewPlayer>;
+type EmotionResult = ReviewProps['emotions'][number];
+type VoiceAnalysis = ReviewProps['voice'][number];
+type MicroExpressionEvent = ReviewProps['microExpressions'][number];
+type BehavioralSignals = ReviewProps['behavior'][number];
+type PhysiologicalSignals = ReviewProps['physiological'][number];
+type StoredRecording = SessionRecording<EmotionResult, VoiceAnalysis, MicroExpressionEvent, BehavioralSignals, PhysiologicalSignals>;
+
+interface ReviewSource {
+  title: string;
+  video: Blob;
+  durationHint?: number;
+  emotions: EmotionResult[];
+  voice: VoiceAnalysis[];
+  microExpressions: MicroExpressionEvent[];
+  behavior: BehavioralSignals[];
+  physiological: PhysiologicalSignals[];
+  startedAt: number | null;
+}
+
+interface SessionRecordingsProps {
+  // Bumped by the parent whenever a new recording has been saved
+  refreshKey: number;
+  // In-memory records, reviewable against an imported copy of the analysed video file
+  emotionData: EmotionResult[];
+  voiceData: VoiceAnalysis[];
+  microExpressionData: MicroExpressionEvent[];
+  behaviorData: BehavioralSignals[];
+  physiologicalData: PhysiologicalSignals[];
+}
+
+const SessionRecordings: React.FC<SessionRecordingsProps> = ({ refreshKey, emotionData, voiceData, microExpressionData, behaviorData, physiologicalData }) => {
+  const [recordings, setRecordings] = useState<StoredRecording[]>([]);
+  const [loadState, setLoadState] = useState<'loading' | 'ready' | 'error'>('loading');
+  const [loadError, setLoadError] = useState<string>('');
+  const [review, setReview] = useState<ReviewSource | null>(null);
+  const [reviewUrl, setReviewUrl] = useState<string | null>(null);
+  const [importSession, setImportSession] = useState<string>('');
+
+  // Only sessions analysed from a file carry media times that line up with an imported video
+  const fileSessions = Array.from(new Set(
+    emotionData.filter(item => item.mediaTime !== null).map(item => item.sessionId)
+  ));
+
+  useEffect(() => {
+    if (!review) {
+      setReviewUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(review.video);
+    setReviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [review]);
+
+  const loadRecordings = async () => {
+    setLoadState('loading');
+    try {
+      setRecordings(await listRecordings<EmotionResult, VoiceAnalysis, MicroExpressionEvent, BehavioralSignals, PhysiologicalSignals>());
+      setLoadState('ready');
+    } catch (error) {
+      console.error('Loading recordings failed:', error);
+      setLoadError(error instanceof Error ? error.message : 'Could not open local storage');
+      setLoadState('error');
+    }
+  };
+
+  useEffect(() => {
+    loadRecordings();
+  }, [refreshKey]);
+
+  const download = (blob: Blob, fileName: string) => {
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    window.URL.revokeObjectURL(url);
+  };
+
+  const downloadVideo = (recording: StoredRecording) => {
+    const extension = recording.mimeType.includes('mp4') ? 'mp4' : 'webm';
+    download(recording.video, `${recording.sessionId}_${recording.id}.${extension}`);
+  };
+
+  const downloadRecords = (recording: StoredRecording) => {
+    const { video, ...records } = recording;
+    const payload = { ...records, videoSize: video.size, notes: 'Non-evidence data' };
+    download(
+      new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }),
+      `${recording.sessionId}_${recording.id}.json`
+    );
+  };
+
+  const reviewRecording = (recording: StoredRecording) => {
+    setReview({
+      title: `Session ${recording.sessionId.slice(-8)}`,
+      video: recording.video,
+      durationHint: recording.durationMs / 1000,
+      emotions: recording.emotions,
+      voice: recording.voice,
+      microExpressions: recording.microExpressions,
+      behavior: recording.behavior ?? [],
+      physiological: recording.physiological ?? [],
+      startedAt: recording.startedAt
+    });
+  };
+
+  const reviewImportedVideo = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !importSession) return;
+    setReview({
+      title: file.name,
+      video: file,
+      emotions: emotionData.filter(item => item.sessionId === importSession),
+      voice: voiceData.filter(item => item.sessionId === importSession),
+      microExpressions: microExpressionData.filter(item => item.sessionId === importSession),
+      behavior: behaviorData.filter(item => item.sessionId === importSession),
+      physiological: physiologicalData.filter(item => item.sessionId === importSession),
+      startedAt: null
+    });
+  };
+
+  const removeRecording = async (recording: StoredRecording) => {
+    if (!window.confirm(`Delete the recording of session ${recording.sessionId.slice(-8)}? This cannot be undone.`)) return;
+    await deleteRecording(recording.id);
+    loadRecordings();
+  };
+
+  const formatDuration = (ms: number) => {
+    const seconds = Math.round(ms / 1000);
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+  };
+
+  if (review && reviewUrl) {
+    return (
+      <ReviewPlayer
+        title={review.title}
+        videoUrl={reviewUrl}
+        durationHint={review.durationHint}
+        emotions={review.emotions}
+        voice={review.voice}
+        microExpressions={review.microExpressions}
+        behavior={review.behavior}
+        physiological={review.physiological}
+        startedAt={review.startedAt}
+        onClose={() => setReview(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold text-gray-800 flex items-center">
+          <Video className="mr-2" />
+          Session Recordings
+        </h2>
+        <button
+          onClick={loadRecordings}
+          className="flex items-center px-3 py-1 bg-gray-100 text-gray-700 rounded text-sm hover:bg-gray-200"
+        >
+          <RefreshCw className="w-4 h-4 mr-1" />
+          Refresh
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-600 mb-4">
+        Recordings are stored only in this browser, together with the detection records
+        captured while they ran. Record times are seconds from the start of each recording.
+      </p>
+
+      {loadState === 'error' && (
+        <div className="text-sm text-red-600 mb-4">{loadError}</div>
+      )}
+
+      <div className="space-y-2">
+        {recordings.map(recording => (
+          <div key={recording.id} className="flex items-center justify-between p-3 border border-gray-200 rounded-lg">
+            <div className="flex items-center space-x-4">
+              <div className="text-sm font-medium text-gray-800">
+                Session {recording.sessionId.slice(-8)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {new Date(recording.createdAt).toLocaleString()}
+              </div>
+              <div className="text-sm text-gray-600 font-mono">
+                {formatDuration(recording.durationMs)}
+              </div>
+              <div className="text-xs text-gray-500">
+                {(recording.video.size / (1024 * 1024)).toFixed(1)} MB
+              </div>
+              {recording.hasAudio
+                ? <Mic className="w-4 h-4 text-green-600" />
+                : <MicOff className="w-4 h-4 text-gray-400" />}
+              <div className="text-xs text-gray-500">
+                {recording.emotions.length} visual · {recording.voice.length} voice · {recording.microExpressions.length} micro
+              </div>
+            </div>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => reviewRecording(recording)}
+                className="flex items-center px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+              >
+                <Play className="w-4 h-4 mr-1" />
+                Review
+              </button>
+              <button
+                onClick={() => downloadVideo(recording)}
+                className="flex items-center px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                Video
+              </button>
+              <button
+                onClick={() => downloadRecords(recording)}
+                className="flex items-center px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+              >
+                <Download className="w-4 h-4 mr-1" />
+                Records
+              </button>
+              <button
+                onClick={() => removeRecording(recording)}
+                className="flex items-center px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+        {loadState === 'ready' && recordings.length === 0 && (
+          <div className="text-center py-8 text-gray-500">
+            <Video className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No recordings yet</p>
+            <p className="text-sm">Opt in to recording on the detector before starting analysis</p>
+          </div>
+        )}
+      </div>
+
+      <div className="mt-6 p-4 bg-gray-50 rounded-lg">
+        <h3 className="font-semibold text-gray-700 mb-2">Review an Imported Video</h3>
+        <p className="text-sm text-gray-600 mb-3">
+          Pick a session analysed from a video file, then open the same file to replay it against its records.
+        </p>
+        <div className="flex items-center space-x-2">
+          <select
+            value={importSession}
+            onChange={(e) => setImportSession(e.target.value)}
+            className="px-3 py-1 border border-gray-300 rounded text-sm"
+          >
+            <option value="">Select session</option>
+            {fileSessions.map(sessionId => (
+              <option key={sessionId} value={sessionId}>
+                Session {sessionId.slice(-8)}
+              </option>
+            ))}
+          </select>
+          <label className={`flex items-center px-3 py-1 rounded text-sm text-white ${
+            importSession ? 'bg-blue-600 hover:bg-blue-700 cursor-pointer' : 'bg-blue-600 opacity-50 cursor-not-allowed'
+          }`}>
+            <Upload className="w-4 h-4 mr-1" />
+            Open Video
+            <input
+              type="file"
+              accept="video/*"
+              disabled={!importSession}
+              onChange={reviewImportedVideo}
+              className="hidden"
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionRecordings;
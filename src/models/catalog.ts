@@ -0,0 +1,31 @@
+// Provider metadata for the UI thread. Importing this loads no model code: the providers
+// themselves are registered in models/index.ts, which only the inference worker imports.
+
+export interface EmotionModelDescriptor {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export const EMOTION_MODEL_CATALOG: EmotionModelDescriptor[] = [
+  {
+    id: 'face-api',
+    name: 'face-api-expression',
+    description: 'On-device CNN (FaceExpressionNet), CPU backend'
+  },
+  {
+    id: 'demo',
+    name: 'demo-random',
+    description: 'Demo mode - random labels, not derived from the video frame'
+  }
+];
+
+export const DEFAULT_EMOTION_MODEL = 'face-api';
+
+export const describeEmotionModel = (id: string): EmotionModelDescriptor => {
+  const descriptor = EMOTION_MODEL_CATALOG.find(entry => entry.id === id);
+  if (!descriptor) {
+    throw new Error(`Unknown emotion model provider: ${id}`);
+  }
+  return descriptor;
+};
@@ -0,0 +1,25 @@
+import { EMOTION_TAXONOMY, EmotionLabel, EmotionModel } from './emotionModel';
+import { describeEmotionModel } from './catalog';
+
+// Random labels for demos and UI work without a face in front of the camera
+export const createDemoModel = (): EmotionModel => ({
+  ...describeEmotionModel('demo'),
+  version: '1.1.0',
+  load: async () => {},
+  predict: async () => {
+    const emotion = EMOTION_TAXONOMY[Math.floor(Math.random() * EMOTION_TAXONOMY.length)];
+    const confidence = Math.random() * 0.4 + 0.6;
+
+    // Spread the remaining mass randomly over the other labels
+    const others = EMOTION_TAXONOMY.filter(label => label !== emotion);
+    const weights = others.map(() => Math.random());
+    const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+    const probabilities = { [emotion]: confidence } as Record<EmotionLabel, number>;
+    others.forEach((label, i) => {
+      probabilities[label] = ((1 - confidence) * weights[i]) / weightSum;
+    });
+
+    return { emotion, confidence, probabilities };
+  },
+  dispose: () => {}
+});
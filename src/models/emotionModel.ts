@@ -0,0 +1,43 @@
+import type { AnalysisFrame, DetectedFace } from './faceDetector';
+
+// Shared label set; every provider reports a probability for each of these
+export const EMOTION_TAXONOMY = ['neutral', 'happy', 'sad', 'angry', 'fearful', 'disgusted', 'surprised'] as const;
+
+export type EmotionLabel = typeof EMOTION_TAXONOMY[number];
+
+export interface EmotionPrediction {
+  emotion: EmotionLabel;
+  confidence: number;
+  // Sums to 1 over EMOTION_TAXONOMY
+  probabilities: Record<EmotionLabel, number>;
+}
+
+export interface EmotionModel {
+  id: string;
+  name: string;
+  version: string;
+  description: string;
+  load: () => Promise<void>;
+  predict: (frame: AnalysisFrame, face: DetectedFace) => Promise<EmotionPrediction>;
+  dispose: () => void;
+}
+
+export type EmotionModelFactory = () => EmotionModel;
+
+const providers = new Map<string, EmotionModelFactory>();
+
+export const registerEmotionModel = (id: string, factory: EmotionModelFactory) => {
+  providers.set(id, factory);
+};
+
+export const createEmotionModel = (id: string): EmotionModel => {
+  const factory = providers.get(id);
+  if (!factory) {
+    throw new Error(`Unknown emotion model provider: ${id}`);
+  }
+  return factory();
+};
+
+export const listEmotionModels = (): EmotionModel[] => {
+  return Array.from(providers.values()).map(factory => factory());
+};
@@ -0,0 +1,32 @@
+import * as faceapi from '@vladmandic/face-api';
+import faceExpressionManifestUrl from '@vladmandic/face-api/model/face_expression_model-weights_manifest.json?url';
+import faceExpressionWeightsUrl from '@vladmandic/face-api/model/face_expression_model.bin?url';
+import { EMOTION_TAXONOMY, EmotionLabel, EmotionModel } from './emotionModel';
+import { createLoader, ensureCpuBackend, loadWeightMap } from './weights';
+import { describeEmotionModel } from './catalog';
+
+const loadExpressionNet = createLoader(async () => {
+  await ensureCpuBackend();
+  const weights = await loadWeightMap(faceExpressionManifestUrl, faceExpressionWeightsUrl);
+  faceapi.nets.faceExpressionNet.loadFromWeightMap(weights);
+});
+
+export const createFaceApiModel = (): EmotionModel => ({
+  ...describeEmotionModel('face-api'),
+  version: faceapi.version,
+  load: loadExpressionNet,
+  predict: async (frame, face) => {
+    const { x, y, width, height } = face.box;
+    const [faceCanvas] = await faceapi.extractFaces(frame as HTMLCanvasElement, [new faceapi.Rect(x, y, width, height)]);
+    const expressions = await faceapi.nets.faceExpressionNet.predictExpressions(faceCanvas) as faceapi.FaceExpressions;
+
+    const probabilities = EMOTION_TAXONOMY.reduce((acc, label) => {
+      acc[label] = expressions[label];
+      return acc;
+    }, {} as Record<EmotionLabel, number>);
+
+    const [top] = expressions.asSortedArray();
+    return { emotion: top.expression, confidence: top.probability, probabilities };
+  },
+  dispose: () => {}
+});
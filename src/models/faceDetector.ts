@@ -0,0 +1,58 @@
+import * as faceapi from '@vladmandic/face-api';
+import tinyFaceDetectorManifestUrl from '@vladmandic/face-api/model/tiny_face_detector_model-weights_manifest.json?url';
+import tinyFaceDetectorWeightsUrl from '@vladmandic/face-api/model/tiny_face_detector_model.bin?url';
+import faceLandmarkManifestUrl from '@vladmandic/face-api/model/face_landmark_68_tiny_model-weights_manifest.json?url';
+import faceLandmarkWeightsUrl from '@vladmandic/face-api/model/face_landmark_68_tiny_model.bin?url';
+import { createLoader, ensureCpuBackend, loadWeightMap } from './weights';
+
+export interface FacePoint {
+  x: number;
+  y: number;
+}
+
+export interface FaceBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Frames are plain canvases on the main thread and OffscreenCanvases in the inference worker
+export type AnalysisFrame = HTMLCanvasElement | OffscreenCanvas;
+
+export interface DetectedFace {
+  box: FaceBox;
+  score: number;
+  // 68-point iBUG layout, in frame pixel coordinates
+  landmarks: FacePoint[];
+}
+
+const DETECTOR_OPTIONS = new faceapi.TinyFaceDetectorOptions({ inputSize: 320, scoreThreshold: 0.5 });
+
+export const loadFaceDetector = createLoader(async () => {
+  await ensureCpuBackend();
+  const [detectorWeights, landmarkWeights] = await Promise.all([
+    loadWeightMap(tinyFaceDetectorManifestUrl, tinyFaceDetectorWeightsUrl),
+    loadWeightMap(faceLandmarkManifestUrl, faceLandmarkWeightsUrl)
+  ]);
+  faceapi.nets.tinyFaceDetector.loadFromWeightMap(detectorWeights);
+  faceapi.nets.faceLandmark68TinyNet.loadFromWeightMap(landmarkWeights);
+});
+
+export const detectFaces = async (frame: AnalysisFrame): Promise<DetectedFace[]> => {
+  // face-api's typings only list DOM inputs; OffscreenCanvas works once the worker env is set
+  const results = await faceapi
+    .detectAllFaces(frame as HTMLCanvasElement, DETECTOR_OPTIONS)
+    .withFaceLandmarks(true);
+
+  return results.map(({ detection, landmarks }) => ({
+    box: {
+      x: detection.box.x,
+      y: detection.box.y,
+      width: detection.box.width,
+      height: detection.box.height
+    },
+    score: detection.score,
+    landmarks: landmarks.positions.map(({ x, y }) => ({ x, y }))
+  }));
+};
@@ -0,0 +1,13 @@
+import { registerEmotionModel } from './emotionModel';
+import { createFaceApiModel } from './faceApiModel';
+import { createDemoModel } from './demoModel';
+
+registerEmotionModel('face-api', createFaceApiModel);
+registerEmotionModel('demo', createDemoModel);
+
+export { DEFAULT_EMOTION_MODEL, EMOTION_MODEL_CATALOG } from './catalog';
+
+export { createEmotionModel, listEmotionModels, EMOTION_TAXONOMY } from './emotionModel';
+export type { EmotionModel, EmotionPrediction, EmotionLabel } from './emotionModel';
+export { loadFaceDetector, detectFaces } from './faceDetector';
+export type { AnalysisFrame, DetectedFace, FaceBox, FacePoint } from './faceDetector';
@@ -0,0 +1,60 @@
+import * as faceapi from '@vladmandic/face-api';
+
+interface WeightsManifestGroup {
+  paths: string[];
+  weights: Parameters<typeof faceapi.tf.io.decodeWeights>[1];
+}
+
+// The typings bundled with face-api omit the backend controls of its embedded tfjs
+const tfBackend = faceapi.tf as unknown as {
+  setBackend: (name: string) => Promise<boolean>;
+  ready: () => Promise<void>;
+};
+
+let backendPromise: Promise<void> | null = null;
+
+// Pin the CPU backend so results do not depend on the operator's GPU/driver; a failed
+// attempt is forgotten so the next load can try again
+export const ensureCpuBackend = () => {
+  if (!backendPromise) {
+    backendPromise = tfBackend.setBackend('cpu')
+      .then(selected => {
+        if (!selected) throw new Error('The CPU backend could not be initialised');
+        return tfBackend.ready();
+      })
+      .catch(error => {
+        backendPromise = null;
+        throw error;
+      });
+  }
+  return backendPromise;
+};
+
+// A missing file would otherwise surface as a JSON or weight-decoding error
+const fetchOk = async (url: string) => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not load ${url}: HTTP ${res.status}`);
+  return res;
+};
+
+export const loadWeightMap = async (manifestUrl: string, weightsUrl: string) => {
+  const [manifest, weights] = await Promise.all([
+    fetchOk(manifestUrl).then(res => res.json() as Promise<WeightsManifestGroup[]>),
+    fetchOk(weightsUrl).then(res => res.arrayBuffer())
+  ]);
+  return faceapi.tf.io.decodeWeights(weights, manifest.flatMap(group => group.weights));
+};
+
+// Share one in-flight load per network and allow a retry after failure
+export const createLoader = (load: () => Promise<void>) => {
+  let promise: Promise<void> | null = null;
+  return () => {
+    if (!promise) {
+      promise = load().catch(error => {
+        promise = null;
+        throw error;
+      });
+    }
+    return promise;
+  };
+};
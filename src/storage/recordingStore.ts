@@ -0,0 +1,136 @@
+// Session recordings live in IndexedDB so footage never leaves the operator's machine
+const DB_NAME = 'emotion-detector';
+const DB_VERSION = 3;
+const RECORDINGS_STORE = 'recordings';
+const BASELINES_STORE = 'voiceBaselines';
+// Keyed by session, so importing a transcript for a session replaces the earlier one
+const TRANSCRIPTS_STORE = 'transcripts';
+
+// Record arrays are typed by the caller, which owns the result schemas
+export interface SessionRecording<Emotion = unknown, Voice = unknown, Micro = unknown, Behavior = unknown, Physio = unknown> {
+  id: string;
+  sessionId: string;
+  createdAt: string;
+  // Epoch ms of the first recorded frame; record media times are seconds from this point
+  startedAt: number;
+  durationMs: number;
+  mimeType: string;
+  hasAudio: boolean;
+  video: Blob;
+  emotions: Emotion[];
+  voice: Voice[];
+  microExpressions: Micro[];
+  // Absent on recordings made before behaviour and pulse were kept
+  behavior?: Behavior[];
+  physiological?: Physio[];
+  // Copies of the voice baselines the voice records were scored against, so the recording
+  // still explains its scores after a baseline is recalibrated or deleted; absent on older recordings
+  voiceBaselines?: StoredVoiceBaseline[];
+}
+
+// A subject's neutral voice reference, calibrated in one session and reusable in later ones
+export interface StoredVoiceBaseline<Stats = unknown> {
+  id: string;
+  subjectName: string;
+  // Session the calibration ran in
+  sessionId: string;
+  createdAt: string;
+  windowMs: number;
+  windows: number;
+  stats: Stats;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+          db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(BASELINES_STORE)) {
+          db.createObjectStore(BASELINES_STORE, { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+        }
+        if (!db.objectStoreNames.contains(TRANSCRIPTS_STORE)) {
+          db.createObjectStore(TRANSCRIPTS_STORE, { keyPath: 'sessionId' });
+        }
+      };
+      // Another tab holding the old version keeps the upgrade waiting; fail rather than hang
+      let blocked = false;
+      request.onblocked = () => {
+        blocked = true;
+        dbPromise = null;
+        reject(new Error('Local storage is being upgraded; close other tabs of this app and try again'));
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        if (blocked) {
+          db.close();
+          return;
+        }
+        // Let a newer version in another tab upgrade; the next call reopens
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>, storeName = RECORDINGS_STORE) => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveRecording = async (recording: SessionRecording) => {
+  await runRequest('readwrite', store => store.put(recording));
+};
+
+export const listRecordings = async <E, V, M, B, P>(): Promise<SessionRecording<E, V, M, B, P>[]> => {
+  const recordings = await runRequest<SessionRecording<E, V, M, B, P>[]>('readonly', store => store.getAll());
+  return recordings.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const deleteRecording = async (id: string) => {
+  await runRequest('readwrite', store => store.delete(id));
+};
+
+export const saveVoiceBaseline = async (baseline: StoredVoiceBaseline) => {
+  await runRequest('readwrite', store => store.put(baseline), BASELINES_STORE);
+};
+
+// Newest first
+export const listVoiceBaselines = async <S>(): Promise<StoredVoiceBaseline<S>[]> => {
+  const baselines = await runRequest<StoredVoiceBaseline<S>[]>('readonly', store => store.getAll(), BASELINES_STORE);
+  return baselines.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+};
+
+export const deleteVoiceBaseline = async (id: string) => {
+  await runRequest('readwrite', store => store.delete(id), BASELINES_STORE);
+};
+
+// Transcript shapes belong to the caller, like the record arrays of a recording
+export const saveTranscript = async (transcript: { sessionId: string }) => {
+  await runRequest('readwrite', store => store.put(transcript), TRANSCRIPTS_STORE);
+};
+
+export const listTranscripts = async <T>(): Promise<T[]> =>
+  runRequest<T[]>('readonly', store => store.getAll(), TRANSCRIPTS_STORE);
+
+export const clearTranscripts = async () => {
+  await runRequest('readwrite', store => store.clear(), TRANSCRIPTS_STORE);
+};
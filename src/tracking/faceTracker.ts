@@ -0,0 +1,107 @@
+import { DetectedFace, FaceBox } from '../models';
+
+export interface TrackedFace extends DetectedFace {
+  subjectId: string;
+}
+
+interface Track {
+  subjectId: string;
+  face: DetectedFace;
+  lastSeen: number;
+}
+
+export interface FaceTrackerOptions {
+  // How long a subject may be occluded or out of frame before its ID is released
+  maxMissingMs: number;
+  minIou: number;
+  // Fallback match when boxes stop overlapping (fast head movement), as a fraction of face width
+  maxCenterShift: number;
+}
+
+const DEFAULT_OPTIONS: FaceTrackerOptions = {
+  maxMissingMs: 2000,
+  minIou: 0.3,
+  maxCenterShift: 0.6
+};
+
+const iou = (a: FaceBox, b: FaceBox): number => {
+  const x1 = Math.max(a.x, b.x);
+  const y1 = Math.max(a.y, b.y);
+  const x2 = Math.min(a.x + a.width, b.x + b.width);
+  const y2 = Math.min(a.y + a.height, b.y + b.height);
+  const intersection = Math.max(0, x2 - x1) * Math.max(0, y2 - y1);
+  const union = a.width * a.height + b.width * b.height - intersection;
+  return union > 0 ? intersection / union : 0;
+};
+
+const centerShift = (a: FaceBox, b: FaceBox): number => {
+  const dx = (a.x + a.width / 2) - (b.x + b.width / 2);
+  const dy = (a.y + a.height / 2) - (b.y + b.height / 2);
+  return Math.sqrt(dx * dx + dy * dy) / Math.max(a.width, 1);
+};
+
+// Similarity in [0, 2]; 0 means "not the same face"
+const matchScore = (track: Track, face: DetectedFace, options: FaceTrackerOptions): number => {
+  const overlap = iou(track.face.box, face.box);
+  if (overlap >= options.minIou) return 1 + overlap;
+
+  const shift = centerShift(track.face.box, face.box);
+  return shift <= options.maxCenterShift ? 1 - shift / options.maxCenterShift : 0;
+};
+
+export const createFaceTracker = (overrides: Partial<FaceTrackerOptions> = {}) => {
+  const options = { ...DEFAULT_OPTIONS, ...overrides };
+  let tracks: Track[] = [];
+  let nextId = 1;
+
+  // Greedy association: best-scoring track/face pairs are matched first
+  const update = (faces: DetectedFace[], timestamp: number): TrackedFace[] => {
+    tracks = tracks.filter(track => timestamp - track.lastSeen <= options.maxMissingMs);
+
+    const candidates: { trackIndex: number; faceIndex: number; score: number }[] = [];
+    tracks.forEach((track, trackIndex) => {
+      faces.forEach((face, faceIndex) => {
+        const score = matchScore(track, face, options);
+        if (score > 0) candidates.push({ trackIndex, faceIndex, score });
+      });
+    });
+    candidates.sort((a, b) => b.score - a.score);
+
+    const assigned = new Map<number, Track>();
+    const usedTracks = new Set<number>();
+    candidates.forEach(({ trackIndex, faceIndex }) => {
+      if (usedTracks.has(trackIndex) || assigned.has(faceIndex)) return;
+      usedTracks.add(trackIndex);
+      assigned.set(faceIndex, tracks[trackIndex]);
+    });
+
+    return faces.map((face, faceIndex) => {
+      let track = assigned.get(faceIndex);
+      if (!track) {
+        track = { subjectId: `S${nextId++}`, face, lastSeen: timestamp };
+        tracks.push(track);
+      }
+      track.face = face;
+      track.lastSeen = timestamp;
+      return { ...face, subjectId: track.subjectId };
+    });
+  };
+
+  // Subjects still held, including ones briefly out of view
+  const activeSubjects = () => tracks.map(track => track.subjectId);
+
+  // Subject IDs keep counting, so a face found after a reset is never given an earlier subject's ID
+  const reset = () => {
+    tracks = [];
+  };
+
+  // For a new session, whose subject IDs start again from S1
+  const restart = () => {
+    tracks = [];
+    nextId = 1;
+  };
+
+  return { update, activeSubjects, reset, restart };
+};
+
+export type FaceTracker = ReturnType<typeof createFaceTracker>;
@@ -0,0 +1,114 @@
+import { FrameInference, FrameOptions, InferenceRequest, InferenceResponse, ModelInfo } from './inferenceProtocol';
+
+// Distributes over the union so each request variant keeps its own fields
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+interface PendingRequest {
+  resolve: (response: InferenceResponse) => void;
+  reject: (error: Error) => void;
+}
+
+interface QueuedFrame {
+  bitmap: ImageBitmap;
+  options: FrameOptions;
+  resolve: (inference: FrameInference | null) => void;
+  reject: (error: Error) => void;
+}
+
+// Main-thread side of the inference worker. Live frames go through a one-slot mailbox:
+// while the worker is busy only the newest frame waits, and older ones are dropped.
+export const createInferenceClient = () => {
+  const worker = new Worker(new URL('./inferenceWorker.ts', import.meta.url), { type: 'module' });
+  const pending = new Map<number, PendingRequest>();
+  let nextId = 1;
+  let framesInFlight = 0;
+  let queued: QueuedFrame | null = null;
+  let dropped = 0;
+
+  worker.onmessage = (event: MessageEvent<InferenceResponse>) => {
+    const request = pending.get(event.data.id);
+    if (!request) return;
+    pending.delete(event.data.id);
+    if (event.data.type === 'error') {
+      request.reject(new Error(event.data.message));
+    } else {
+      request.resolve(event.data);
+    }
+  };
+
+  worker.onerror = (event) => {
+    console.error('Inference worker error:', event.message);
+    pending.forEach(request => request.reject(new Error(event.message || 'Inference worker failed')));
+    pending.clear();
+  };
+
+  const send = (message: WithoutId<InferenceRequest>, transfer: Transferable[] = []) => {
+    const id = nextId++;
+    return new Promise<InferenceResponse>((resolve, reject) => {
+      pending.set(id, { resolve, reject });
+      worker.postMessage({ ...message, id }, transfer);
+    });
+  };
+
+  const load = async (modelId: string): Promise<ModelInfo> => {
+    const response = await send({ type: 'load', modelId });
+    if (response.type !== 'loaded') throw new Error('Unexpected worker response');
+    return response.model;
+  };
+
+  // Every frame is processed; used for file analysis, which waits on each result
+  const infer = async (bitmap: ImageBitmap, options: FrameOptions): Promise<FrameInference> => {
+    framesInFlight++;
+    try {
+      const response = await send({ type: 'frame', bitmap, options }, [bitmap]);
+      if (response.type !== 'result') throw new Error('Unexpected worker response');
+      return response.inference;
+    } finally {
+      framesInFlight--;
+      flushQueued();
+    }
+  };
+
+  const flushQueued = () => {
+    if (framesInFlight > 0 || !queued) return;
+    const { bitmap, options, resolve, reject } = queued;
+    queued = null;
+    infer(bitmap, options).then(resolve, reject);
+  };
+
+  // Resolves null when the frame went stale before the worker could take it
+  const inferLatest = (bitmap: ImageBitmap, options: FrameOptions): Promise<FrameInference | null> => {
+    if (queued) {
+      queued.bitmap.close();
+      queued.resolve(null);
+      dropped++;
+    }
+    return new Promise((resolve, reject) => {
+      queued = { bitmap, options, resolve, reject };
+      flushQueued();
+    });
+  };
+
+  const terminate = () => {
+    worker.terminate();
+    if (queued) {
+      queued.bitmap.close();
+      queued.resolve(null);
+      queued = null;
+    }
+    pending.forEach(request => request.reject(new Error('Inference worker terminated')));
+    pending.clear();
+  };
+
+  return {
+    load,
+    infer,
+    inferLatest,
+    terminate,
+    get droppedFrames() {
+      return dropped;
+    }
+  };
+};
+
+export type InferenceClient = ReturnType<typeof createInferenceClient>;
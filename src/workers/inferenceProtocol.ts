@@ -0,0 +1,46 @@
+import { DetectedFace, EmotionPrediction } from '../models';
+import { FrameQuality } from '../analysis/frameQuality';
+import { EyeGaze } from '../analysis/eyeGaze';
+import { SkinColor } from '../analysis/skinColor';
+
+export interface FrameOptions {
+  mirror: boolean;
+  // Emotion classification runs on a slower cadence than detection
+  classify: boolean;
+  qualityThreshold: number;
+}
+
+export interface FaceInference {
+  face: DetectedFace;
+  quality: FrameQuality | null;
+  // Needs the pixels, so it is measured here rather than from landmarks on the main thread
+  eyeGaze: EyeGaze | null;
+  // Mean skin colour for pulse estimation; the main thread only ever sees the summary
+  skinColor: SkinColor | null;
+  // Null when classification was not requested or the face failed the quality gate
+  prediction: EmotionPrediction | null;
+}
+
+export interface FrameInference {
+  faces: FaceInference[];
+  classified: boolean;
+  width: number;
+  height: number;
+  // Time spent inside the worker on this frame
+  inferenceMs: number;
+}
+
+export interface ModelInfo {
+  id: string;
+  name: string;
+  version: string;
+}
+
+export type InferenceRequest =
+  | { type: 'load'; id: number; modelId: string }
+  | { type: 'frame'; id: number; bitmap: ImageBitmap; options: FrameOptions };
+
+export type InferenceResponse =
+  | { type: 'loaded'; id: number; model: ModelInfo }
+  | { type: 'result'; id: number; inference: FrameInference }
+  | { type: 'error'; id: number; message: string };
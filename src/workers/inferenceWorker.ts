@@ -0,0 +1,114 @@
+import * as faceapi from '@vladmandic/face-api';
+import { createEmotionModel, loadFaceDetector, detectFaces, EmotionModel } from '../models';
+import { createFrameQualityAssessor } from '../analysis/frameQuality';
+import { createEyeGazeEstimator } from '../analysis/eyeGaze';
+import { sampleSkinColor } from '../analysis/skinColor';
+import { FaceInference, FrameOptions, InferenceRequest, InferenceResponse } from './inferenceProtocol';
+
+// The DOM lib has no worker global types; only these two members are used
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<InferenceRequest>) => void) | null;
+  postMessage: (message: InferenceResponse) => void;
+};
+
+class Unsupported {
+  constructor() {
+    throw new Error('Not available in the inference worker');
+  }
+}
+
+// face-api only recognises window and Node environments, so hand it OffscreenCanvas here
+faceapi.env.setEnv({
+  Canvas: OffscreenCanvas,
+  CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D,
+  Image: Unsupported,
+  ImageData,
+  Video: Unsupported,
+  createCanvasElement: () => new OffscreenCanvas(1, 1),
+  createImageElement: () => new Unsupported(),
+  createVideoElement: () => new Unsupported(),
+  fetch: (url: string, init?: RequestInit) => fetch(url, init),
+  readFile: () => Promise.reject(new Error('readFile is not available in the inference worker'))
+} as unknown as faceapi.Environment);
+
+const qualityAssessor = createFrameQualityAssessor();
+const eyeGazeEstimator = createEyeGazeEstimator();
+let frameCanvas: OffscreenCanvas | null = null;
+let model: EmotionModel | null = null;
+
+const loadModel = async (modelId: string) => {
+  model?.dispose();
+  model = null;
+
+  const next = createEmotionModel(modelId);
+  await Promise.all([loadFaceDetector(), next.load()]);
+  model = next;
+  return { id: next.id, name: next.name, version: next.version };
+};
+
+const analyseFrame = async (bitmap: ImageBitmap, options: FrameOptions) => {
+  const start = performance.now();
+
+  if (!frameCanvas) {
+    frameCanvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  }
+  frameCanvas.width = bitmap.width;
+  frameCanvas.height = bitmap.height;
+  const ctx = frameCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('OffscreenCanvas 2D context unavailable');
+
+  ctx.save();
+  if (options.mirror) {
+    ctx.scale(-1, 1);
+    ctx.drawImage(bitmap, -bitmap.width, 0);
+  } else {
+    ctx.drawImage(bitmap, 0, 0);
+  }
+  ctx.restore();
+  bitmap.close();
+
+  const classifier = options.classify ? model : null;
+  const faces: FaceInference[] = [];
+  for (const face of await detectFaces(frameCanvas)) {
+    const quality = qualityAssessor.assess(frameCanvas, face, options.qualityThreshold);
+    const usable = quality ? quality.usable : true;
+    const eyeGaze = usable ? eyeGazeEstimator.estimate(frameCanvas, face) : null;
+    const skinColor = usable ? sampleSkinColor(ctx, face) : null;
+    const prediction = classifier && usable ? await classifier.predict(frameCanvas, face) : null;
+    faces.push({ face, quality, eyeGaze, skinColor, prediction });
+  }
+
+  return {
+    faces,
+    classified: classifier !== null,
+    width: frameCanvas.width,
+    height: frameCanvas.height,
+    inferenceMs: performance.now() - start
+  };
+};
+
+const handleRequest = async (request: InferenceRequest) => {
+  try {
+    if (request.type === 'load') {
+      workerScope.postMessage({ type: 'loaded', id: request.id, model: await loadModel(request.modelId) });
+    } else {
+      if (!model) {
+        request.bitmap.close();
+        throw new Error('No emotion model loaded');
+      }
+      workerScope.postMessage({ type: 'result', id: request.id, inference: await analyseFrame(request.bitmap, request.options) });
+    }
+  } catch (error) {
+    workerScope.postMessage({
+      type: 'error',
+      id: request.id,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
+
+// Handle one request at a time so a model switch never races a frame in progress
+let queue = Promise.resolve();
+workerScope.onmessage = (event) => {
+  queue = queue.then(() => handleRequest(event.data));
+};
@@ -7,4 +7,8 @@ export default defineConfig({
   optimizeDeps: {
     exclude: ['lucide-react'],
   },
+  // The inference worker imports face-api and the model registry as ES modules
+  worker: {
+    format: 'es',
+  },
 });